@@ -0,0 +1,515 @@
+import path from "path"
+import { medusaIntegrationTestRunner } from "@medusajs/test-utils"
+import { Modules } from "@medusajs/framework/utils"
+import type { IPaymentModuleService, MedusaContainer } from "@medusajs/framework/types"
+import { PayuEmulator } from "../../src/emulator"
+import { PayuClient } from "../../src/providers/payu/client"
+import { chargePayuMandateWorkflow } from "../../src/workflows"
+import { toInvoiceRequest, toPaymentLink } from "../../src/providers/payu/payment-links"
+import type PayuModuleService from "../../src/modules/payu/service"
+import type { PayuSessionData } from "../../src/providers/payu/types"
+
+jest.setTimeout(60 * 1000)
+
+const EMULATOR_PORT = 4010
+
+// Read by integration-tests/medusa-config.ts when the app boots
+process.env.PAYU_MERCHANT_KEY = "emulator_key"
+process.env.PAYU_MERCHANT_SALT = "emulator_salt"
+process.env.PAYU_BASE_URL = `http://127.0.0.1:${EMULATOR_PORT}`
+process.env.STOREFRONT_URL = "http://localhost:8000"
+
+/**
+ * Poll until `check` returns a value or the timeout expires
+ */
+async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs = 10000): Promise<T> {
+    const deadline = Date.now() + timeoutMs
+    while (Date.now() < deadline) {
+        const result = await check()
+        if (result !== undefined) {
+            return result
+        }
+        await new Promise((resolve) => setTimeout(resolve, 200))
+    }
+    throw new Error(`Condition not met within ${timeoutMs}ms`)
+}
+
+/**
+ * Create a PayU payment session the way checkout does
+ */
+async function createPayuSession(container: MedusaContainer, data: Record<string, unknown> = {}) {
+    const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+    const [collection] = await paymentModule.createPaymentCollections([{ currency_code: "inr", amount: 1499 }])
+
+    return paymentModule.createPaymentSession(collection.id, {
+        provider_id: "pp_payu_payu",
+        currency_code: "inr",
+        amount: 1499,
+        data: {
+            email: "asha@example.com",
+            firstname: "Asha",
+            phone: "9999999999",
+            ...data,
+        },
+    })
+}
+
+/**
+ * Post the session's checkout form to PayU (the emulator), as the storefront redirect does
+ */
+async function redirectToPayu(session: { data?: Record<string, unknown> | null }) {
+    const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+    return fetch(data.paymentUrl!, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams(data.form_data),
+    })
+}
+
+medusaIntegrationTestRunner({
+    cwd: path.join(__dirname, ".."),
+    testSuite: ({ api, getContainer }) => {
+        describe("PayU payment flow (emulated)", () => {
+            const emulator = new PayuEmulator({
+                merchantKey: process.env.PAYU_MERCHANT_KEY!,
+                merchantSalt: process.env.PAYU_MERCHANT_SALT!,
+                port: EMULATOR_PORT,
+            })
+
+            beforeAll(async () => {
+                await emulator.start()
+                emulator.setWebhookUrl(`${api.defaults.baseURL}/hooks/payment/payu_payu`)
+            })
+
+            afterAll(async () => {
+                await emulator.stop()
+            })
+
+            beforeEach(() => {
+                emulator.reset()
+            })
+
+            it("initiates, redirects, receives the webhook, authorizes and refunds", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+                const payuModule = container.resolve<PayuModuleService>("payu")
+
+                // Initiate
+                const session = await createPayuSession(container)
+                const sessionData = session.data as unknown as PayuSessionData
+                expect(sessionData.paymentUrl).toBe(`${emulator.url}/_payment`)
+
+                // Redirect - the emulator settles the payment, sends the webhook and returns to surl
+                const checkout = await redirectToPayu(session)
+                expect(checkout.status).toBe(200)
+                expect(await checkout.text()).toContain("http://localhost:8000/in/order/confirmed")
+
+                // Webhook
+                const webhookEvent = await waitFor(async () => {
+                    const [event] = await payuModule.listPayuWebhookEvents({ txnid: sessionData.txnid }, { take: 1 })
+                    return event
+                })
+                expect(webhookEvent).toMatchObject({
+                    status: "success",
+                    hash_verified: true,
+                    action: "authorized",
+                    duplicate: false,
+                })
+
+                // Authorize - the webhook authorizes the session, verified against the emulator's verify_payment
+                const payment = await waitFor(async () => {
+                    const [authorized] = await paymentModule.listPayments({ payment_session_id: session.id })
+                    return authorized
+                })
+                const mihpayid = emulator.getTransaction(sessionData.txnid)!.mihpayid
+                expect((payment.data as unknown as PayuSessionData).payuTransactionId).toBe(mihpayid)
+
+                // Refund
+                await paymentModule.capturePayment({ payment_id: payment.id })
+                const refunded = await paymentModule.refundPayment({ payment_id: payment.id, amount: 500 })
+
+                const refundedData = refunded.data as unknown as PayuSessionData
+                expect(refundedData.status).toBe("partially_refunded")
+                expect(refundedData.refunds).toEqual([
+                    expect.objectContaining({ amount: "500.00", status: "pending" }),
+                ])
+                expect(emulator.getTransaction(sessionData.txnid)!.actions).toEqual([
+                    expect.objectContaining({ action: "refund", amount: "500.00" }),
+                ])
+            })
+
+            it("authorizes the right session from the webhook when a cart has several attempts", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                // Abandoned first attempt, then the attempt the customer pays
+                const abandoned = await createPayuSession(container)
+                const session = await createPayuSession(container)
+                expect((session.data as unknown as PayuSessionData).udf3).toBe(session.id)
+
+                await redirectToPayu(session)
+
+                const authorized = await waitFor(async () => {
+                    const current = await paymentModule.retrievePaymentSession(session.id)
+                    return current.status === "authorized" ? current : undefined
+                })
+                expect(authorized.id).toBe(session.id)
+                expect((await paymentModule.retrievePaymentSession(abandoned.id)).status).toBe("pending")
+            })
+
+            it("leaves the session requiring more when the customer bounces from authentication", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container)
+                const { txnid } = session.data as unknown as PayuSessionData
+                emulator.setOutcome(txnid, "bounced")
+
+                const checkout = await redirectToPayu(session)
+                expect(await checkout.text()).toContain("http://localhost:8000/in/checkout")
+
+                await expect(paymentModule.authorizePaymentSession(session.id, {})).rejects.toThrow(
+                    "was not authorized with the provider"
+                )
+
+                const updated = await paymentModule.retrievePaymentSession(session.id)
+                expect(updated.status).toBe("requires_more")
+            })
+
+            it("posts a seamless card checkout with the payment method the storefront picked", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container, {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "card", card_type: "debit", bankcode: "VISA" },
+                })
+                const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+                expect(data.form_data).toMatchObject({ pg: "DC", bankcode: "VISA" })
+                expect(data.form_data.service_provider).toBeUndefined()
+
+                // The browser adds the card details when it posts the form to PayU
+                Object.assign(data.form_data, { ccnum: "4012001037141112", ccname: "Asha", ccvv: "123", ccexpmon: "05", ccexpyr: "2030" })
+                await redirectToPayu(session)
+
+                const authorized = await waitFor(async () => {
+                    const current = await paymentModule.retrievePaymentSession(session.id)
+                    return current.status === "authorized" ? current : undefined
+                })
+                expect(authorized.data).not.toHaveProperty("form_data.ccnum")
+                expect(emulator.getTransaction(data.txnid)).toMatchObject({ mode: "DC", bankcode: "VISA" })
+            })
+
+            it("restricts low-value carts to UPI and rejects methods the rule doesn't allow", async () => {
+                const paymentModule = getContainer().resolve<IPaymentModuleService>(Modules.PAYMENT)
+                const [collection] = await paymentModule.createPaymentCollections([{ currency_code: "inr", amount: 499 }])
+                const createSession = (data: Record<string, unknown>) => paymentModule.createPaymentSession(collection.id, {
+                    provider_id: "pp_payu_payu",
+                    currency_code: "inr",
+                    amount: 499,
+                    data: { email: "asha@example.com", firstname: "Asha", phone: "9999999999", region_id: "reg_payu_upi_only", ...data },
+                })
+
+                const session = await createSession({ drop_category: "EMI" })
+                const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+                expect(data.form_data).toMatchObject({ enforce_paymethod: "upi", drop_category: "EMI" })
+
+                await expect(createSession({ enforce_paymethod: ["creditcard"] })).rejects.toThrow("creditcard are not available")
+                await expect(createSession({
+                    checkout_mode: "seamless",
+                    payment_method: { type: "netbanking", bankcode: "HDFB" },
+                })).rejects.toThrow("payment method netbanking is not available")
+            })
+
+            it("renders the session's redirect URLs on allowed origins only", async () => {
+                const session = await createPayuSession(getContainer(), {
+                    cart_id: "cart_b",
+                    locale: "hi-IN",
+                    success_url: "https://shop-b.example.com/{locale}/order/{cart_id}",
+                    cancel_url: "https://shop-b.example.com/cart?txnid={txnid}",
+                })
+                const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+                expect(data.form_data).toMatchObject({
+                    surl: "https://shop-b.example.com/hi-IN/order/cart_b",
+                    furl: "http://localhost:8000/in/checkout",
+                    curl: `https://shop-b.example.com/cart?txnid=${data.txnid}`,
+                })
+
+                await expect(createPayuSession(getContainer(), {
+                    success_url: "https://evil.example.com/thanks",
+                })).rejects.toThrow("success_url must be on one of the allowed redirect origins")
+            })
+
+            it("rejects card details sent to the server", async () => {
+                await expect(createPayuSession(getContainer(), {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "card" },
+                    ccnum: "4012001037141112",
+                })).rejects.toThrow("must be posted by the browser directly to PayU")
+            })
+
+            it("keeps saved cards to logged-in customers", async () => {
+                await expect(createPayuSession(getContainer(), {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "card", save_card: true },
+                    customer_id: "cus_from_storefront",
+                })).rejects.toThrow("saved cards are only available to logged-in customers")
+            })
+
+            it("sends the chosen EMI plan and rejects plans not offered for the amount", async () => {
+                const session = await createPayuSession(getContainer(), {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "emi", bankcode: "ZESTMON3" },
+                })
+                const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+                expect(data.form_data).toMatchObject({ pg: "EMI", bankcode: "ZESTMON3" })
+
+                // Card EMI starts at 3000 in the emulator; the session is for 1499
+                await expect(createPayuSession(getContainer(), {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "emi", bankcode: "EMI6" },
+                })).rejects.toThrow("EMI plan EMI6 is not available")
+            })
+
+            it("returns the UPI intent URI and authorizes once the customer approves", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container, {
+                    checkout_mode: "seamless",
+                    payment_method: { type: "upi_intent" },
+                    client_ip: "203.0.113.7",
+                    user_agent: "Mozilla/5.0",
+                })
+                const data = session.data as unknown as PayuSessionData & { form_data?: Record<string, string> }
+                expect(data.form_data).toBeUndefined()
+                expect(data.paymentUrl).toBeUndefined()
+                expect(data.upi).toMatchObject({ flow: "intent", intentUri: expect.stringMatching(/^upi:\/\/pay\?pa=/) })
+                expect(data.upi!.qrPayload).toBe(data.upi!.intentUri)
+
+                await emulator.completeUpiPayment(data.txnid)
+
+                const authorized = await waitFor(async () => {
+                    const current = await paymentModule.retrievePaymentSession(session.id)
+                    return current.status === "authorized" ? current : undefined
+                })
+                expect(emulator.getTransaction(data.txnid)).toMatchObject({ mode: "UPI", bankcode: "INTENT" })
+                expect(authorized.id).toBe(session.id)
+            })
+
+            it("authorizes a payment link session from the invoice's webhook", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container, { checkout_mode: "payment_link", productinfo: "Order #12" })
+                const data = session.data as unknown as PayuSessionData & { form_data?: Record<string, string> }
+                expect(data.checkoutMode).toBe("payment_link")
+                expect(data.form_data).toBeUndefined()
+                expect(data.paymentUrl).toBeUndefined()
+
+                // What the admin payment link route does after PayU created the invoice
+                const client = new PayuClient({
+                    merchantKey: process.env.PAYU_MERCHANT_KEY!,
+                    merchantSalt: process.env.PAYU_MERCHANT_SALT!,
+                    environment: "test",
+                    baseUrl: emulator.url,
+                })
+                const invoice = toInvoiceRequest(data, { expiryHours: 2 })
+                const paymentLink = toPaymentLink(await client.createInvoice(invoice), invoice)!
+                await paymentModule.updatePaymentSession({
+                    id: session.id,
+                    amount: session.amount,
+                    currency_code: session.currency_code,
+                    data: { ...session.data, paymentLink },
+                })
+
+                // Invoice webhooks carry no udf3; the session is found by its txnid
+                await emulator.payInvoice(data.txnid)
+
+                const authorized = await waitFor(async () => {
+                    const current = await paymentModule.retrievePaymentSession(session.id)
+                    return current.status === "authorized" ? current : undefined
+                })
+                expect((authorized.data as unknown as PayuSessionData).paymentLink).toMatchObject({
+                    url: `${emulator.url}/invoice/${data.txnid}`,
+                    status: "paid",
+                })
+            })
+
+            it("registers a mandate with the first payment and charges a renewal against it", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+                const payuModule = container.resolve<PayuModuleService>("payu")
+                const today = new Date().toISOString().substring(0, 10)
+
+                const [collection] = await paymentModule.createPaymentCollections([{ currency_code: "inr", amount: 1499 }])
+                const session = await paymentModule.createPaymentSession(collection.id, {
+                    provider_id: "pp_payu_payu",
+                    currency_code: "inr",
+                    amount: 1499,
+                    context: { customer: { id: "cus_mandate", email: "asha@example.com" } },
+                    data: {
+                        firstname: "Asha",
+                        phone: "9999999999",
+                        checkout_mode: "mandate",
+                        mandate: { billing_cycle: "MONTHLY", max_amount: 1499, start_date: today, end_date: "2099-12-31" },
+                    },
+                })
+                const data = session.data as unknown as PayuSessionData & { form_data: Record<string, string> }
+                expect(data.form_data).toMatchObject({ api_version: "7", si: "1" })
+
+                await redirectToPayu(session)
+                const mandate = await waitFor(async () => {
+                    const [registered] = await payuModule.listPayuMandates({ customer_id: "cus_mandate" })
+                    return registered
+                })
+                expect(mandate).toMatchObject({
+                    auth_payu_id: emulator.getTransaction(data.txnid)!.mihpayid,
+                    status: "active",
+                    billing_cycle: "MONTHLY",
+                })
+
+                const { result } = await chargePayuMandateWorkflow(container).run({
+                    input: { mandate_id: mandate.id, amount: 999, reference: "sub_renewal_1" },
+                })
+                expect(result).toMatchObject({ customer_id: "cus_mandate", amount: "999.00", status: "success" })
+                expect(emulator.getTransaction(result.txnid)).toMatchObject({ status: "success", amount: "999.00" })
+
+                await expect(chargePayuMandateWorkflow(container).run({
+                    input: { mandate_id: mandate.id, amount: 1500 },
+                })).rejects.toThrow("at most 1499.00")
+            })
+
+            it("verifies webhooks with additional charges and authorizes the order amount", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+                const payuModule = container.resolve<PayuModuleService>("payu")
+
+                const session = await createPayuSession(container)
+                const { txnid } = session.data as unknown as PayuSessionData
+                emulator.setAdditionalCharges(txnid, "29.98")
+
+                await redirectToPayu(session)
+
+                const webhookEvent = await waitFor(async () => {
+                    const [event] = await payuModule.listPayuWebhookEvents({ txnid }, { take: 1 })
+                    return event
+                })
+                expect(webhookEvent).toMatchObject({ hash_verified: true, action: "authorized" })
+
+                const payment = await waitFor(async () => {
+                    const [authorized] = await paymentModule.listPayments({ payment_session_id: session.id })
+                    return authorized
+                })
+                expect(Number(payment.amount)).toBe(1499)
+                expect(payment.data).toMatchObject({ additionalCharges: "29.98", amountCharged: "1528.98" })
+            })
+
+            it("holds a payment for review when PayU reports a different amount than the session", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container)
+                emulator.setWebhookUrl(undefined)
+                await redirectToPayu(session)
+                emulator.setWebhookUrl(`${api.defaults.baseURL}/hooks/payment/payu_payu`)
+
+                // The cart total changed after the customer paid 1499.00
+                await paymentModule.updatePaymentSession({
+                    id: session.id,
+                    amount: 2000,
+                    currency_code: "inr",
+                    data: session.data!,
+                })
+
+                await expect(paymentModule.authorizePaymentSession(session.id, {})).rejects.toThrow(
+                    "was not authorized with the provider"
+                )
+
+                const updated = await paymentModule.retrievePaymentSession(session.id)
+                expect(updated.status).toBe("requires_more")
+                expect(updated.data).toMatchObject({
+                    status: "requires_more",
+                    mismatches: [{ field: "amount", expected: "2000.00", received: "1499.00" }],
+                })
+            })
+
+            it("retries a failed attempt with a new txnid on the same session", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container)
+                const firstTxnid = (session.data as unknown as PayuSessionData).txnid
+                emulator.setOutcome(firstTxnid, "failure")
+                await redirectToPayu(session)
+
+                await expect(paymentModule.authorizePaymentSession(session.id, {})).rejects.toThrow()
+                const failed = await paymentModule.retrievePaymentSession(session.id)
+
+                const retried = await paymentModule.updatePaymentSession({
+                    id: session.id,
+                    amount: 1499,
+                    currency_code: "inr",
+                    data: failed.data!,
+                })
+                const retriedData = retried.data as unknown as PayuSessionData
+                expect(retried.status).toBe("pending")
+                expect(retriedData.txnid).not.toBe(firstTxnid)
+                expect(retriedData.attempts).toEqual([expect.objectContaining({ txnid: firstTxnid, status: "failed" })])
+
+                await redirectToPayu(retried)
+
+                const authorized = await waitFor(async () => {
+                    const current = await paymentModule.retrievePaymentSession(session.id)
+                    return current.status === "authorized" ? current : undefined
+                })
+                expect((authorized.data as unknown as PayuSessionData).txnid).toBe(retriedData.txnid)
+            })
+
+            it("rejects webhooks that are not signed with the merchant salt", async () => {
+                const container = getContainer()
+                const payuModule = container.resolve<PayuModuleService>("payu")
+
+                const session = await createPayuSession(container)
+                const { txnid } = session.data as unknown as PayuSessionData
+                emulator.setWebhookUrl(undefined)
+                await redirectToPayu(session)
+                emulator.setWebhookUrl(`${api.defaults.baseURL}/hooks/payment/payu_payu`)
+
+                const payload = emulator.buildResponse(txnid)
+                await api.post("/hooks/payment/payu_payu", new URLSearchParams({ ...payload, hash: "forged" }).toString(), {
+                    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                })
+
+                const event = await waitFor(async () => {
+                    const [logged] = await payuModule.listPayuWebhookEvents({ txnid }, { take: 1 })
+                    return logged
+                })
+                expect(event).toMatchObject({ hash_verified: false, error: "Hash verification failed" })
+            })
+
+            it("returns a repeated authorization again until its session is authorized", async () => {
+                const container = getContainer()
+                const paymentModule = container.resolve<IPaymentModuleService>(Modules.PAYMENT)
+
+                const session = await createPayuSession(container)
+                const { txnid } = session.data as unknown as PayuSessionData
+                emulator.setWebhookUrl(undefined)
+                await redirectToPayu(session)
+                emulator.setWebhookUrl(`${api.defaults.baseURL}/hooks/payment/payu_payu`)
+
+                const deliver = () => paymentModule.getWebhookActionAndData({
+                    provider: "payu_payu",
+                    payload: { data: emulator.buildResponse(txnid), rawData: "", headers: {} },
+                })
+
+                // The first delivery was never processed, so PayU's retry is not a duplicate
+                expect((await deliver()).action).toBe("authorized")
+                expect((await deliver()).action).toBe("authorized")
+
+                await paymentModule.authorizePaymentSession(session.id, {})
+                expect((await deliver()).action).toBe("not_supported")
+            })
+        })
+    },
+})
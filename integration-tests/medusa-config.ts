@@ -0,0 +1,56 @@
+/**
+ * Medusa config for the integration tests
+ * Loads the built plugin (run `npm run build` first) and points the PayU
+ * provider at the local PayU emulator via PAYU_BASE_URL
+ */
+
+import path from "path"
+import { defineConfig, loadEnv } from "@medusajs/framework/utils"
+
+loadEnv(process.env.NODE_ENV || "test", process.cwd())
+
+const pluginRoot = path.resolve(__dirname, "..")
+
+module.exports = defineConfig({
+    projectConfig: {
+        databaseUrl: process.env.DATABASE_URL,
+        http: {
+            storeCors: "*",
+            adminCors: "*",
+            authCors: "*",
+            jwtSecret: "supersecret",
+            cookieSecret: "supersecret",
+        },
+    },
+    plugins: [
+        { resolve: pluginRoot, options: {} },
+    ],
+    modules: [
+        {
+            resolve: "@medusajs/medusa/payment",
+            dependencies: ["payu"],
+            options: {
+                // Process webhooks immediately instead of after the default 5s delay
+                webhook_delay: 0,
+                providers: [
+                    {
+                        resolve: path.join(pluginRoot, ".medusa/server/src/providers/payu"),
+                        id: "payu",
+                        options: {
+                            merchantKey: process.env.PAYU_MERCHANT_KEY,
+                            merchantSalt: process.env.PAYU_MERCHANT_SALT,
+                            merchantSaltV2: process.env.PAYU_MERCHANT_SALT_V2,
+                            saltVersion: process.env.PAYU_SALT_VERSION === "2" ? 2 : 1,
+                            environment: "test",
+                            baseUrl: process.env.PAYU_BASE_URL,
+                            allowedRedirectOrigins: ["https://shop-b.example.com"],
+                            paymentMethodRules: [
+                                { id: "upi_only", regionIds: ["reg_payu_upi_only"], maxAmount: 500, enforcePaymethods: ["upi"] },
+                            ],
+                        },
+                    },
+                ],
+            },
+        },
+    ],
+})
@@ -0,0 +1,110 @@
+/**
+ * PayU Disputes admin page
+ * Lists open disputes/chargebacks with amount, reason and evidence deadline
+ */
+
+import { defineRouteConfig } from "@medusajs/admin-sdk"
+import { ExclamationCircle } from "@medusajs/icons"
+import { Badge, Container, Heading, Table, Text } from "@medusajs/ui"
+import { useEffect, useState } from "react"
+
+type PayuDisputeRow = {
+    id: string
+    payment_id: string | null
+    txnid: string
+    mihpayid: string | null
+    type: "dispute" | "chargeback"
+    status: "open" | "won" | "lost" | "closed"
+    amount: number
+    currency_code: string
+    reason: string | null
+    deadline: string | null
+    created_at: string
+}
+
+const formatAmount = (amount: number, currencyCode: string) =>
+    new Intl.NumberFormat("en-IN", { style: "currency", currency: currencyCode.toUpperCase() }).format(amount)
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : "-")
+
+const isOverdue = (deadline: string | null) => !!deadline && new Date(deadline).getTime() < Date.now()
+
+const PayuDisputesPage = () => {
+    const [disputes, setDisputes] = useState<PayuDisputeRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        fetch("/admin/payu/disputes?status=open", { credentials: "include" })
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load disputes (${res.status})`)
+                }
+                const body = await res.json()
+                setDisputes(body.disputes)
+            })
+            .catch((err: Error) => setError(err.message))
+            .finally(() => setLoading(false))
+    }, [])
+
+    return (
+        <Container className="divide-y p-0">
+            <div className="flex items-center justify-between px-6 py-4">
+                <Heading level="h2">PayU Disputes</Heading>
+                <Text size="small" className="text-ui-fg-subtle">
+                    {disputes.length} open
+                </Text>
+            </div>
+            {error && (
+                <Text className="px-6 py-4 text-ui-fg-error">{error}</Text>
+            )}
+            {!error && !loading && disputes.length === 0 && (
+                <Text className="px-6 py-4 text-ui-fg-subtle">No open disputes</Text>
+            )}
+            {disputes.length > 0 && (
+                <Table>
+                    <Table.Header>
+                        <Table.Row>
+                            <Table.HeaderCell>Transaction</Table.HeaderCell>
+                            <Table.HeaderCell>Type</Table.HeaderCell>
+                            <Table.HeaderCell>Amount</Table.HeaderCell>
+                            <Table.HeaderCell>Reason</Table.HeaderCell>
+                            <Table.HeaderCell>Deadline</Table.HeaderCell>
+                            <Table.HeaderCell>Received</Table.HeaderCell>
+                        </Table.Row>
+                    </Table.Header>
+                    <Table.Body>
+                        {disputes.map((dispute) => (
+                            <Table.Row key={dispute.id}>
+                                <Table.Cell>
+                                    <div className="flex flex-col">
+                                        <span>{dispute.txnid}</span>
+                                        <span className="text-ui-fg-subtle">{dispute.mihpayid || "-"}</span>
+                                    </div>
+                                </Table.Cell>
+                                <Table.Cell>
+                                    <Badge color={dispute.type === "chargeback" ? "red" : "orange"} size="2xsmall">
+                                        {dispute.type}
+                                    </Badge>
+                                </Table.Cell>
+                                <Table.Cell>{formatAmount(dispute.amount, dispute.currency_code)}</Table.Cell>
+                                <Table.Cell>{dispute.reason || "-"}</Table.Cell>
+                                <Table.Cell className={isOverdue(dispute.deadline) ? "text-ui-fg-error" : undefined}>
+                                    {formatDate(dispute.deadline)}
+                                </Table.Cell>
+                                <Table.Cell>{formatDate(dispute.created_at)}</Table.Cell>
+                            </Table.Row>
+                        ))}
+                    </Table.Body>
+                </Table>
+            )}
+        </Container>
+    )
+}
+
+export const config = defineRouteConfig({
+    label: "PayU Disputes",
+    icon: ExclamationCircle,
+})
+
+export default PayuDisputesPage
@@ -0,0 +1,161 @@
+/**
+ * PayU Payment Links admin page
+ * Lists draft orders with the status of their PayU payment link, and sends new links
+ */
+
+import { defineRouteConfig } from "@medusajs/admin-sdk"
+import { Link } from "@medusajs/icons"
+import { Badge, Button, Container, Heading, Table, Text, toast } from "@medusajs/ui"
+import { useCallback, useEffect, useState } from "react"
+
+type PayuPaymentLink = {
+    payment_session_id: string
+    txnid: string
+    url: string
+    status: "active" | "paid" | "expired"
+    created_at: string
+    expires_at: string
+    emailed_to: string | null
+    sms_to: string | null
+}
+
+type PayuDraftOrderRow = {
+    id: string
+    display_id: number | null
+    email: string | null
+    currency_code: string
+    total: number | null
+    created_at: string
+    payment_link: PayuPaymentLink | null
+}
+
+const formatAmount = (amount: number | null, currencyCode: string) =>
+    amount === null
+        ? "-"
+        : new Intl.NumberFormat("en-IN", { style: "currency", currency: currencyCode.toUpperCase() }).format(amount)
+
+const linkColor = (status: PayuPaymentLink["status"]) =>
+    status === "paid" ? "green" : status === "expired" ? "grey" : "blue"
+
+const PayuPaymentLinksPage = () => {
+    const [orders, setOrders] = useState<PayuDraftOrderRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [sending, setSending] = useState<string | null>(null)
+
+    const load = useCallback(() => {
+        fetch("/admin/payu/draft-orders", { credentials: "include" })
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load draft orders (${res.status})`)
+                }
+                const body = await res.json()
+                setOrders(body.draft_orders)
+            })
+            .catch((err: Error) => setError(err.message))
+            .finally(() => setLoading(false))
+    }, [])
+
+    useEffect(() => {
+        load()
+    }, [load])
+
+    const sendLink = async (order: PayuDraftOrderRow) => {
+        setSending(order.id)
+        try {
+            const res = await fetch(`/admin/payu/orders/${order.id}/payment-link`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({}),
+            })
+            const body = await res.json()
+            if (!res.ok) {
+                throw new Error(body.message || `Sending the payment link failed (${res.status})`)
+            }
+            toast.success(`Payment link emailed to ${body.payment_link.emailed_to}`)
+            load()
+        } catch (err) {
+            toast.error((err as Error).message)
+        } finally {
+            setSending(null)
+        }
+    }
+
+    return (
+        <Container className="divide-y p-0">
+            <div className="flex items-center justify-between px-6 py-4">
+                <Heading level="h2">PayU Payment Links</Heading>
+                <Button size="small" variant="secondary" onClick={load}>Refresh</Button>
+            </div>
+            {error && (
+                <Text className="px-6 py-4 text-ui-fg-error">{error}</Text>
+            )}
+            {!error && !loading && orders.length === 0 && (
+                <Text className="px-6 py-4 text-ui-fg-subtle">No draft orders</Text>
+            )}
+            {orders.length > 0 && (
+                <Table>
+                    <Table.Header>
+                        <Table.Row>
+                            <Table.HeaderCell>Draft Order</Table.HeaderCell>
+                            <Table.HeaderCell>Customer</Table.HeaderCell>
+                            <Table.HeaderCell>Total</Table.HeaderCell>
+                            <Table.HeaderCell>Payment Link</Table.HeaderCell>
+                            <Table.HeaderCell>Expires</Table.HeaderCell>
+                            <Table.HeaderCell />
+                        </Table.Row>
+                    </Table.Header>
+                    <Table.Body>
+                        {orders.map((order) => {
+                            const link = order.payment_link
+                            return (
+                                <Table.Row key={order.id}>
+                                    <Table.Cell>
+                                        <div className="flex flex-col">
+                                            <span>#{order.display_id ?? order.id}</span>
+                                            <span className="text-ui-fg-subtle">{new Date(order.created_at).toLocaleDateString()}</span>
+                                        </div>
+                                    </Table.Cell>
+                                    <Table.Cell>{order.email || "-"}</Table.Cell>
+                                    <Table.Cell>{formatAmount(order.total, order.currency_code)}</Table.Cell>
+                                    <Table.Cell>
+                                        {link ? (
+                                            <div className="flex items-center gap-x-2">
+                                                <Badge color={linkColor(link.status)} size="2xsmall">{link.status}</Badge>
+                                                <a href={link.url} target="_blank" rel="noreferrer" className="text-ui-fg-interactive">
+                                                    {link.txnid}
+                                                </a>
+                                            </div>
+                                        ) : (
+                                            <Text size="small" className="text-ui-fg-subtle">Not sent</Text>
+                                        )}
+                                    </Table.Cell>
+                                    <Table.Cell>{link ? new Date(link.expires_at).toLocaleString() : "-"}</Table.Cell>
+                                    <Table.Cell>
+                                        <Button
+                                            size="small"
+                                            variant="secondary"
+                                            isLoading={sending === order.id}
+                                            disabled={link?.status === "active" || link?.status === "paid"}
+                                            onClick={() => sendLink(order)}
+                                        >
+                                            {link ? "Resend link" : "Send link"}
+                                        </Button>
+                                    </Table.Cell>
+                                </Table.Row>
+                            )
+                        })}
+                    </Table.Body>
+                </Table>
+            )}
+        </Container>
+    )
+}
+
+export const config = defineRouteConfig({
+    label: "PayU Payment Links",
+    icon: Link,
+})
+
+export default PayuPaymentLinksPage
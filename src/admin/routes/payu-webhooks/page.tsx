@@ -0,0 +1,148 @@
+/**
+ * PayU Webhooks admin page
+ * Inspects recent webhook deliveries and replays them through webhook processing
+ */
+
+import { defineRouteConfig } from "@medusajs/admin-sdk"
+import { BoltSolid } from "@medusajs/icons"
+import { Badge, Button, Container, Heading, Table, Text, toast } from "@medusajs/ui"
+import { useCallback, useEffect, useState } from "react"
+
+type PayuWebhookEventRow = {
+    id: string
+    txnid: string | null
+    mihpayid: string | null
+    status: string | null
+    payload: Record<string, unknown>
+    hash_verified: boolean
+    matched_salt: string | null
+    action: string
+    error: string | null
+    duplicate: boolean
+    replay_of: string | null
+    processed_at: string
+}
+
+const actionColor = (action: string) =>
+    action === "authorized" || action === "captured" ? "green" : action === "failed" ? "red" : "grey"
+
+const PayuWebhooksPage = () => {
+    const [events, setEvents] = useState<PayuWebhookEventRow[]>([])
+    const [error, setError] = useState<string | null>(null)
+    const [replaying, setReplaying] = useState<string | null>(null)
+
+    const load = useCallback(() => {
+        fetch("/admin/payu/webhook-events", { credentials: "include" })
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load webhook events (${res.status})`)
+                }
+                const body = await res.json()
+                setEvents(body.webhook_events)
+            })
+            .catch((err: Error) => setError(err.message))
+    }, [])
+
+    useEffect(() => {
+        load()
+    }, [load])
+
+    const replay = async (event: PayuWebhookEventRow) => {
+        setReplaying(event.id)
+        try {
+            const res = await fetch(`/admin/payu/webhook-events/${event.id}/replay`, {
+                method: "POST",
+                credentials: "include",
+            })
+            const body = await res.json()
+            if (!res.ok) {
+                throw new Error(body.message || `Replay failed (${res.status})`)
+            }
+            toast.success(`Replayed ${event.txnid}: ${body.action}${body.processed ? " (processed)" : ""}`)
+            load()
+        } catch (err) {
+            toast.error((err as Error).message)
+        } finally {
+            setReplaying(null)
+        }
+    }
+
+    return (
+        <Container className="divide-y p-0">
+            <div className="flex items-center justify-between px-6 py-4">
+                <Heading level="h2">PayU Webhooks</Heading>
+                <Button size="small" variant="secondary" onClick={load}>Refresh</Button>
+            </div>
+            {error && (
+                <Text className="px-6 py-4 text-ui-fg-error">{error}</Text>
+            )}
+            <Table>
+                <Table.Header>
+                    <Table.Row>
+                        <Table.HeaderCell>Received</Table.HeaderCell>
+                        <Table.HeaderCell>Transaction</Table.HeaderCell>
+                        <Table.HeaderCell>Status</Table.HeaderCell>
+                        <Table.HeaderCell>Amount</Table.HeaderCell>
+                        <Table.HeaderCell>Hash</Table.HeaderCell>
+                        <Table.HeaderCell>Action</Table.HeaderCell>
+                        <Table.HeaderCell>Error</Table.HeaderCell>
+                        <Table.HeaderCell />
+                    </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                    {events.map((event) => (
+                        <Table.Row key={event.id}>
+                            <Table.Cell>{new Date(event.processed_at).toLocaleString()}</Table.Cell>
+                            <Table.Cell>
+                                <div className="flex flex-col">
+                                    <span>{event.txnid || "-"}</span>
+                                    <span className="text-ui-fg-subtle">{event.mihpayid || ""}</span>
+                                </div>
+                            </Table.Cell>
+                            <Table.Cell>{event.status || "-"}</Table.Cell>
+                            <Table.Cell>{(event.payload?.amount as string) || "-"}</Table.Cell>
+                            <Table.Cell>
+                                <div className="flex items-center gap-x-1">
+                                    <Badge color={event.hash_verified ? "green" : "red"} size="2xsmall">
+                                        {event.hash_verified ? "verified" : "failed"}
+                                    </Badge>
+                                    {event.matched_salt && !event.matched_salt.startsWith("primary") && (
+                                        <Badge color="orange" size="2xsmall">{event.matched_salt}</Badge>
+                                    )}
+                                </div>
+                            </Table.Cell>
+                            <Table.Cell>
+                                <div className="flex items-center gap-x-1">
+                                    <Badge color={actionColor(event.action)} size="2xsmall">{event.action}</Badge>
+                                    {event.duplicate && <Badge size="2xsmall">duplicate</Badge>}
+                                    {event.replay_of && <Badge color="blue" size="2xsmall">replay</Badge>}
+                                </div>
+                            </Table.Cell>
+                            <Table.Cell className="max-w-[240px] truncate" title={event.error || undefined}>
+                                {event.error || "-"}
+                            </Table.Cell>
+                            <Table.Cell>
+                                <Button
+                                    size="small"
+                                    variant="transparent"
+                                    disabled={!event.txnid}
+                                    isLoading={replaying === event.id}
+                                    onClick={() => replay(event)}
+                                >
+                                    Replay
+                                </Button>
+                            </Table.Cell>
+                        </Table.Row>
+                    ))}
+                </Table.Body>
+            </Table>
+        </Container>
+    )
+}
+
+export const config = defineRouteConfig({
+    label: "PayU Webhooks",
+    icon: BoltSolid,
+})
+
+export default PayuWebhooksPage
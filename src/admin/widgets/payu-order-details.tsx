@@ -0,0 +1,193 @@
+/**
+ * PayU order details widget
+ * Shows PayU transaction details and refund history, with a live verify action,
+ * and the payment links sent while the order was a draft
+ * Links are sent from the PayU Payment Links page
+ */
+
+import { defineWidgetConfig } from "@medusajs/admin-sdk"
+import type { AdminOrder, DetailWidgetProps } from "@medusajs/framework/types"
+import { Badge, Button, Container, Heading, Text, toast } from "@medusajs/ui"
+import { useEffect, useState } from "react"
+
+type PayuRefund = {
+    tokenId: string
+    amount: string
+    request_id?: string
+    status: "pending" | "success" | "failure"
+    createdAt?: string
+    settledAt?: string
+}
+
+type PayuOrderPayment = {
+    id: string
+    currency_code: string
+    status: string
+    txnid: string
+    mihpayid: string | null
+    mode: string | null
+    bank_ref_num: string | null
+    payu_status: string | null
+    refunds: PayuRefund[]
+}
+
+type PayuPaymentLink = {
+    payment_session_id: string
+    txnid: string
+    url: string
+    status: "active" | "paid" | "expired"
+    created_at: string
+    expires_at: string
+    emailed_to: string | null
+    sms_to: string | null
+}
+
+type PayuVerification = {
+    success: boolean
+    status: string
+    error?: string
+}
+
+const formatAmount = (amount: string, currencyCode: string) =>
+    new Intl.NumberFormat("en-IN", { style: "currency", currency: currencyCode.toUpperCase() }).format(Number(amount))
+
+const refundColor = (status: PayuRefund["status"]) =>
+    status === "success" ? "green" : status === "failure" ? "red" : "orange"
+
+const linkColor = (status: PayuPaymentLink["status"]) =>
+    status === "paid" ? "green" : status === "expired" ? "grey" : "blue"
+
+const DetailRow = ({ label, value }: { label: string; value: string | null }) => (
+    <div className="grid grid-cols-2 items-center px-6 py-2">
+        <Text size="small" weight="plus" leading="compact">{label}</Text>
+        <Text size="small" leading="compact" className="break-all">{value || "-"}</Text>
+    </div>
+)
+
+const PayuPaymentDetails = ({ payment }: { payment: PayuOrderPayment }) => {
+    const [verifying, setVerifying] = useState(false)
+    const [verification, setVerification] = useState<PayuVerification | null>(null)
+
+    const verify = async () => {
+        setVerifying(true)
+        try {
+            const res = await fetch(`/admin/payu/payments/${payment.id}/verify`, {
+                method: "POST",
+                credentials: "include",
+            })
+            const body = await res.json()
+            if (!res.ok) {
+                throw new Error(body.message || `Verification failed (${res.status})`)
+            }
+            setVerification(body.verification)
+        } catch (err) {
+            toast.error((err as Error).message)
+        } finally {
+            setVerifying(false)
+        }
+    }
+
+    return (
+        <div className="divide-y">
+            <DetailRow label="Txn ID" value={payment.txnid} />
+            <DetailRow label="PayU ID (mihpayid)" value={payment.mihpayid} />
+            <DetailRow label="Mode" value={payment.mode} />
+            <DetailRow label="Bank Ref No." value={payment.bank_ref_num} />
+            <DetailRow label="PayU Status" value={payment.payu_status} />
+            <DetailRow label="Payment Status" value={payment.status} />
+            {payment.refunds.length > 0 && (
+                <div className="flex flex-col gap-y-2 px-6 py-4">
+                    <Text size="small" weight="plus">Refunds</Text>
+                    {payment.refunds.map((refund) => (
+                        <div key={refund.tokenId} className="flex items-center justify-between">
+                            <div className="flex flex-col">
+                                <Text size="small">{formatAmount(refund.amount, payment.currency_code)}</Text>
+                                <Text size="xsmall" className="text-ui-fg-subtle">
+                                    {refund.request_id || refund.tokenId}
+                                    {refund.createdAt ? ` · ${new Date(refund.createdAt).toLocaleString()}` : ""}
+                                </Text>
+                            </div>
+                            <Badge color={refundColor(refund.status)} size="2xsmall">{refund.status}</Badge>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center justify-between gap-x-2 px-6 py-4">
+                {verification ? (
+                    <Text size="small" className={verification.success ? "text-ui-fg-base" : "text-ui-fg-error"}>
+                        PayU reports: {verification.status}
+                        {verification.error ? ` (${verification.error})` : ""}
+                    </Text>
+                ) : (
+                    <span />
+                )}
+                <Button size="small" variant="secondary" isLoading={verifying} onClick={verify}>
+                    Verify with PayU
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+const PayuPaymentLinks = ({ links }: { links: PayuPaymentLink[] }) => (
+    <div className="flex flex-col gap-y-2 px-6 py-4">
+        <Text size="small" weight="plus">Payment Links</Text>
+        {links.map((link) => (
+            <div key={link.payment_session_id} className="flex items-center justify-between gap-x-2">
+                <div className="flex flex-col">
+                    <a href={link.url} target="_blank" rel="noreferrer" className="break-all">
+                        <Text size="small" className="text-ui-fg-interactive">{link.txnid}</Text>
+                    </a>
+                    <Text size="xsmall" className="text-ui-fg-subtle">
+                        {link.emailed_to || "-"}
+                        {` · expires ${new Date(link.expires_at).toLocaleString()}`}
+                    </Text>
+                </div>
+                <Badge color={linkColor(link.status)} size="2xsmall">{link.status}</Badge>
+            </div>
+        ))}
+    </div>
+)
+
+const PayuOrderDetailsWidget = ({ data: order }: DetailWidgetProps<AdminOrder>) => {
+    const [payments, setPayments] = useState<PayuOrderPayment[]>([])
+    const [links, setLinks] = useState<PayuPaymentLink[]>([])
+
+    const load = () =>
+        fetch(`/admin/payu/orders/${order.id}/payments`, { credentials: "include" })
+            .then((res) => (res.ok ? res.json() : { payments: [], payment_links: [] }))
+            .then((body) => {
+                setPayments(body.payments)
+                setLinks(body.payment_links || [])
+            })
+            .catch(() => {
+                setPayments([])
+                setLinks([])
+            })
+
+    useEffect(() => {
+        load()
+    }, [order.id])
+
+    if (!payments.length && !links.length) {
+        return null
+    }
+
+    return (
+        <Container className="divide-y p-0">
+            <div className="px-6 py-4">
+                <Heading level="h2">PayU</Heading>
+            </div>
+            {payments.map((payment) => (
+                <PayuPaymentDetails key={payment.id} payment={payment} />
+            ))}
+            {links.length > 0 && <PayuPaymentLinks links={links} />}
+        </Container>
+    )
+}
+
+export const config = defineWidgetConfig({
+    zone: "order.details.side.after",
+})
+
+export default PayuOrderDetailsWidget
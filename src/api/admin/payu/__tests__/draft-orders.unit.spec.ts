@@ -0,0 +1,111 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { GET as listDraftOrders } from "../draft-orders/route"
+
+/**
+ * Request listing draft orders, with query returning `orders`
+ */
+function request(orders: unknown[], query: Record<string, string> = {}) {
+    const graph = jest.fn().mockResolvedValue({ data: orders, metadata: { count: orders.length } })
+    const req = {
+        query,
+        scope: { resolve: (key: string) => (key === ContainerRegistrationKeys.QUERY ? { graph } : undefined) },
+    } as unknown as MedusaRequest
+    return { req, graph }
+}
+
+/**
+ * Response recording the JSON body
+ */
+function response() {
+    return { json: jest.fn() } as unknown as MedusaResponse & { json: jest.Mock }
+}
+
+/**
+ * PayU payment link session created at `createdAt`
+ */
+function linkSession(id: string, createdAt: string, overrides: Record<string, unknown> = {}) {
+    return {
+        id,
+        provider_id: "pp_payu_payu",
+        amount: 1499,
+        data: {
+            txnid: `txn_${id}`,
+            status: "pending",
+            paymentLink: { url: `https://payu.example/${id}`, status: "active", createdAt, expiresAt: "2999-01-01T00:00:00.000Z", emailedTo: "asha@example.com" },
+            ...overrides,
+        },
+    }
+}
+
+const draftOrder = {
+    id: "order_1",
+    display_id: 7,
+    email: "asha@example.com",
+    currency_code: "inr",
+    total: 1499,
+    created_at: "2026-10-19T08:00:00.000Z",
+}
+
+describe("GET /admin/payu/draft-orders", () => {
+    it("lists draft orders newest first", async () => {
+        const { req, graph } = request([], { limit: "500", offset: "20" })
+        const res = response()
+
+        await listDraftOrders(req, res)
+
+        expect(graph).toHaveBeenCalledWith(expect.objectContaining({
+            entity: "order",
+            filters: { status: "draft" },
+            pagination: { skip: 20, take: 100, order: { created_at: "DESC" } },
+        }))
+        expect(res.json).toHaveBeenCalledWith({ draft_orders: [], count: 0, limit: 100, offset: 20 })
+    })
+
+    it("reports the latest PayU payment link of each draft order", async () => {
+        const { req } = request([
+            {
+                ...draftOrder,
+                payment_collections: [{
+                    payment_sessions: [
+                        linkSession("payses_1", "2026-10-19T09:00:00.000Z", { status: "canceled", paymentLink: { url: "https://payu.example/payses_1", status: "expired", createdAt: "2026-10-19T09:00:00.000Z", expiresAt: "2026-10-20T09:00:00.000Z" } }),
+                        linkSession("payses_2", "2026-10-19T10:00:00.000Z"),
+                        { id: "payses_stripe", provider_id: "pp_stripe_stripe", amount: 1499, data: {} },
+                    ],
+                }],
+            },
+            { ...draftOrder, id: "order_2", display_id: 8, payment_collections: [] },
+        ])
+        const res = response()
+
+        await listDraftOrders(req, res)
+
+        const { draft_orders: draftOrders } = res.json.mock.calls[0][0]
+        expect(draftOrders).toEqual([
+            {
+                id: "order_1",
+                display_id: 7,
+                email: "asha@example.com",
+                currency_code: "inr",
+                total: 1499,
+                created_at: "2026-10-19T08:00:00.000Z",
+                payment_link: expect.objectContaining({ payment_session_id: "payses_2", txnid: "txn_payses_2", status: "active" }),
+            },
+            expect.objectContaining({ id: "order_2", payment_link: null }),
+        ])
+    })
+
+    it.each([
+        ["paid", { status: "authorized" }],
+        ["expired", { paymentLink: { url: "https://payu.example/payses_1", status: "active", createdAt: "2026-10-01T09:00:00.000Z", expiresAt: "2026-10-02T09:00:00.000Z" } }],
+    ])("reports a %s link", async (status, overrides) => {
+        const { req } = request([
+            { ...draftOrder, payment_collections: [{ payment_sessions: [linkSession("payses_1", "2026-10-01T09:00:00.000Z", overrides)] }] },
+        ])
+        const res = response()
+
+        await listDraftOrders(req, res)
+
+        expect(res.json.mock.calls[0][0].draft_orders[0].payment_link).toMatchObject({ status })
+    })
+})
@@ -0,0 +1,139 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { verifyPayuPaymentWorkflow } from "../../../../workflows/verify-payu-payment"
+import { GET as getOrderPayments } from "../orders/[id]/payments/route"
+import { POST as verifyPayment } from "../payments/[id]/verify/route"
+
+jest.mock("../../../../workflows/verify-payu-payment", () => ({
+    verifyPayuPaymentWorkflow: jest.fn(),
+}))
+
+/**
+ * Request with the given services in its scope
+ */
+function requestWith(id: string, services: Record<string, unknown>): MedusaRequest {
+    return {
+        params: { id },
+        scope: { resolve: (key: string) => services[key] },
+    } as unknown as MedusaRequest
+}
+
+/**
+ * Response recording the JSON body
+ */
+function response() {
+    return { json: jest.fn() } as unknown as MedusaResponse & { json: jest.Mock }
+}
+
+describe("GET /admin/payu/orders/:id/payments", () => {
+    const order = {
+        id: "order_1",
+        payment_collections: [{
+            payments: [
+                { id: "pay_stripe", provider_id: "pp_stripe_stripe", amount: 100, currency_code: "inr", data: {} },
+                {
+                    id: "pay_1",
+                    provider_id: "pp_payu_payu",
+                    amount: 1499,
+                    currency_code: "inr",
+                    captured_at: "2026-10-19T10:00:00.000Z",
+                    canceled_at: null,
+                    data: {
+                        txnid: "txn_1",
+                        status: "partially_refunded",
+                        payuResponse: { mihpayid: "403993715500000001", mode: "UPI", bank_ref_num: "ref_1", status: "success" },
+                        refunds: [{ tokenId: "REF_1", amount: "500.00", request_id: "1", status: "success", createdAt: "2026-10-19T11:00:00.000Z" }],
+                    },
+                },
+            ],
+            payment_sessions: [
+                { id: "payses_1", provider_id: "pp_payu_payu", amount: 1499, data: { txnid: "txn_1" } },
+                {
+                    id: "payses_2",
+                    provider_id: "pp_payu_payu",
+                    amount: 1499,
+                    data: {
+                        txnid: "txn_2",
+                        paymentLink: { url: "https://payu.example/link", status: "active", createdAt: "2026-10-19T09:00:00.000Z", expiresAt: "2999-01-01T00:00:00.000Z", emailedTo: "asha@example.com" },
+                    },
+                },
+            ],
+        }],
+    }
+
+    it("maps the order's PayU payments and payment links", async () => {
+        const query = { graph: jest.fn().mockResolvedValue({ data: [order] }) }
+        const res = response()
+
+        await getOrderPayments(requestWith("order_1", { [ContainerRegistrationKeys.QUERY]: query }), res)
+
+        expect(query.graph).toHaveBeenCalledWith(expect.objectContaining({ entity: "order", filters: { id: "order_1" } }))
+        expect(res.json).toHaveBeenCalledWith({
+            payments: [{
+                id: "pay_1",
+                amount: 1499,
+                currency_code: "inr",
+                captured_at: "2026-10-19T10:00:00.000Z",
+                canceled_at: null,
+                status: "partially_refunded",
+                txnid: "txn_1",
+                mihpayid: "403993715500000001",
+                mode: "UPI",
+                bank_ref_num: "ref_1",
+                payu_status: "success",
+                refunds: [expect.objectContaining({ tokenId: "REF_1", amount: "500.00", status: "success" })],
+            }],
+            payment_links: [{
+                payment_session_id: "payses_2",
+                txnid: "txn_2",
+                amount: 1499,
+                url: "https://payu.example/link",
+                status: "active",
+                created_at: "2026-10-19T09:00:00.000Z",
+                expires_at: "2999-01-01T00:00:00.000Z",
+                ended_at: null,
+                emailed_to: "asha@example.com",
+                sms_to: null,
+            }],
+        })
+    })
+
+    it("rejects an unknown order", async () => {
+        const query = { graph: jest.fn().mockResolvedValue({ data: [] }) }
+
+        await expect(getOrderPayments(requestWith("order_x", { [ContainerRegistrationKeys.QUERY]: query }), response()))
+            .rejects.toThrow("Order with id: order_x was not found")
+    })
+})
+
+describe("POST /admin/payu/payments/:id/verify", () => {
+    const run = jest.fn()
+
+    beforeEach(() => {
+        run.mockReset().mockResolvedValue({ result: { status: "success", updated: true } })
+        jest.mocked(verifyPayuPaymentWorkflow).mockReturnValue({ run } as unknown as ReturnType<typeof verifyPayuPaymentWorkflow>)
+    })
+
+    function paymentModuleWith(payment: Record<string, unknown>) {
+        return { retrievePayment: jest.fn().mockResolvedValue(payment) }
+    }
+
+    it("verifies the payment's txnid with its merchant profile and provider", async () => {
+        const paymentModule = paymentModuleWith({ id: "pay_1", provider_id: "pp_payu_brands", data: { txnid: "txn_1", merchantProfile: "brand_c" } })
+        const res = response()
+
+        await verifyPayment(requestWith("pay_1", { [Modules.PAYMENT]: paymentModule }), res)
+
+        expect(run).toHaveBeenCalledWith({ input: { txnid: "txn_1", merchantProfile: "brand_c", providerId: "pp_payu_brands" } })
+        expect(res.json).toHaveBeenCalledWith({ payment_id: "pay_1", txnid: "txn_1", verification: { status: "success", updated: true } })
+    })
+
+    it.each([
+        ["another provider", { id: "pay_1", provider_id: "pp_stripe_stripe", data: { txnid: "txn_1" } }],
+        ["a PayU payment without txnid", { id: "pay_1", provider_id: "pp_payu_payu", data: {} }],
+    ])("rejects a payment of %s", async (_, payment) => {
+        await expect(verifyPayment(requestWith("pay_1", { [Modules.PAYMENT]: paymentModuleWith(payment) }), response()))
+            .rejects.toThrow("Payment pay_1 is not a PayU payment")
+        expect(run).not.toHaveBeenCalled()
+    })
+})
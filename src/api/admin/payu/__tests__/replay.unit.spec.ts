@@ -0,0 +1,85 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { processPaymentWorkflow } from "@medusajs/medusa/core-flows"
+import { PAYU_MODULE } from "../../../../modules/payu"
+import { createPayuProvider } from "../../../../workflows/utils"
+import { POST as replayWebhookEvent } from "../webhook-events/[id]/replay/route"
+
+jest.mock("@medusajs/medusa/core-flows", () => ({
+    processPaymentWorkflow: jest.fn(),
+}))
+
+jest.mock("../../../../workflows/utils", () => ({
+    createPayuProvider: jest.fn(),
+}))
+
+const event = { id: "payuwh_1", txnid: "txn_1", payload: { txnid: "txn_1", status: "success" } }
+
+/**
+ * Replay request for the given webhook event id, with the webhook log holding `event`
+ */
+function request(id: string, body: Record<string, string> = {}): MedusaRequest<{ provider?: string }> {
+    const payuModule = {
+        listPayuWebhookEvents: jest.fn(async (filters: { id: string }) => (filters.id === event.id ? [event] : [])),
+    }
+    return {
+        params: { id },
+        body,
+        scope: { resolve: (key: string) => (key === PAYU_MODULE ? payuModule : undefined) },
+    } as unknown as MedusaRequest<{ provider?: string }>
+}
+
+/**
+ * Response recording the JSON body
+ */
+function response() {
+    return { json: jest.fn() } as unknown as MedusaResponse & { json: jest.Mock }
+}
+
+describe("POST /admin/payu/webhook-events/:id/replay", () => {
+    const run = jest.fn()
+    const provider = { replayWebhookEvent: jest.fn() }
+
+    beforeEach(() => {
+        run.mockReset().mockResolvedValue({})
+        provider.replayWebhookEvent.mockReset()
+        jest.mocked(processPaymentWorkflow).mockReturnValue({ run } as unknown as ReturnType<typeof processPaymentWorkflow>)
+        jest.mocked(createPayuProvider).mockReturnValue(provider as unknown as ReturnType<typeof createPayuProvider>)
+    })
+
+    it("processes the replayed authorization like a webhook delivery", async () => {
+        const result = { action: "authorized", data: { session_id: "payses_1", amount: 1499 } }
+        provider.replayWebhookEvent.mockResolvedValue(result)
+        const res = response()
+
+        await replayWebhookEvent(request("payuwh_1", { provider: "payu_brands" }), res)
+
+        expect(createPayuProvider).toHaveBeenCalledWith(expect.anything(), "pp_payu_brands")
+        expect(provider.replayWebhookEvent).toHaveBeenCalledWith({ id: "payuwh_1", payload: event.payload })
+        expect(run).toHaveBeenCalledWith({ input: result })
+        expect(res.json).toHaveBeenCalledWith({ webhook_event_id: "payuwh_1", action: "authorized", processed: true })
+    })
+
+    it("does not process an action Medusa's webhook processing ignores", async () => {
+        provider.replayWebhookEvent.mockResolvedValue({ action: "not_supported" })
+        const res = response()
+
+        await replayWebhookEvent(request("payuwh_1"), res)
+
+        expect(createPayuProvider).toHaveBeenCalledWith(expect.anything(), "pp_payu_payu")
+        expect(run).not.toHaveBeenCalled()
+        expect(res.json).toHaveBeenCalledWith({ webhook_event_id: "payuwh_1", action: "not_supported", processed: false })
+    })
+
+    it("rejects an unknown event", async () => {
+        await expect(replayWebhookEvent(request("payuwh_x"), response()))
+            .rejects.toThrow("PayU webhook event with id: payuwh_x was not found")
+    })
+
+    it("rejects a provider that is not registered", async () => {
+        jest.mocked(createPayuProvider).mockReturnValue(null)
+
+        await expect(replayWebhookEvent(request("payuwh_1", { provider: "payu_other" }), response()))
+            .rejects.toThrow("pp_payu_other is not a registered PayU payment provider")
+        expect(provider.replayWebhookEvent).not.toHaveBeenCalled()
+    })
+})
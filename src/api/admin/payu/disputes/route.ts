@@ -0,0 +1,48 @@
+/**
+ * Admin API: PayU Disputes
+ *
+ * GET /admin/payu/disputes?status=open&limit=50&offset=0
+ * Lists disputes/chargebacks, nearest deadline first. status=all lists every dispute.
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+
+    const status = (req.query.status as string) || "open"
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+    const offset = parseInt(req.query.offset as string) || 0
+
+    const { data: disputes, metadata } = await query.graph({
+        entity: "payu_dispute",
+        fields: [
+            "id",
+            "payment_id",
+            "txnid",
+            "mihpayid",
+            "dispute_id",
+            "type",
+            "status",
+            "amount",
+            "currency_code",
+            "reason",
+            "deadline",
+            "created_at",
+        ],
+        filters: status === "all" ? {} : { status },
+        pagination: {
+            skip: offset,
+            take: limit,
+            order: { deadline: "ASC" },
+        },
+    })
+
+    res.json({
+        disputes,
+        count: metadata?.count ?? disputes.length,
+        limit,
+        offset,
+    })
+}
@@ -0,0 +1,77 @@
+/**
+ * Admin API: Draft orders payable with PayU payment links
+ *
+ * GET /admin/payu/draft-orders?limit=50&offset=0
+ * Lists draft orders, newest first, with the latest PayU payment link sent for each.
+ * Links are sent with POST /admin/payu/orders/:id/payment-link.
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { toAdminPaymentLink } from "../../../../providers/payu/payment-links"
+
+type DraftOrderRow = {
+    id: string
+    display_id?: number
+    email?: string | null
+    currency_code: string
+    total?: number
+    created_at: string
+    payment_collections?: {
+        payment_sessions?: { id: string; provider_id: string; amount: number; data: Record<string, unknown> | null }[]
+    }[]
+}
+
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+    const offset = parseInt(req.query.offset as string) || 0
+
+    const { data: orders, metadata } = await query.graph({
+        entity: "order",
+        fields: [
+            "id",
+            "display_id",
+            "email",
+            "currency_code",
+            "total",
+            "created_at",
+            "payment_collections.payment_sessions.id",
+            "payment_collections.payment_sessions.provider_id",
+            "payment_collections.payment_sessions.amount",
+            "payment_collections.payment_sessions.data",
+        ],
+        filters: { status: "draft" },
+        pagination: {
+            skip: offset,
+            take: limit,
+            order: { created_at: "DESC" },
+        },
+    })
+
+    const draftOrders = (orders as DraftOrderRow[]).map((order) => {
+        const links = (order.payment_collections || [])
+            .flatMap((collection) => collection.payment_sessions || [])
+            .filter((session) => session.provider_id.startsWith("pp_payu_"))
+            .flatMap((session) => toAdminPaymentLink(session) ?? [])
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+        return {
+            id: order.id,
+            display_id: order.display_id ?? null,
+            email: order.email ?? null,
+            currency_code: order.currency_code,
+            total: order.total ?? null,
+            created_at: order.created_at,
+            payment_link: links[0] ?? null,
+        }
+    })
+
+    res.json({
+        draft_orders: draftOrders,
+        count: metadata?.count ?? draftOrders.length,
+        limit,
+        offset,
+    })
+}
@@ -0,0 +1,192 @@
+/**
+ * Admin API: Send a PayU payment link for a draft order
+ *
+ * POST /admin/payu/orders/:id/payment-link
+ * Body: { expiry_hours?, send_sms?, provider_id? }
+ * Creates a payment link session on the order's payment collection, has PayU create
+ * the invoice and email the link to the customer. The invoice's webhook authorizes
+ * the session like any other PayU payment.
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import {
+    createOrUpdateOrderPaymentCollectionWorkflow,
+    createPaymentSessionsWorkflow,
+} from "@medusajs/medusa/core-flows"
+import { PayuClient } from "../../../../../../providers/payu/client"
+import { PayuEvents } from "../../../../../../providers/payu/events"
+import {
+    getPaymentLinkStatus,
+    isPaymentLinkActive,
+    toInvoiceRequest,
+    toPaymentLink,
+} from "../../../../../../providers/payu/payment-links"
+import type { PayuSessionData } from "../../../../../../providers/payu/types"
+import { DEFAULT_PAYU_PROVIDER_ID, resolvePayuConfig } from "../../../../../../workflows/utils"
+
+type PaymentLinkBody = {
+    expiry_hours?: number
+    send_sms?: boolean
+    provider_id?: string
+}
+
+type DraftOrderAddress = { first_name?: string | null; phone?: string | null } | null
+
+type DraftOrder = {
+    id: string
+    display_id?: number
+    status: string
+    email?: string | null
+    currency_code: string
+    customer_id?: string | null
+    customer?: { first_name?: string | null; phone?: string | null } | null
+    billing_address?: DraftOrderAddress
+    shipping_address?: DraftOrderAddress
+    payment_collections?: {
+        payment_sessions?: { id: string; provider_id: string; data: Record<string, unknown> | null }[]
+    }[]
+}
+
+/**
+ * Longest link lifetime accepted (30 days)
+ */
+const MAX_EXPIRY_HOURS = 720
+
+export const POST = async (req: MedusaRequest<PaymentLinkBody>, res: MedusaResponse) => {
+    const { expiry_hours: expiryHours, send_sms: sendSms, provider_id: providerId = DEFAULT_PAYU_PROVIDER_ID } = req.body || {}
+    if (expiryHours !== undefined && (!Number.isInteger(expiryHours) || expiryHours < 1 || expiryHours > MAX_EXPIRY_HOURS)) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `expiry_hours must be a whole number of hours between 1 and ${MAX_EXPIRY_HOURS}`
+        )
+    }
+    if (!providerId.startsWith("pp_payu_")) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `${providerId} is not a PayU payment provider`)
+    }
+
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+    const { data: orders } = await query.graph({
+        entity: "order",
+        fields: [
+            "id",
+            "display_id",
+            "status",
+            "email",
+            "currency_code",
+            "customer_id",
+            "customer.first_name",
+            "customer.phone",
+            "billing_address.first_name",
+            "billing_address.phone",
+            "shipping_address.first_name",
+            "shipping_address.phone",
+            "payment_collections.payment_sessions.id",
+            "payment_collections.payment_sessions.provider_id",
+            "payment_collections.payment_sessions.data",
+        ],
+        filters: { id: req.params.id },
+    })
+
+    const order = orders[0] as DraftOrder | undefined
+    if (!order) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Order with id: ${req.params.id} was not found`)
+    }
+    if (order.status !== "draft") {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "PayU payment links can only be sent for draft orders")
+    }
+    if (order.currency_code?.toLowerCase() !== "inr") {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "PayU payment links are only available for INR orders")
+    }
+
+    const activeLink = (order.payment_collections || [])
+        .flatMap((collection) => collection.payment_sessions || [])
+        .find((session) => session.provider_id.startsWith("pp_payu_")
+            && isPaymentLinkActive((session.data || {}) as unknown as PayuSessionData))
+    if (activeLink) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `A PayU payment link was already sent for this order and is active until ${(activeLink.data as unknown as PayuSessionData).paymentLink!.expiresAt}`
+        )
+    }
+
+    const { result: paymentCollections } = await createOrUpdateOrderPaymentCollectionWorkflow(req.scope).run({
+        input: { order_id: order.id },
+    })
+    const paymentCollection = paymentCollections?.[0]
+    if (!paymentCollection) {
+        throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "The order has nothing left to pay")
+    }
+
+    // Addresses entered by the call centre fill in what the customer account lacks
+    const { result: session } = await createPaymentSessionsWorkflow(req.scope).run({
+        input: {
+            payment_collection_id: paymentCollection.id,
+            provider_id: providerId,
+            ...(order.customer_id && { customer_id: order.customer_id }),
+            data: {
+                checkout_mode: "payment_link",
+                email: order.email,
+                firstname: order.customer?.first_name || order.billing_address?.first_name || order.shipping_address?.first_name,
+                phone: order.customer?.phone || order.billing_address?.phone || order.shipping_address?.phone,
+                productinfo: `Order #${order.display_id ?? order.id}`,
+            },
+        },
+    })
+
+    const paymentModule = req.scope.resolve(Modules.PAYMENT)
+    const sessionData = session.data as unknown as PayuSessionData
+
+    const config = resolvePayuConfig(req.scope, {}, { id: sessionData.merchantProfile, providerId })
+    if (!config) {
+        await paymentModule.deletePaymentSession(session.id)
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `PayU merchant profile ${sessionData.merchantProfile || "default"} is not configured`
+        )
+    }
+
+    const invoice = toInvoiceRequest(sessionData, { expiryHours, sendSms })
+    const response = await new PayuClient(config).createInvoice(invoice)
+    const paymentLink = toPaymentLink(response, invoice)
+    if (!paymentLink) {
+        await paymentModule.deletePaymentSession(session.id)
+        throw new MedusaError(
+            MedusaError.Types.UNEXPECTED_STATE,
+            `PayU: could not create the payment link: ${response.msg || response.Status || "no link returned"}`
+        )
+    }
+
+    const updated = await paymentModule.updatePaymentSession({
+        id: session.id,
+        amount: session.amount,
+        currency_code: session.currency_code,
+        data: { ...session.data, paymentLink },
+    })
+
+    const eventBus = req.scope.resolve(Modules.EVENT_BUS)
+    await eventBus.emit({
+        name: PayuEvents.PAYMENT_LINK_CREATED,
+        data: {
+            order_id: order.id,
+            payment_session_id: session.id,
+            txnid: sessionData.txnid,
+            url: paymentLink.url,
+            expires_at: paymentLink.expiresAt,
+        },
+    })
+
+    res.json({
+        payment_link: {
+            payment_session_id: updated.id,
+            txnid: sessionData.txnid,
+            url: paymentLink.url,
+            status: getPaymentLinkStatus(updated.data as unknown as PayuSessionData),
+            amount: sessionData.amount,
+            created_at: paymentLink.createdAt,
+            expires_at: paymentLink.expiresAt,
+            emailed_to: paymentLink.emailedTo,
+            sms_to: paymentLink.smsTo ?? null,
+        },
+    })
+}
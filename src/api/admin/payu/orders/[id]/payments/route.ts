@@ -0,0 +1,90 @@
+/**
+ * Admin API: PayU payments of an order
+ *
+ * GET /admin/payu/orders/:id/payments
+ * Returns PayU payments with their stored transaction details and refund ledger,
+ * and the PayU payment links sent for the order
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, MedusaError } from "@medusajs/framework/utils"
+import { toAdminPaymentLink } from "../../../../../../providers/payu/payment-links"
+import type { PayuSessionData } from "../../../../../../providers/payu/types"
+import { getRefundLedger } from "../../../../../../providers/payu/utils"
+
+type OrderPayment = {
+    id: string
+    provider_id: string
+    amount: number
+    currency_code: string
+    captured_at: string | null
+    canceled_at: string | null
+    data: Record<string, unknown> | null
+}
+
+type OrderPaymentSession = {
+    id: string
+    provider_id: string
+    amount: number
+    data: Record<string, unknown> | null
+}
+
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+
+    const { data: orders } = await query.graph({
+        entity: "order",
+        fields: [
+            "id",
+            "payment_collections.payments.id",
+            "payment_collections.payments.provider_id",
+            "payment_collections.payments.amount",
+            "payment_collections.payments.currency_code",
+            "payment_collections.payments.captured_at",
+            "payment_collections.payments.canceled_at",
+            "payment_collections.payments.data",
+            "payment_collections.payment_sessions.id",
+            "payment_collections.payment_sessions.provider_id",
+            "payment_collections.payment_sessions.amount",
+            "payment_collections.payment_sessions.data",
+        ],
+        filters: { id: req.params.id },
+    })
+
+    const order = orders[0] as {
+        payment_collections?: { payments?: OrderPayment[]; payment_sessions?: OrderPaymentSession[] }[]
+    } | undefined
+    if (!order) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Order with id: ${req.params.id} was not found`)
+    }
+
+    const payments = (order.payment_collections || [])
+        .flatMap((collection) => collection.payments || [])
+        .filter((payment) => payment.provider_id.startsWith("pp_payu_"))
+        .map((payment) => {
+            const data = (payment.data || {}) as unknown as PayuSessionData
+            const payuResponse = (data.payuResponse || {}) as Record<string, unknown>
+
+            return {
+                id: payment.id,
+                amount: payment.amount,
+                currency_code: payment.currency_code,
+                captured_at: payment.captured_at,
+                canceled_at: payment.canceled_at,
+                status: data.status,
+                txnid: data.txnid,
+                mihpayid: data.payuTransactionId ?? payuResponse.mihpayid ?? null,
+                mode: payuResponse.mode ?? null,
+                bank_ref_num: payuResponse.bank_ref_num ?? null,
+                payu_status: payuResponse.status ?? null,
+                refunds: getRefundLedger(data),
+            }
+        })
+
+    const paymentLinks = (order.payment_collections || [])
+        .flatMap((collection) => collection.payment_sessions || [])
+        .filter((session) => session.provider_id.startsWith("pp_payu_"))
+        .flatMap((session) => toAdminPaymentLink(session) ?? [])
+
+    res.json({ payments, payment_links: paymentLinks })
+}
@@ -0,0 +1,33 @@
+/**
+ * Admin API: Verify a PayU payment live
+ *
+ * POST /admin/payu/payments/:id/verify
+ * Runs verifyPayuPaymentWorkflow for the payment's txnid
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import type { PayuSessionData } from "../../../../../../providers/payu/types"
+import { verifyPayuPaymentWorkflow } from "../../../../../../workflows/verify-payu-payment"
+
+export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
+    const paymentModule = req.scope.resolve(Modules.PAYMENT)
+    const payment = await paymentModule.retrievePayment(req.params.id, {
+        select: ["id", "provider_id", "data"],
+    })
+
+    const sessionData = payment.data as unknown as PayuSessionData | undefined
+    const txnid = sessionData?.txnid
+    if (!payment.provider_id.startsWith("pp_payu_") || !txnid) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `Payment ${payment.id} is not a PayU payment`
+        )
+    }
+
+    const { result } = await verifyPayuPaymentWorkflow(req.scope).run({
+        input: { txnid, merchantProfile: sessionData?.merchantProfile, providerId: payment.provider_id },
+    })
+
+    res.json({ payment_id: payment.id, txnid, verification: result })
+}
@@ -0,0 +1,62 @@
+/**
+ * Admin API: Replay a PayU webhook event
+ *
+ * POST /admin/payu/webhook-events/:id/replay   { provider?: "payu_payu" }
+ * Sends the stored payload through the provider's replayWebhookEvent and, like
+ * Medusa's payment webhook subscriber, processes the resulting action
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, PaymentActions } from "@medusajs/framework/utils"
+import { processPaymentWorkflow } from "@medusajs/medusa/core-flows"
+import { PAYU_MODULE } from "../../../../../../modules/payu"
+import type PayuModuleService from "../../../../../../modules/payu/service"
+import { createPayuProvider } from "../../../../../../workflows/utils"
+
+/**
+ * Actions Medusa's webhook processing ignores
+ */
+const UNPROCESSED_ACTIONS: string[] = [
+    PaymentActions.NOT_SUPPORTED,
+    PaymentActions.CANCELED,
+    PaymentActions.FAILED,
+    PaymentActions.REQUIRES_MORE,
+]
+
+export const POST = async (req: MedusaRequest<{ provider?: string }>, res: MedusaResponse) => {
+    const payuModule = req.scope.resolve<PayuModuleService>(PAYU_MODULE)
+
+    const [event] = await payuModule.listPayuWebhookEvents({ id: req.params.id }, { take: 1 })
+    if (!event) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `PayU webhook event with id: ${req.params.id} was not found`)
+    }
+
+    if (!event.txnid) {
+        throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `PayU webhook event ${event.id} has no parsed payload to replay`
+        )
+    }
+
+    const providerId = `pp_${req.body?.provider || "payu_payu"}`
+    const provider = createPayuProvider(req.scope, providerId)
+    if (!provider) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, `${providerId} is not a registered PayU payment provider`)
+    }
+
+    const result = await provider.replayWebhookEvent({
+        id: event.id,
+        payload: event.payload as Record<string, unknown>,
+    })
+
+    const processed = !!result.data && !UNPROCESSED_ACTIONS.includes(result.action)
+    if (processed) {
+        await processPaymentWorkflow(req.scope).run({ input: result })
+    }
+
+    res.json({
+        webhook_event_id: event.id,
+        action: result.action,
+        processed,
+    })
+}
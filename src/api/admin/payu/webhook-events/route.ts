@@ -0,0 +1,48 @@
+/**
+ * Admin API: PayU Webhook Events
+ *
+ * GET /admin/payu/webhook-events?txnid=&limit=50&offset=0
+ * Lists recent webhook deliveries, newest first
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+
+    const txnid = req.query.txnid as string | undefined
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+    const offset = parseInt(req.query.offset as string) || 0
+
+    const { data: webhook_events, metadata } = await query.graph({
+        entity: "payu_webhook_event",
+        fields: [
+            "id",
+            "txnid",
+            "mihpayid",
+            "status",
+            "payload",
+            "hash_verified",
+            "matched_salt",
+            "action",
+            "error",
+            "duplicate",
+            "replay_of",
+            "processed_at",
+        ],
+        filters: txnid ? { txnid } : {},
+        pagination: {
+            skip: offset,
+            take: limit,
+            order: { processed_at: "DESC" },
+        },
+    })
+
+    res.json({
+        webhook_events,
+        count: metadata?.count ?? webhook_events.length,
+        limit,
+        offset,
+    })
+}
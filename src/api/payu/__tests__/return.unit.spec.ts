@@ -0,0 +1,137 @@
+import crypto from "crypto"
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { completeCartWorkflow } from "@medusajs/medusa/core-flows"
+import { POST as payuReturn } from "../return/route"
+
+jest.mock("@medusajs/medusa/core-flows", () => ({
+    completeCartWorkflow: jest.fn(),
+}))
+
+const provider = {
+    resolve: "medusa-payu-payment-plugin/providers/payu",
+    id: "payu",
+    options: {
+        merchantKey: "key_a",
+        merchantSalt: "salt_a",
+        successUrl: "https://shop.example.com/{country}/order/confirmed",
+        failureUrl: "https://shop.example.com/{country}/checkout",
+    },
+}
+
+const session = {
+    id: "payses_1",
+    provider_id: "pp_payu_payu",
+    data: {
+        txnid: "txn_1",
+        amount: "1499.00",
+        merchantKey: "key_a",
+        status: "pending",
+        successUrl: "https://shop.example.com/in/order/confirmed",
+        failureUrl: "https://shop.example.com/in/checkout",
+    },
+}
+
+/**
+ * PayU return for txnid txn_1 of cart_1, signed with salt_a
+ */
+function signedPayload(overrides: Record<string, string> = {}): Record<string, string> {
+    const payload = {
+        key: "key_a",
+        txnid: "txn_1",
+        amount: "1499.00",
+        productinfo: "Order",
+        firstname: "Asha",
+        email: "asha@example.com",
+        status: "success",
+        unmappedstatus: "captured",
+        udf1: "cart_1",
+        ...overrides,
+    }
+    const hash = crypto.createHash("sha512").update(
+        `salt_a|${payload.status}||||||||||${payload.udf1}|${payload.email}|${payload.firstname}|` +
+        `${payload.productinfo}|${payload.amount}|${payload.txnid}|${payload.key}`
+    ).digest("hex")
+    return { ...payload, hash }
+}
+
+/**
+ * Return request for a cart holding the given payment sessions, with the given PayU providers registered
+ */
+function request(body: Record<string, string>, sessions: unknown[], providers: unknown[] = [provider]): MedusaRequest {
+    const services: Record<string, unknown> = {
+        [ContainerRegistrationKeys.LOGGER]: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        [ContainerRegistrationKeys.QUERY]: {
+            graph: jest.fn().mockResolvedValue({ data: [{ id: "cart_1", payment_collection: { payment_sessions: sessions } }] }),
+        },
+        [ContainerRegistrationKeys.CONFIG_MODULE]: { modules: { [Modules.PAYMENT]: { options: { providers } } } },
+    }
+    return { body, scope: { resolve: (key: string) => services[key] } } as unknown as MedusaRequest
+}
+
+/**
+ * Response recording the redirect
+ */
+function response() {
+    return { redirect: jest.fn() } as unknown as MedusaResponse & { redirect: jest.Mock }
+}
+
+describe("POST /payu/return", () => {
+    const env = process.env
+    const run = jest.fn()
+
+    beforeEach(() => {
+        process.env = { ...env }
+        for (const name of ["STOREFRONT_URL", "NEXT_PUBLIC_BASE_URL", "PAYU_MERCHANT_KEY"]) {
+            delete process.env[name]
+        }
+        run.mockReset().mockResolvedValue({ result: { id: "order_1" } })
+        jest.mocked(completeCartWorkflow).mockReturnValue({ run } as unknown as ReturnType<typeof completeCartWorkflow>)
+    })
+
+    afterAll(() => {
+        process.env = env
+    })
+
+    it("completes the cart and redirects to the session's success page", async () => {
+        const res = response()
+
+        await payuReturn(request(signedPayload(), [session]), res)
+
+        expect(run).toHaveBeenCalledWith({ input: { id: "cart_1" } })
+        expect(res.redirect).toHaveBeenCalledWith(303, "https://shop.example.com/in/order/confirmed?order_id=order_1&txnid=txn_1")
+    })
+
+    it.each([
+        ["a tampered response", { ...signedPayload(), amount: "1.00" }, "https://shop.example.com/in/checkout?txnid=txn_1&payu_status=success"],
+        ["a failed payment", signedPayload({ status: "failure", unmappedstatus: "failed", error_Message: "Bank declined" }),
+            "https://shop.example.com/in/checkout?txnid=txn_1&payu_status=failure&error=Bank+declined"],
+    ])("redirects %s to the session's failure page", async (_, body, url) => {
+        const res = response()
+
+        await payuReturn(request(body, [session]), res)
+
+        expect(run).not.toHaveBeenCalled()
+        expect(res.redirect).toHaveBeenCalledWith(303, url)
+    })
+
+    it("redirects to the provider's failure page when the session is unknown", async () => {
+        const res = response()
+
+        await payuReturn(request(signedPayload({ txnid: "txn_other" }), [session]), res)
+
+        expect(res.redirect).toHaveBeenCalledWith(303, "https://shop.example.com/checkout?txnid=txn_other&payu_status=success")
+    })
+
+    it.each([
+        ["without a storefront URL", {}],
+        ["with a STOREFRONT_URL that is not absolute", { STOREFRONT_URL: "shop.example.com" }],
+    ])("never redirects to the backend %s", async (_, storefront) => {
+        Object.assign(process.env, storefront, { PAYU_MERCHANT_KEY: "key_a", PAYU_MERCHANT_SALT: "salt_a" })
+        const res = response()
+
+        await expect(payuReturn(request(signedPayload(), [], []), res))
+            .rejects.toThrow("successUrl and failureUrl options, or the STOREFRONT_URL environment variable, are required")
+        expect(res.redirect).not.toHaveBeenCalled()
+    })
+})
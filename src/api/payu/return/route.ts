@@ -0,0 +1,190 @@
+/**
+ * PayU Return Handler (surl/furl)
+ *
+ * POST /payu/return
+ * PayU posts the customer's browser here after payment when `backendUrl` is
+ * configured. The response hash is verified, the cart is completed and the
+ * customer is 303-redirected to the storefront success, failure or cancel page.
+ *
+ * Lives outside /store because PayU's form POST cannot carry the
+ * publishable API key header.
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, MedusaError } from "@medusajs/framework/utils"
+import { completeCartWorkflow } from "@medusajs/medusa/core-flows"
+import { getAttemptTxnids, resumeAttempt } from "../../../providers/payu/attempts"
+import { PayuClient, PRIMARY_SALT_ID, PRIMARY_SALT_V2_ID } from "../../../providers/payu/client"
+import { findPayuMismatches } from "../../../providers/payu/mismatch"
+import { getRedirectTemplates, renderRedirectUrl, validateRedirectTemplate } from "../../../providers/payu/redirects"
+import { resolvePayuStatus } from "../../../providers/payu/status"
+import type { PayuProviderConfig, PayuSessionData, PayuWebhookPayload } from "../../../providers/payu/types"
+import { resolvePayuConfig, resolvePayuProviderConfig } from "../../../workflows/utils"
+
+type CartPaymentSession = {
+    id: string
+    provider_id: string
+    data: Record<string, unknown> | null
+}
+
+/**
+ * Storefront pages from the provider's redirect templates, used when the session can't be found
+ * Per-session overrides are unknown here, so only the configured templates are used.
+ * validateOptions rejects invalid templates at startup; without a registered provider
+ * STOREFRONT_URL is read unchecked, so an invalid template is skipped here
+ */
+function getFallbackUrls(
+    config: Partial<PayuProviderConfig>,
+    payload: PayuWebhookPayload
+): { successUrl?: string; failureUrl?: string; cancelUrl?: string } {
+    const { success, failure, cancel } = getRedirectTemplates(config)
+    const values = { cart_id: payload.udf1, txnid: payload.txnid }
+    const render = (template?: string) =>
+        (template && !validateRedirectTemplate(template) ? renderRedirectUrl(template, values) : undefined)
+
+    return {
+        successUrl: render(success),
+        failureUrl: render(failure),
+        cancelUrl: render(cancel),
+    }
+}
+
+/**
+ * Append query params to a redirect URL (relative URLs are returned unchanged)
+ */
+function withParams(url: string, params: Record<string, string | undefined>): string {
+    if (!URL.canParse(url)) {
+        return url
+    }
+
+    const target = new URL(url)
+    for (const [key, value] of Object.entries(params)) {
+        if (value) {
+            target.searchParams.set(key, value)
+        }
+    }
+    return target.toString()
+}
+
+export const POST = async (req: MedusaRequest, res: MedusaResponse) => {
+    const logger = req.scope.resolve(ContainerRegistrationKeys.LOGGER)
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+    const payload = (req.body || {}) as PayuWebhookPayload
+    const cartId = payload.udf1
+
+    // Find the PayU session of the cart to redirect to the storefront it was started from
+    let session: CartPaymentSession | undefined
+    if (cartId) {
+        const { data: carts } = await query.graph({
+            entity: "cart",
+            fields: [
+                "id",
+                "payment_collection.payment_sessions.id",
+                "payment_collection.payment_sessions.provider_id",
+                "payment_collection.payment_sessions.data",
+            ],
+            filters: { id: cartId },
+        })
+
+        const sessions = ((carts[0] as { payment_collection?: { payment_sessions?: CartPaymentSession[] } })
+            ?.payment_collection?.payment_sessions || []) as CartPaymentSession[]
+        // PayU may return the customer from an earlier attempt of the session
+        session = sessions.find((candidate) => candidate.provider_id.startsWith("pp_payu_")
+            && !!payload.txnid
+            && !!candidate.data?.txnid
+            && getAttemptTxnids(candidate.data as unknown as PayuSessionData).includes(payload.txnid))
+    }
+    const sessionData = session?.data as unknown as PayuSessionData | undefined
+
+    const fallback = getFallbackUrls(resolvePayuProviderConfig(req.scope, session?.provider_id) || {}, payload)
+    const successUrl = sessionData?.successUrl || fallback.successUrl
+    const cancelUrl = sessionData ? sessionData.cancelUrl : fallback.cancelUrl
+    // Customers who cancelled on PayU go to the cancel page when there is one
+    const failureUrl = (payload.unmappedstatus?.toLowerCase() === "usercancelled" && cancelUrl)
+        || sessionData?.failureUrl
+        || fallback.failureUrl
+
+    // The customer is only ever sent to a storefront page, never to a path on the backend
+    if (!successUrl || !failureUrl) {
+        logger.error(`PayU return: no storefront page configured for txnid=${payload.txnid || 'N/A'}`)
+        throw new MedusaError(
+            MedusaError.Types.UNEXPECTED_STATE,
+            "PayU: successUrl and failureUrl options, or the STOREFRONT_URL environment variable, are required"
+        )
+    }
+
+    const fail = (reason: string) => {
+        logger.warn(`PayU return: ${reason} for txnid=${payload.txnid || 'N/A'}`)
+        res.redirect(303, withParams(failureUrl, {
+            txnid: payload.txnid,
+            payu_status: payload.status || "failure",
+            error: payload.error_Message,
+        }))
+    }
+
+    // Verify with the salt of the merchant account PayU returned the customer from
+    const config = resolvePayuConfig(req.scope, {}, { key: payload.key, providerId: session?.provider_id })
+    if (!config) {
+        return fail("PayU configuration missing")
+    }
+
+    if (!payload.txnid || !payload.status || !payload.hash) {
+        return fail("Missing required fields")
+    }
+
+    const client = new PayuClient(config, logger)
+    const matchedSalt = client.matchResponseHash({
+        status: payload.status,
+        email: payload.email,
+        firstname: payload.firstname,
+        productinfo: payload.productinfo,
+        amount: payload.amount,
+        txnid: payload.txnid,
+        hash: payload.hash,
+        udf1: payload.udf1,
+        udf2: payload.udf2,
+        udf3: payload.udf3,
+        udf4: payload.udf4,
+        udf5: payload.udf5,
+        additionalCharges: payload.additionalCharges,
+    })
+
+    if (!matchedSalt) {
+        return fail("Hash verification FAILED")
+    }
+
+    if (matchedSalt !== PRIMARY_SALT_ID && matchedSalt !== PRIMARY_SALT_V2_ID) {
+        logger.info(`PayU return: txnid=${payload.txnid} verified with previous salt '${matchedSalt}'`)
+    }
+
+    if (resolvePayuStatus(payload.status, payload.unmappedstatus).action !== "authorized" || !cartId || !sessionData) {
+        return fail(`Payment not successful (status=${payload.status})`)
+    }
+
+    // The session is authorized only if PayU paid exactly what checkout asked for on that attempt
+    const attempt = resumeAttempt(sessionData, payload.txnid)
+    const mismatches = findPayuMismatches(
+        { amount: attempt.amount, key: attempt.merchantKey, txnid: attempt.txnid },
+        { amount: payload.amount, key: payload.key, txnid: payload.txnid }
+    )
+    if (mismatches.length) {
+        return fail(`Response does not match the session (${mismatches.map((m) => m.field).join(", ")})`)
+    }
+
+    try {
+        // Authorizes the PayU session (verified with PayU again) and creates the order.
+        // Returns the existing order if the webhook already completed the cart.
+        const { result } = await completeCartWorkflow(req.scope).run({
+            input: { id: cartId },
+        })
+
+        logger.info(`PayU return: cart ${cartId} completed, order=${result.id}, txnid=${payload.txnid}`)
+        res.redirect(303, withParams(successUrl, {
+            order_id: result.id,
+            txnid: payload.txnid,
+        }))
+    } catch (error) {
+        logger.error(`PayU return: cart completion failed for cart ${cartId}: ${error}`)
+        fail("Cart completion failed")
+    }
+}
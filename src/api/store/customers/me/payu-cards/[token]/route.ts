@@ -0,0 +1,25 @@
+/**
+ * Store API: Remove a saved PayU card of the logged-in customer
+ *
+ * DELETE /store/customers/me/payu-cards/:token?merchant_profile=...
+ * PayU only deletes tokens stored under the customer's own user_credentials.
+ */
+
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { getCustomerCardVault } from "../utils"
+
+export const DELETE = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { client, userCredentials } = getCustomerCardVault(req)
+    const token = req.params.token
+
+    const response = await client.deleteUserCard(userCredentials, token)
+    if (response.status !== 1) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `PayU: saved card ${token} could not be removed: ${response.msg}`
+        )
+    }
+
+    res.json({ id: token, object: "payu_card", deleted: true })
+}
@@ -0,0 +1,26 @@
+/**
+ * Store API: Saved PayU cards of the logged-in customer
+ *
+ * GET /store/customers/me/payu-cards?merchant_profile=...
+ * Lists the cards PayU stored under the customer's user_credentials.
+ * Only tokens and masked numbers are returned.
+ */
+
+import type { AuthenticatedMedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { isCardVaultEmpty, toSavedCards } from "../../../../../providers/payu/cards"
+import { getCustomerCardVault } from "./utils"
+
+export const GET = async (req: AuthenticatedMedusaRequest, res: MedusaResponse) => {
+    const { client, userCredentials } = getCustomerCardVault(req)
+
+    const response = await client.getUserCards(userCredentials)
+    if (response.status !== 1 && !isCardVaultEmpty(response)) {
+        throw new MedusaError(
+            MedusaError.Types.UNEXPECTED_STATE,
+            `PayU: could not list saved cards: ${response.msg}`
+        )
+    }
+
+    res.json({ saved_cards: toSavedCards(response) })
+}
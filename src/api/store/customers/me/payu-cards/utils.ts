@@ -0,0 +1,28 @@
+/**
+ * Shared helpers for the saved card store routes
+ */
+
+import type { AuthenticatedMedusaRequest } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PayuClient, getUserCredentials } from "../../../../../providers/payu/client"
+import { resolvePayuConfig } from "../../../../../workflows/utils"
+
+/**
+ * PayU client and user_credentials of the authenticated customer
+ * Cards are stored per merchant key; `merchant_profile` selects a profile other than the default
+ */
+export function getCustomerCardVault(req: AuthenticatedMedusaRequest): { client: PayuClient; userCredentials: string } {
+    const merchantProfile = req.query.merchant_profile as string | undefined
+    const config = resolvePayuConfig(req.scope, {}, { id: merchantProfile })
+    if (!config) {
+        throw new MedusaError(
+            MedusaError.Types.NOT_FOUND,
+            `PayU merchant profile ${merchantProfile || "default"} is not configured`
+        )
+    }
+
+    return {
+        client: new PayuClient(config),
+        userCredentials: getUserCredentials(config.merchantKey, req.auth_context.actor_id),
+    }
+}
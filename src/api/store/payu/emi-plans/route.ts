@@ -0,0 +1,86 @@
+/**
+ * Store API: EMI plans for a cart
+ *
+ * GET /store/payu/emi-plans?cart_id=...&bin=...
+ * Returns the card and cardless EMI plans PayU offers for the cart total, from the
+ * merchant profile the provider would choose for the cart (sales channel, region, currency).
+ * With `bin` (first 6 card digits) card EMI plans are limited to the card's bank.
+ */
+
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { ContainerRegistrationKeys, MathBN, MedusaError } from "@medusajs/framework/utils"
+import { PayuClient } from "../../../../providers/payu/client"
+import {
+    filterEmiPlansForCard,
+    isEmiErrorResponse,
+    toEmiBinEligibility,
+    toEmiPlans,
+} from "../../../../providers/payu/emi"
+import { getMerchantProfileConfig, selectMerchantProfile } from "../../../../providers/payu/merchants"
+import { resolvePayuProviderConfig } from "../../../../workflows/utils"
+
+export const GET = async (req: MedusaRequest, res: MedusaResponse) => {
+    const { cart_id: cartId, bin } = req.query as Record<string, string | undefined>
+    if (!cartId) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, "cart_id is required")
+    }
+    if (bin !== undefined && !/^\d{6}$/.test(bin)) {
+        throw new MedusaError(MedusaError.Types.INVALID_DATA, "bin must be the first 6 digits of the card")
+    }
+
+    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
+    const { data: carts } = await query.graph({
+        entity: "cart",
+        fields: ["id", "total", "currency_code", "sales_channel_id", "region_id"],
+        filters: { id: cartId },
+    })
+    const cart = carts[0] as {
+        id: string
+        total: unknown
+        currency_code: string
+        sales_channel_id?: string | null
+        region_id?: string | null
+    } | undefined
+    if (!cart) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart ${cartId} was not found`)
+    }
+
+    const amount = MathBN.convert(cart.total as string).toFixed(2)
+
+    // PayU offers EMI on INR payments only
+    if (cart.currency_code?.toLowerCase() !== "inr") {
+        return res.json({ cart_id: cart.id, amount, emi_plans: [] })
+    }
+
+    const config = resolvePayuProviderConfig(req.scope)
+    const profile = config && selectMerchantProfile(config, {
+        sales_channel_id: cart.sales_channel_id ?? undefined,
+        region_id: cart.region_id ?? undefined,
+        currency_code: cart.currency_code,
+    })
+    if (!config || !profile) {
+        throw new MedusaError(MedusaError.Types.NOT_FOUND, "No PayU merchant profile is configured for this cart")
+    }
+    const client = new PayuClient(getMerchantProfileConfig(config, profile))
+
+    const response = await client.getEmiAmountAccordingToInterest(amount)
+    if (isEmiErrorResponse(response)) {
+        throw new MedusaError(
+            MedusaError.Types.UNEXPECTED_STATE,
+            `PayU: could not fetch EMI plans: ${response.msg}`
+        )
+    }
+
+    const plans = toEmiPlans(response)
+    if (!bin) {
+        return res.json({ cart_id: cart.id, amount, emi_plans: plans })
+    }
+
+    const eligibility = toEmiBinEligibility(await client.checkEmiEligibleBin(bin))
+    res.json({
+        cart_id: cart.id,
+        amount,
+        emi_plans: filterEmiPlansForCard(plans, eligibility),
+        bin_eligibility: eligibility,
+    })
+}
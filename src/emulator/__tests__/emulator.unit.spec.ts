@@ -0,0 +1,483 @@
+import http from "http"
+import type { AddressInfo } from "net"
+import { PayuClient } from "../../providers/payu/client"
+import { PayuEmulator } from "../emulator"
+
+const merchantKey = "emulator_key"
+const merchantSalt = "emulator_salt"
+
+/**
+ * Submit the checkout form the storefront would post to PayU
+ */
+async function checkout(client: PayuClient, txnid: string, extra: Record<string, string> = {}) {
+    const fields = {
+        txnid,
+        amount: "1499.00",
+        productinfo: "Order Payment",
+        firstname: "Asha",
+        email: "asha@example.com",
+        udf1: "cart_123",
+        udf2: "cus_123",
+    }
+
+    return fetch(client.getPaymentUrl(), {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+            key: merchantKey,
+            phone: "9999999999",
+            surl: "https://shop.example.com/success",
+            furl: "https://shop.example.com/failure",
+            hash: client.generatePaymentHash(fields),
+            ...fields,
+            ...extra,
+        }),
+    })
+}
+
+describe("PayuEmulator", () => {
+    const emulator = new PayuEmulator({ merchantKey, merchantSalt })
+    let client: PayuClient
+
+    beforeAll(async () => {
+        const baseUrl = await emulator.start()
+        client = new PayuClient({ merchantKey, merchantSalt, environment: "test", baseUrl })
+    })
+
+    afterAll(async () => {
+        await emulator.stop()
+    })
+
+    beforeEach(() => {
+        emulator.reset()
+    })
+
+    it("serves the checkout and merchant API from the configured base URL", () => {
+        expect(client.getPaymentUrl()).toBe(`${emulator.url}/_payment`)
+    })
+
+    it("rejects a checkout with an incorrect hash", async () => {
+        const response = await checkout(client, "TXN_bad_hash", { hash: "deadbeef" })
+
+        expect(response.status).toBe(400)
+        expect(emulator.getTransaction("TXN_bad_hash")).toBeUndefined()
+    })
+
+    it("settles a checkout and returns a signed response to surl", async () => {
+        const response = await checkout(client, "TXN_success")
+        const html = await response.text()
+
+        expect(response.status).toBe(200)
+        expect(html).toContain('action="https://shop.example.com/success"')
+
+        const payload = emulator.buildResponse("TXN_success")
+        expect(payload).toMatchObject({ status: "success", unmappedstatus: "captured", udf1: "cart_123" })
+        expect(client.verifyResponseHash(payload as Parameters<PayuClient["verifyResponseHash"]>[0])).toBe(true)
+    })
+
+    it("signs responses with additional charges and reports them through verify_payment", async () => {
+        emulator.setAdditionalCharges("TXN_fee", "29.98")
+        await checkout(client, "TXN_fee")
+
+        const payload = emulator.buildResponse("TXN_fee")
+        expect(payload).toMatchObject({ amount: "1499.00", additionalCharges: "29.98", net_amount_debit: "1528.98" })
+        expect(client.verifyResponseHash(payload as Parameters<PayuClient["verifyResponseHash"]>[0])).toBe(true)
+
+        // Dropping the fee from the payload breaks the hash
+        const { additionalCharges: _fee, ...withoutFee } = payload
+        expect(client.verifyResponseHash(withoutFee as Parameters<PayuClient["verifyResponseHash"]>[0])).toBe(false)
+
+        const verify = await client.verifyPayment("TXN_fee")
+        expect(verify.transaction_details.TXN_fee).toMatchObject({
+            amt: "1499.00",
+            additional_charges: "29.98",
+            net_amount_debit: "1528.98",
+        })
+    })
+
+    it.each([
+        ["failure", "failure", "failed"],
+        ["bounced", "failure", "bounced"],
+        ["dropped", "failure", "dropped"],
+        ["userCancelled", "failure", "userCancelled"],
+        ["pending", "pending", "pending"],
+    ] as const)("reports the %s outcome through verify_payment", async (outcome, status, unmappedstatus) => {
+        emulator.setOutcome("TXN_outcome", outcome)
+        const response = await checkout(client, "TXN_outcome")
+
+        expect(await response.text()).toContain('action="https://shop.example.com/failure"')
+
+        const verify = await client.verifyPayment("TXN_outcome")
+        expect(verify.transaction_details.TXN_outcome).toMatchObject({ status, unmappedstatus })
+    })
+
+    it.each([
+        ["userCancelled", "https://shop.example.com/cart"],
+        ["failure", "https://shop.example.com/failure"],
+    ] as const)("returns a %s payment with a curl to %s", async (outcome, target) => {
+        emulator.setOutcome("TXN_curl", outcome)
+        const response = await checkout(client, "TXN_curl", { curl: "https://shop.example.com/cart" })
+
+        expect(await response.text()).toContain(`action="${target}"`)
+    })
+
+    it("settles a seamless card checkout with the posted payment method", async () => {
+        await checkout(client, "TXN_card", { pg: "DC", bankcode: "VISA", ccnum: "4012001037141112", ccvv: "123" })
+
+        const verify = await client.verifyPayment("TXN_card")
+        expect(verify.transaction_details.TXN_card).toMatchObject({ status: "success", mode: "DC", bankcode: "VISA" })
+    })
+
+    it.each([
+        ["intent", "INTENT", {}],
+        ["collect", "UPI", { vpa: "asha@okicici" }],
+    ] as const)("starts a UPI %s payment server-to-server and settles it once approved", async (_, bankcode, extra) => {
+        const txnid = `TXN_upi_${bankcode}`
+        const fields = {
+            key: merchantKey,
+            txnid,
+            amount: "1499.00",
+            productinfo: "Order Payment",
+            firstname: "Asha",
+            email: "asha@example.com",
+            phone: "9999999999",
+            surl: "https://shop.example.com/success",
+            furl: "https://shop.example.com/failure",
+            udf1: "cart_123",
+        }
+
+        const response = await client.initiateS2SPayment({
+            ...fields,
+            hash: client.generatePaymentHash(fields),
+            pg: "UPI",
+            bankcode,
+            s2s_client_ip: "203.0.113.7",
+            s2s_device_info: "Mozilla/5.0",
+            ...extra,
+        })
+
+        expect(response.metaData.txnStatus).toBe("pending")
+        expect(response.result?.paymentId).toBeDefined()
+        expect(response.result?.intentURIData !== undefined).toBe(bankcode === "INTENT")
+        expect(emulator.getTransaction(txnid)).toMatchObject({ status: "pending", mode: "UPI" })
+
+        await emulator.completeUpiPayment(txnid)
+
+        const verify = await client.verifyPayment(txnid)
+        expect(verify.transaction_details[txnid]).toMatchObject({ status: "success", mode: "UPI", bankcode })
+    })
+
+    it("rejects S2S requests without the customer's device details", async () => {
+        const fields = {
+            key: merchantKey,
+            txnid: "TXN_upi_no_device",
+            amount: "1499.00",
+            productinfo: "Order Payment",
+            firstname: "Asha",
+            email: "asha@example.com",
+            phone: "9999999999",
+            surl: "https://shop.example.com/success",
+            furl: "https://shop.example.com/failure",
+        }
+
+        const response = await client.initiateS2SPayment({ ...fields, hash: client.generatePaymentHash(fields), pg: "UPI", bankcode: "INTENT" })
+
+        expect(response).toMatchObject({ metaData: { txnStatus: "failure" }, result: null })
+        expect(emulator.getTransaction("TXN_upi_no_device")).toBeUndefined()
+    })
+
+    it("saves the card of a successful checkout and pays with its token", async () => {
+        const userCredentials = `${merchantKey}:cus_123`
+
+        await checkout(client, "TXN_save_card", {
+            pg: "CC",
+            bankcode: "CC",
+            user_credentials: userCredentials,
+            store_card: "1",
+            ccnum: "5123456789012346",
+            ccname: "Asha K",
+            ccvv: "123",
+            ccexpmon: "05",
+            ccexpyr: "2031",
+        })
+
+        const { user_cards } = await client.getUserCards(userCredentials)
+        const [card] = Object.values(user_cards || {})
+        expect(card).toMatchObject({ card_no: "512345XXXXXX2346", name_on_card: "Asha K", card_mode: "CC" })
+
+        const paid = await checkout(client, "TXN_saved_card", {
+            pg: "CC",
+            bankcode: "CC",
+            user_credentials: userCredentials,
+            store_card_token: card.card_token,
+            ccvv: "123",
+        })
+        expect(paid.status).toBe(200)
+
+        // Tokens only pay for the customer they were saved for
+        const stolen = await checkout(client, "TXN_stolen_card", {
+            user_credentials: `${merchantKey}:cus_other`,
+            store_card_token: card.card_token,
+        })
+        expect(stolen.status).toBe(400)
+    })
+
+    it("saves the card entered on the hosted page without card fields in the checkout", async () => {
+        const userCredentials = `${merchantKey}:cus_789`
+
+        await checkout(client, "TXN_hosted_save_card", { user_credentials: userCredentials, store_card: "1" })
+
+        expect(emulator.getSavedCards(userCredentials)).toEqual([
+            expect.objectContaining({ card_no: "512345XXXXXX2346", card_mode: "CC", is_expired: 0 }),
+        ])
+    })
+
+    it("lists and deletes saved cards through the merchant API", async () => {
+        const userCredentials = `${merchantKey}:cus_456`
+
+        expect(await client.getUserCards(userCredentials)).toMatchObject({ status: 0, msg: "Card not found." })
+
+        await checkout(client, "TXN_store_debit_card", {
+            pg: "DC",
+            bankcode: "VISA",
+            user_credentials: userCredentials,
+            store_card: "1",
+            ccnum: "4012001037141112",
+            ccname: "Asha K",
+            ccvv: "123",
+            ccexpmon: "12",
+            ccexpyr: "2030",
+        })
+        const [saved] = emulator.getSavedCards(userCredentials)
+        expect(saved).toMatchObject({ card_no: "401200XXXXXX1112", is_expired: 0 })
+
+        expect((await client.deleteUserCard(`${merchantKey}:cus_other`, saved.card_token)).status).toBe(0)
+        expect((await client.deleteUserCard(userCredentials, saved.card_token)).status).toBe(1)
+        expect(emulator.getSavedCards(userCredentials)).toEqual([])
+    })
+
+    it("lists EMI plans above each bank's minimum amount", async () => {
+        const plans = await client.getEmiAmountAccordingToInterest("15000.00")
+        expect(Object.keys(plans)).toEqual(["HDFC", "AXIS", "ZESTMON"])
+        expect(plans.HDFC.EMI6).toMatchObject({ card_type: "CC", tenure: "6 months", emi_value: 2595.64, emiBankInterest: "13" })
+        expect(plans.ZESTMON.ZESTMON3).toMatchObject({ emi_value: 5000, emi_interest_paid: 0 })
+
+        expect(Object.keys(await client.getEmiAmountAccordingToInterest("2000.00"))).toEqual(["ZESTMON"])
+        expect(await client.getEmiAmountAccordingToInterest("abc")).toMatchObject({ status: 0 })
+    })
+
+    it.each([
+        ["512345", { isEligible: true, bank: "HDFC", cardType: "CC" }],
+        ["401200", { isEligible: true, bank: "AXIS", cardType: "DC" }],
+        ["411111", { isEligible: false }],
+    ])("reports the EMI eligibility of BIN %s", async (bin, details) => {
+        expect((await client.checkEmiEligibleBin(bin)).details).toMatchObject(details)
+    })
+
+    it("creates a payment link that is paid once and can be expired", async () => {
+        const invoice = {
+            txnid: "TXN_link",
+            amount: "2499.00",
+            productinfo: "Order #12",
+            firstname: "Asha",
+            email: "asha@example.com",
+            phone: "9999999999",
+            validation_period: 24,
+            time_unit: "H" as const,
+            send_email_now: "1" as const,
+            send_sms: "0" as const,
+        }
+
+        const created = await client.createInvoice(invoice)
+        expect(created).toMatchObject({ "Transaction Id": "TXN_link", URL: `${emulator.url}/invoice/TXN_link` })
+        expect((await client.createInvoice(invoice)).status).toBe(0)
+
+        const txn = await emulator.payInvoice("TXN_link")
+        expect(txn).toMatchObject({ status: "success", amount: "2499.00", mode: "UPI" })
+        expect(emulator.getInvoice("TXN_link")?.status).toBe("paid")
+        await expect(emulator.payInvoice("TXN_link")).rejects.toThrow("not an active payment link")
+        expect((await client.expireInvoice("TXN_link")).status).toBe(0)
+
+        await client.createInvoice({ ...invoice, txnid: "TXN_link_expired" })
+        expect((await client.expireInvoice("TXN_link_expired")).status).toBe(1)
+        await expect(emulator.payInvoice("TXN_link_expired")).rejects.toThrow("not an active payment link")
+    })
+
+    it("registers a mandate with an si=1 checkout and debits it within its limit", async () => {
+        const si_details = JSON.stringify({
+            billingAmount: "999.00",
+            billingCurrency: "INR",
+            billingCycle: "MONTHLY",
+            billingInterval: 1,
+            paymentStartDate: "2026-03-10",
+            paymentEndDate: "2027-03-10",
+            billingRule: "MAX",
+            billingLimit: "ON",
+        })
+        const fields = {
+            txnid: "TXN_mandate",
+            amount: "1499.00",
+            productinfo: "Order Payment",
+            firstname: "Asha",
+            email: "asha@example.com",
+            udf1: "cart_123",
+            udf2: "cus_123",
+        }
+
+        const unsigned = await checkout(client, "TXN_mandate", { api_version: "7", si: "1", si_details })
+        expect(unsigned.status).toBe(400)
+
+        await checkout(client, "TXN_mandate", {
+            api_version: "7",
+            si: "1",
+            si_details,
+            hash: client.generatePaymentHash({ ...fields, si_details }),
+        })
+        const { mihpayid } = emulator.getTransaction("TXN_mandate")!
+        expect(emulator.getMandate(mihpayid)).toMatchObject({ txnid: "TXN_mandate", status: "ACTIVE" })
+
+        const debit = { authpayuid: mihpayid, phone: "9999999999", email: "asha@example.com" }
+        expect((await client.recurringDebit({ ...debit, amount: "1000.00", txnid: "TXN_over" })).status).toBe(0)
+
+        const notified = await client.sendPreDebitNotification({
+            authPayuId: mihpayid,
+            requestId: "PDN_1",
+            debitDate: "2026-04-10",
+            invoiceDisplayNumber: "INV_1",
+            amount: 499,
+        })
+        expect(notified.status).toBe(1)
+
+        const charged = await client.recurringDebit({ ...debit, amount: "499.00", txnid: "TXN_renewal" })
+        expect(charged.details?.TXN_renewal).toMatchObject({ status: "captured" })
+        expect(emulator.getTransaction("TXN_renewal")).toMatchObject({ status: "success", amount: "499.00" })
+
+        expect((await client.checkMandateStatus(mihpayid, "MST_1")).details?.status).toBe("ACTIVE")
+        expect((await client.revokeMandate(mihpayid, "REV_1")).status).toBe(1)
+        expect((await client.checkMandateStatus(mihpayid, "MST_2")).details?.status).toBe("REVOKED")
+        expect((await client.recurringDebit({ ...debit, amount: "499.00", txnid: "TXN_revoked" })).status).toBe(0)
+    })
+
+    it("verifies several transactions at once and reports unknown ones as not found", async () => {
+        await checkout(client, "TXN_one")
+
+        const verify = await client.verifyPayments(["TXN_one", "TXN_unknown"])
+
+        expect(verify.status).toBe(1)
+        expect(verify.transaction_details.TXN_one.status).toBe("success")
+        expect(verify.transaction_details.TXN_unknown.status).toBe("Not Found")
+    })
+
+    it("refunds up to the captured amount and reports refund status", async () => {
+        await checkout(client, "TXN_refund")
+        const { mihpayid } = emulator.getTransaction("TXN_refund")!
+
+        const refund = await client.refund(mihpayid, "REF_1", "1000.00")
+        expect(refund).toMatchObject({ status: 1, mihpayid })
+
+        const overRefund = await client.refund(mihpayid, "REF_2", "500.00")
+        expect(overRefund.status).toBe(0)
+
+        const status = await client.checkRefundStatus(refund.request_id!)
+        expect(status.transaction_details?.[refund.request_id!]?.[mihpayid]).toMatchObject({
+            action: "refund",
+            amount: "1000.00",
+            status: "success",
+        })
+    })
+
+    it("captures and cancels pre-authorized transactions", async () => {
+        await checkout(client, "TXN_auth", { pre_authorize: "1" })
+        await checkout(client, "TXN_release", { pre_authorize: "1" })
+        const auth = emulator.getTransaction("TXN_auth")!
+        const release = emulator.getTransaction("TXN_release")!
+
+        expect(auth.unmappedstatus).toBe("auth")
+        expect((await client.refund(auth.mihpayid, "REF_auth", "100.00")).status).toBe(0)
+
+        expect((await client.capture(auth.mihpayid, "CAP_1", "1499.00")).status).toBe(1)
+        expect(emulator.getTransaction("TXN_auth")!.unmappedstatus).toBe("captured")
+
+        expect((await client.cancelTransaction(release.mihpayid, "CAN_1", "1499.00")).status).toBe(1)
+        const verify = await client.verifyPayment("TXN_release")
+        expect(verify.transaction_details.TXN_release).toMatchObject({ status: "failure", unmappedstatus: "userCancelled" })
+    })
+
+    it("sends a signed webhook to the webhook URL", async () => {
+        const received: string[] = []
+        const receiver = http.createServer((req, res) => {
+            let body = ""
+            req.on("data", (chunk) => (body += chunk))
+            req.on("end", () => {
+                received.push(body)
+                res.end("ok")
+            })
+        })
+        await new Promise<void>((resolve) => receiver.listen(0, "127.0.0.1", resolve))
+
+        try {
+            const { port } = receiver.address() as AddressInfo
+            emulator.setWebhookUrl(`http://127.0.0.1:${port}/hooks/payment/payu_payu`)
+
+            await checkout(client, "TXN_webhook")
+
+            expect(received).toHaveLength(1)
+            const webhook = Object.fromEntries(new URLSearchParams(received[0]).entries())
+            expect(webhook).toMatchObject({ txnid: "TXN_webhook", status: "success" })
+            expect(client.verifyResponseHash(webhook as Parameters<PayuClient["verifyResponseHash"]>[0])).toBe(true)
+        } finally {
+            emulator.setWebhookUrl(undefined)
+            await new Promise<void>((resolve) => receiver.close(() => resolve()))
+        }
+    })
+
+    it("rejects merchant API calls with an incorrect hash", async () => {
+        const otherClient = new PayuClient({
+            merchantKey,
+            merchantSalt: "wrong_salt",
+            environment: "test",
+            baseUrl: emulator.url,
+        })
+
+        expect(await otherClient.verifyPayment("TXN_any")).toMatchObject({ status: 0, msg: "Invalid Hash." })
+    })
+})
+
+describe("PayuEmulator with salt version 2", () => {
+    const merchantSaltV2 = "emulator_salt_v2_256bit"
+    const emulator = new PayuEmulator({ merchantKey, merchantSalt, merchantSaltV2 })
+    let client: PayuClient
+
+    beforeAll(async () => {
+        const baseUrl = await emulator.start()
+        client = new PayuClient({ merchantKey, merchantSalt, merchantSaltV2, saltVersion: 2, environment: "test", baseUrl })
+    })
+
+    afterAll(async () => {
+        await emulator.stop()
+    })
+
+    it("accepts the JSON hash and signs the response with the v2 salt", async () => {
+        const response = await checkout(client, "TXN_v2")
+
+        expect(response.status).toBe(200)
+
+        const payload = emulator.buildResponse("TXN_v2")
+        expect(client.matchResponseHash(payload as Parameters<PayuClient["matchResponseHash"]>[0])).toBe("primary_v2")
+    })
+
+    it("rejects a JSON hash with a wrong v2 value", async () => {
+        const v1Hash = new PayuClient({ merchantKey, merchantSalt, environment: "test" }).generatePaymentHash({
+            txnid: "TXN_v2_bad",
+            amount: "1499.00",
+            productinfo: "Order Payment",
+            firstname: "Asha",
+            email: "asha@example.com",
+            udf1: "cart_123",
+            udf2: "cus_123",
+        })
+        const response = await checkout(client, "TXN_v2_bad", { hash: JSON.stringify({ v1: v1Hash, v2: "forged" }) })
+
+        expect(response.status).toBe(400)
+    })
+})
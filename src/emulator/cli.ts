@@ -0,0 +1,44 @@
+/**
+ * PayU Emulator CLI
+ * Runs the emulator as a standalone server for local development
+ *
+ * Usage (after `npm run build`):
+ *   PAYU_MERCHANT_KEY=... PAYU_MERCHANT_SALT=... \
+ *   PAYU_EMULATOR_WEBHOOK_URL=http://localhost:9000/hooks/payment/payu_payu \
+ *   node .medusa/server/src/emulator/cli.js
+ *
+ * Point the provider at it with `baseUrl: "http://localhost:4010"` (or PAYU_BASE_URL).
+ */
+
+import type { Logger } from "@medusajs/framework/types"
+import { PayuEmulator, type PayuEmulatorOutcome } from "./emulator"
+
+const merchantKey = process.env.PAYU_MERCHANT_KEY
+const merchantSalt = process.env.PAYU_MERCHANT_SALT
+
+if (!merchantKey || !merchantSalt) {
+    console.error("PAYU_MERCHANT_KEY and PAYU_MERCHANT_SALT are required")
+    process.exit(1)
+}
+
+const emulator = new PayuEmulator({
+    merchantKey,
+    merchantSalt,
+    merchantSaltV2: process.env.PAYU_MERCHANT_SALT_V2 || undefined,
+    port: parseInt(process.env.PAYU_EMULATOR_PORT || "4010", 10),
+    host: process.env.PAYU_EMULATOR_HOST || "127.0.0.1",
+    webhookUrl: process.env.PAYU_EMULATOR_WEBHOOK_URL,
+    defaultOutcome: (process.env.PAYU_EMULATOR_OUTCOME as PayuEmulatorOutcome) || "success",
+    logger: console as unknown as Logger,
+})
+
+emulator.start().then((url) => {
+    console.log(`PayU emulator running at ${url}`)
+})
+
+const shutdown = () => {
+    emulator.stop().then(() => process.exit(0))
+}
+
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)
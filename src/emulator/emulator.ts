@@ -0,0 +1,1166 @@
+/**
+ * PayU Emulator
+ * Local HTTP server that behaves like the PayU hosted checkout and merchant API
+ *
+ * Implements:
+ * - POST /_payment - hosted and seamless checkout; completes the payment immediately with the
+ *   configured outcome, sends the webhook and returns the auto-submit form to surl/furl
+ *   (curl for cancelled payments).
+ *   UPI requests with txn_s2s_flow=4 answer with JSON and stay pending until
+ *   completeUpiPayment() (the customer approving the payment in their UPI app)
+ * - POST /merchant/postservice.php - verify_payment, cancel_refund_transaction,
+ *   check_action_status, capture_transaction, cancel_transaction, the
+ *   stored card commands get_user_cards and delete_user_card,
+ *   the EMI commands getEmiAmountAccordingToInterest and eligibleBinsForEMI,
+ *   the payment link commands create_invoice and expire_invoice (payInvoice()
+ *   pays a link as the customer would), and the standing instruction commands
+ *   si_transaction, pre_debit_SI, check_mandate_status and mandate_revoke.
+ *   Checkouts posted with si=1 register a mandate once paid
+ *
+ * Request and response hashes are computed exactly like PayU does, so the
+ * plugin can run initiate → redirect → webhook → authorize → refund offline.
+ */
+
+import crypto from "crypto"
+import http from "http"
+import type { AddressInfo } from "net"
+import type { Logger } from "@medusajs/framework/types"
+
+/**
+ * Result the emulated checkout produces for a transaction
+ */
+export type PayuEmulatorOutcome =
+    | "success"
+    | "failure"
+    | "pending"
+    | "bounced"
+    | "dropped"
+    | "userCancelled"
+
+/**
+ * PayU Emulator Options
+ */
+export interface PayuEmulatorOptions {
+    /** Merchant key the emulator accepts */
+    merchantKey: string
+    /** Merchant salt used to verify and sign hashes */
+    merchantSalt: string
+    /**
+     * Salt version 2 - when set, checkout requests may send the JSON {"v1","v2"} hash
+     * and responses are signed with this salt
+     */
+    merchantSaltV2?: string
+    /** Port to listen on (default: random free port) */
+    port?: number
+    /** Host to bind to (default: 127.0.0.1) */
+    host?: string
+    /** URL PayU webhooks are sent to, e.g. http://localhost:9000/hooks/payment/payu_payu */
+    webhookUrl?: string
+    /** Outcome used when no per-transaction outcome is set (default: "success") */
+    defaultOutcome?: PayuEmulatorOutcome
+    logger?: Logger
+}
+
+/**
+ * Refund, capture or cancel request recorded by the emulator
+ */
+export interface PayuEmulatorAction {
+    request_id: string
+    mihpayid: string
+    txnid: string
+    action: "refund" | "capture" | "cancel"
+    token: string
+    amount: string
+    status: string
+}
+
+/**
+ * Transaction held by the emulator
+ */
+export interface PayuEmulatorTransaction {
+    txnid: string
+    mihpayid: string
+    status: string
+    unmappedstatus: string
+    amount: string
+    /** Convenience fee charged on top of amount ("" when none) */
+    additionalCharges: string
+    productinfo: string
+    firstname: string
+    email: string
+    phone: string
+    udf1: string
+    udf2: string
+    udf3: string
+    udf4: string
+    udf5: string
+    surl: string
+    furl: string
+    /** Cancel URL; furl receives cancelled payments when empty */
+    curl: string
+    addedon: string
+    /** Payment category (pg): CC, DC, NB or UPI */
+    mode: string
+    bankcode: string
+    bank_ref_num: string
+    error: string
+    error_Message: string
+    preAuthorize: boolean
+    actions: PayuEmulatorAction[]
+}
+
+/**
+ * Card stored in the emulator's card vault, shaped like a get_user_cards entry
+ */
+export interface PayuEmulatorCard {
+    card_token: string
+    card_name: string
+    name_on_card: string
+    card_no: string
+    card_mode: string
+    card_type: string
+    card_brand: string
+    card_bin: string
+    expiry_month: string
+    expiry_year: string
+    is_expired: number
+}
+
+/**
+ * Payment link (invoice) created with create_invoice
+ */
+export interface PayuEmulatorInvoice {
+    txnid: string
+    amount: string
+    productinfo: string
+    firstname: string
+    email: string
+    phone: string
+    url: string
+    expiresAt: Date
+    status: "active" | "paid" | "expired"
+}
+
+/**
+ * Mandate registered by a successful si=1 checkout
+ */
+export interface PayuEmulatorMandate {
+    /** mihpayid of the registration payment */
+    authPayuId: string
+    txnid: string
+    siDetails: Record<string, unknown>
+    status: "ACTIVE" | "REVOKED"
+    /** requestIds of the pre-debit notifications sent */
+    preDebitNotifications: string[]
+}
+
+/**
+ * PayU status / unmappedstatus / error reported for each outcome
+ */
+const OUTCOMES: Record<PayuEmulatorOutcome, { status: string; unmappedstatus: string; error: string; error_Message: string }> = {
+    success: { status: "success", unmappedstatus: "captured", error: "E000", error_Message: "No Error" },
+    failure: { status: "failure", unmappedstatus: "failed", error: "E308", error_Message: "Transaction declined by bank" },
+    pending: { status: "pending", unmappedstatus: "pending", error: "E000", error_Message: "No Error" },
+    bounced: { status: "failure", unmappedstatus: "bounced", error: "E1605", error_Message: "Customer left authentication" },
+    dropped: { status: "failure", unmappedstatus: "dropped", error: "E1606", error_Message: "Transaction dropped" },
+    userCancelled: { status: "failure", unmappedstatus: "userCancelled", error: "E1204", error_Message: "Transaction cancelled by user" },
+}
+
+/**
+ * EMI plans the emulator offers: bank → plan bankcode → terms
+ * Cardless plans have no card type
+ */
+const EMI_PLANS: Record<string, Record<string, { months: number; rate: number; cardType?: string; minAmount: number }>> = {
+    HDFC: {
+        EMI3: { months: 3, rate: 13, cardType: "CC", minAmount: 3000 },
+        EMI6: { months: 6, rate: 13, cardType: "CC", minAmount: 3000 },
+        EMI9: { months: 9, rate: 14, cardType: "CC", minAmount: 3000 },
+    },
+    AXIS: {
+        EMIAD3: { months: 3, rate: 15, cardType: "DC", minAmount: 5000 },
+        EMIAD6: { months: 6, rate: 15, cardType: "DC", minAmount: 5000 },
+    },
+    ZESTMON: {
+        ZESTMON3: { months: 3, rate: 0, minAmount: 1000 },
+    },
+}
+
+/**
+ * Card BINs the emulator treats as EMI eligible
+ */
+const EMI_BINS: Record<string, { bank: string; cardType: string }> = {
+    "512345": { bank: "HDFC", cardType: "CC" },
+    "401200": { bank: "AXIS", cardType: "DC" },
+}
+
+/**
+ * Card the emulated hosted page pays with, where the customer enters their card on PayU's page
+ */
+const HOSTED_PAGE_CARD = {
+    card_name: "Card",
+    card_mode: "CC",
+    card_type: "CC",
+    name_on_card: "PayU Emulator",
+    card_no: "5123456789012346",
+    expiry_month: "05",
+    expiry_year: "2031",
+}
+
+/**
+ * Parse a JSON object sent in var1, or undefined when it isn't one
+ */
+const parseJson = (value: string): Record<string, unknown> | undefined => {
+    try {
+        const parsed = JSON.parse(value)
+        return parsed && typeof parsed === "object" ? parsed as Record<string, unknown> : undefined
+    } catch {
+        return undefined
+    }
+}
+
+const sha512 = (value: string): string => crypto.createHash("sha512").update(value).digest("hex")
+
+/**
+ * Local PayU emulator for offline development and integration tests
+ */
+export class PayuEmulator {
+    private options: PayuEmulatorOptions
+    private logger?: Logger
+    private server?: http.Server
+    private transactions = new Map<string, PayuEmulatorTransaction>()
+    private outcomes = new Map<string, PayuEmulatorOutcome>()
+    private additionalCharges = new Map<string, string>()
+    /** Saved cards by user_credentials, then card token */
+    private cardVaults = new Map<string, Map<string, PayuEmulatorCard>>()
+    private invoices = new Map<string, PayuEmulatorInvoice>()
+    /** Mandates by authPayuId */
+    private mandates = new Map<string, PayuEmulatorMandate>()
+    private sequence = 0
+
+    constructor(options: PayuEmulatorOptions) {
+        this.options = options
+        this.logger = options.logger
+    }
+
+    /**
+     * Base URL to configure as the provider's `baseUrl`
+     */
+    get url(): string {
+        const address = this.server?.address() as AddressInfo | null | undefined
+        if (!address) {
+            throw new Error("PayU emulator is not running")
+        }
+        return `http://${this.options.host || "127.0.0.1"}:${address.port}`
+    }
+
+    /**
+     * Start listening; resolves with the base URL
+     */
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((error) => {
+                this.logger?.error?.(`PayU emulator error: ${error}`)
+                res.writeHead(500, { "Content-Type": "text/plain" })
+                res.end(String(error))
+            })
+        })
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once("error", reject)
+            this.server!.listen(this.options.port ?? 0, this.options.host || "127.0.0.1", resolve)
+        })
+
+        this.logger?.info?.(`PayU emulator listening on ${this.url}`)
+        return this.url
+    }
+
+    /**
+     * Stop listening
+     */
+    async stop(): Promise<void> {
+        const server = this.server
+        this.server = undefined
+        if (server) {
+            await new Promise<void>((resolve) => server.close(() => resolve()))
+        }
+    }
+
+    /**
+     * Set the URL webhooks are sent to (e.g. once the Medusa server port is known)
+     */
+    setWebhookUrl(webhookUrl: string | undefined): void {
+        this.options.webhookUrl = webhookUrl
+    }
+
+    /**
+     * Set the outcome of the checkout for a transaction
+     */
+    setOutcome(txnid: string, outcome: PayuEmulatorOutcome): void {
+        this.outcomes.set(txnid, outcome)
+    }
+
+    /**
+     * Charge a convenience fee on top of the amount of a transaction
+     */
+    setAdditionalCharges(txnid: string, additionalCharges: string): void {
+        this.additionalCharges.set(txnid, additionalCharges)
+    }
+
+    /**
+     * Get a transaction by txnid
+     */
+    getTransaction(txnid: string): PayuEmulatorTransaction | undefined {
+        return this.transactions.get(txnid)
+    }
+
+    /**
+     * Cards saved for user_credentials
+     */
+    getSavedCards(userCredentials: string): PayuEmulatorCard[] {
+        return [...(this.cardVaults.get(userCredentials)?.values() || [])]
+    }
+
+    /**
+     * Get a payment link by txnid
+     */
+    getInvoice(txnid: string): PayuEmulatorInvoice | undefined {
+        return this.invoices.get(txnid)
+    }
+
+    /**
+     * Get a mandate by the mihpayid of its registration payment
+     */
+    getMandate(authPayuId: string): PayuEmulatorMandate | undefined {
+        return this.mandates.get(authPayuId)
+    }
+
+    /**
+     * Forget all transactions, outcomes, additional charges, saved cards, payment links and mandates
+     */
+    reset(): void {
+        this.transactions.clear()
+        this.outcomes.clear()
+        this.additionalCharges.clear()
+        this.cardVaults.clear()
+        this.invoices.clear()
+        this.mandates.clear()
+    }
+
+    /**
+     * Build the signed callback/webhook payload PayU sends for a transaction
+     * `overrides` replace payload fields before signing (e.g. a refund or dispute status)
+     */
+    buildResponse(txnid: string, overrides: Record<string, string> = {}): Record<string, string> {
+        const txn = this.requireTransaction(txnid)
+        const payload: Record<string, string> = {
+            mihpayid: txn.mihpayid,
+            mode: txn.mode,
+            status: txn.status,
+            unmappedstatus: txn.unmappedstatus,
+            key: this.options.merchantKey,
+            txnid: txn.txnid,
+            amount: txn.amount,
+            addedon: txn.addedon,
+            productinfo: txn.productinfo,
+            firstname: txn.firstname,
+            email: txn.email,
+            phone: txn.phone,
+            udf1: txn.udf1,
+            udf2: txn.udf2,
+            udf3: txn.udf3,
+            udf4: txn.udf4,
+            udf5: txn.udf5,
+            error: txn.error,
+            error_Message: txn.error_Message,
+            bank_ref_num: txn.bank_ref_num,
+            bankcode: txn.bankcode,
+            ...(txn.additionalCharges && {
+                additionalCharges: txn.additionalCharges,
+                net_amount_debit: (parseFloat(txn.amount) + parseFloat(txn.additionalCharges)).toFixed(2),
+            }),
+            ...overrides,
+        }
+
+        // Reverse hash: sha512(SALT|status||||||udf5|udf4|udf3|udf2|udf1|email|firstname|productinfo|amount|txnid|key)
+        // prefixed with "additionalCharges|" when a convenience fee was charged
+        payload.hash = sha512(
+            (payload.additionalCharges ? `${payload.additionalCharges}|` : "") +
+            `${this.options.merchantSaltV2 || this.options.merchantSalt}|${payload.status}||||||${payload.udf5}|${payload.udf4}|${payload.udf3}|` +
+            `${payload.udf2}|${payload.udf1}|${payload.email}|${payload.firstname}|${payload.productinfo}|` +
+            `${payload.amount}|${payload.txnid}|${this.options.merchantKey}`
+        )
+
+        return payload
+    }
+
+    /**
+     * Send the webhook for a transaction to the configured webhook URL
+     * Resolves with the HTTP status, or undefined when no webhook URL is set
+     */
+    async sendWebhook(txnid: string, overrides: Record<string, string> = {}): Promise<number | undefined> {
+        if (!this.options.webhookUrl) {
+            return undefined
+        }
+
+        const response = await fetch(this.options.webhookUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams(this.buildResponse(txnid, overrides)),
+        })
+
+        this.logger?.info?.(`PayU emulator: webhook for ${txnid} → ${this.options.webhookUrl} (${response.status})`)
+        return response.status
+    }
+
+    /**
+     * Route a request
+     */
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const { pathname } = new URL(req.url || "/", "http://localhost")
+
+        if (req.method !== "POST") {
+            res.writeHead(405, { "Content-Type": "text/plain" })
+            res.end("Method Not Allowed")
+            return
+        }
+
+        const body = Object.fromEntries(new URLSearchParams(await this.readBody(req)).entries())
+
+        if (pathname === "/_payment") {
+            return this.handlePayment(body, res)
+        }
+
+        if (pathname === "/merchant/postservice.php") {
+            return this.sendJson(res, this.handlePostService(body))
+        }
+
+        res.writeHead(404, { "Content-Type": "text/plain" })
+        res.end("Not Found")
+    }
+
+    /**
+     * Hosted and seamless checkout: validate the request hash, settle the transaction with
+     * its outcome, send the webhook and return the auto-submit form to surl/furl/curl
+     * S2S UPI requests (txn_s2s_flow=4) get the JSON answer and stay pending
+     */
+    private async handlePayment(body: Record<string, string>, res: http.ServerResponse): Promise<void> {
+        const field = (name: string) => body[name] || ""
+
+        // Request hash: sha512(key|txnid|amount|productinfo|firstname|email|udf1|udf2|udf3|udf4|udf5||||||SALT)
+        // Mandate registrations sign si_details before the salt
+        const requestHash = (salt: string) => sha512(
+            `${field("key")}|${field("txnid")}|${field("amount")}|${field("productinfo")}|${field("firstname")}|` +
+            `${field("email")}|${field("udf1")}|${field("udf2")}|${field("udf3")}|${field("udf4")}|${field("udf5")}` +
+            `||||||${field("si_details") ? `${field("si_details")}|` : ""}${salt}`
+        )
+
+        if (field("key") !== this.options.merchantKey || !this.isValidRequestHash(field("hash"), requestHash)) {
+            res.writeHead(400, { "Content-Type": "text/html" })
+            res.end("<p>Error Reason: Transaction failed due to incorrectly calculated hash parameter.</p>")
+            return
+        }
+
+        // Saved cards only pay for the customer they were stored for
+        if (field("store_card_token") && !this.cardVaults.get(field("user_credentials"))?.has(field("store_card_token"))) {
+            res.writeHead(400, { "Content-Type": "text/html" })
+            res.end("<p>Error Reason: Invalid store card token.</p>")
+            return
+        }
+
+        const txnid = field("txnid")
+        const s2s = field("txn_s2s_flow") === "4"
+        if (s2s && (field("pg") !== "UPI" || !field("s2s_client_ip") || !field("s2s_device_info"))) {
+            return this.sendJson(res, {
+                metaData: { txnId: txnid, txnStatus: "failure", message: "S2S flow needs pg=UPI, s2s_client_ip and s2s_device_info" },
+                result: null,
+            })
+        }
+
+        const txn: PayuEmulatorTransaction = {
+            txnid,
+            mihpayid: this.nextId(),
+            status: "pending",
+            unmappedstatus: "pending",
+            amount: field("amount"),
+            additionalCharges: this.additionalCharges.get(txnid) || "",
+            productinfo: field("productinfo"),
+            firstname: field("firstname"),
+            email: field("email"),
+            phone: field("phone"),
+            udf1: field("udf1"),
+            udf2: field("udf2"),
+            udf3: field("udf3"),
+            udf4: field("udf4"),
+            udf5: field("udf5"),
+            surl: field("surl"),
+            furl: field("furl"),
+            curl: field("curl"),
+            addedon: new Date().toISOString().replace("T", " ").substring(0, 19),
+            mode: field("pg") || "CC",
+            bankcode: field("bankcode") || "CC",
+            bank_ref_num: "",
+            error: OUTCOMES.pending.error,
+            error_Message: OUTCOMES.pending.error_Message,
+            preAuthorize: field("pre_authorize") === "1",
+            actions: [],
+        }
+        this.transactions.set(txnid, txn)
+
+        if (s2s) {
+            this.logger?.info?.(`PayU emulator: ${txnid} UPI ${txn.bankcode === "INTENT" ? "intent" : "collect"} awaiting approval`)
+            return this.sendJson(res, {
+                metaData: { txnId: txnid, referenceId: txn.mihpayid, txnStatus: "pending", unmappedStatus: "pending", statusCode: null, message: null },
+                result: {
+                    paymentId: txn.mihpayid,
+                    merchantName: "PayU Emulator",
+                    merchantVpa: "emulator@payu",
+                    amount: txn.amount,
+                    ...(txn.bankcode === "INTENT" && {
+                        intentURIData: `pa=emulator@payu&pn=PayU%20Emulator&tr=${txn.mihpayid}&am=${txn.amount}&cu=INR&tn=${encodeURIComponent(txn.productinfo)}`,
+                    }),
+                },
+            })
+        }
+
+        await this.settle(txn)
+
+        if (txn.status === "success" && field("si") === "1" && field("si_details")) {
+            this.mandates.set(txn.mihpayid, {
+                authPayuId: txn.mihpayid,
+                txnid,
+                siDetails: JSON.parse(field("si_details")) as Record<string, unknown>,
+                status: "ACTIVE",
+                preDebitNotifications: [],
+            })
+        }
+
+        // Seamless checkouts post the card fields; hosted checkouts save the card entered on the page
+        if (txn.status === "success" && field("store_card") === "1" && field("user_credentials")) {
+            this.saveCard(field("user_credentials"), field("ccnum")
+                ? {
+                    card_name: field("ccname") || "Card",
+                    card_mode: txn.mode,
+                    card_type: txn.bankcode,
+                    name_on_card: field("ccname"),
+                    card_no: field("ccnum"),
+                    expiry_month: field("ccexpmon"),
+                    expiry_year: field("ccexpyr"),
+                }
+                : HOSTED_PAGE_CARD)
+        }
+
+        const payload = this.buildResponse(txnid)
+        const target = txn.status === "success"
+            ? txn.surl
+            : (txn.unmappedstatus === "userCancelled" && txn.curl) || txn.furl
+        const inputs = Object.entries(payload)
+            .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}" />`)
+            .join("")
+
+        res.writeHead(200, { "Content-Type": "text/html" })
+        res.end(
+            `<html><body onload="document.forms[0].submit()">` +
+            `<form method="post" action="${escapeHtml(target)}">${inputs}</form>` +
+            `</body></html>`
+        )
+    }
+
+    /**
+     * Complete a pending UPI payment started server-to-server, as if the customer
+     * approved it in their UPI app: settles it with its outcome and sends the webhook
+     */
+    async completeUpiPayment(txnid: string): Promise<PayuEmulatorTransaction> {
+        const txn = this.requireTransaction(txnid)
+        if (txn.mode !== "UPI" || txn.status !== "pending") {
+            throw new Error(`PayU emulator: ${txnid} is not a pending UPI payment`)
+        }
+
+        await this.settle(txn)
+        return txn
+    }
+
+    /**
+     * Pay a payment link as the customer would from the emailed link: settles the
+     * invoice's transaction with its outcome and sends the webhook
+     */
+    async payInvoice(txnid: string, mode = "UPI"): Promise<PayuEmulatorTransaction> {
+        const invoice = this.invoices.get(txnid)
+        if (!invoice || invoice.status !== "active" || invoice.expiresAt.getTime() <= Date.now()) {
+            throw new Error(`PayU emulator: ${txnid} is not an active payment link`)
+        }
+
+        const txn: PayuEmulatorTransaction = {
+            txnid,
+            mihpayid: this.nextId(),
+            status: "pending",
+            unmappedstatus: "pending",
+            amount: invoice.amount,
+            additionalCharges: this.additionalCharges.get(txnid) || "",
+            productinfo: invoice.productinfo,
+            firstname: invoice.firstname,
+            email: invoice.email,
+            phone: invoice.phone,
+            udf1: "",
+            udf2: "",
+            udf3: "",
+            udf4: "",
+            udf5: "",
+            surl: "",
+            furl: "",
+            curl: "",
+            addedon: new Date().toISOString().replace("T", " ").substring(0, 19),
+            mode,
+            bankcode: mode,
+            bank_ref_num: "",
+            error: OUTCOMES.pending.error,
+            error_Message: OUTCOMES.pending.error_Message,
+            preAuthorize: false,
+            actions: [],
+        }
+        this.transactions.set(txnid, txn)
+
+        await this.settle(txn)
+        if (txn.status === "success") {
+            invoice.status = "paid"
+        }
+        return txn
+    }
+
+    /**
+     * Settle a transaction with its configured outcome and send the webhook
+     */
+    private async settle(txn: PayuEmulatorTransaction): Promise<void> {
+        const outcome = this.outcomes.get(txn.txnid) || this.options.defaultOutcome || "success"
+        const result = OUTCOMES[outcome]
+
+        txn.status = result.status
+        // Pre-authorized payments are held, not captured
+        txn.unmappedstatus = outcome === "success" && txn.preAuthorize ? "auth" : result.unmappedstatus
+        txn.bank_ref_num = outcome === "success" ? this.nextId() : ""
+        txn.error = result.error
+        txn.error_Message = result.error_Message
+
+        this.logger?.info?.(`PayU emulator: ${txn.txnid} settled as ${txn.status}/${txn.unmappedstatus}`)
+
+        try {
+            await this.sendWebhook(txn.txnid)
+        } catch (error) {
+            this.logger?.warn?.(`PayU emulator: webhook for ${txn.txnid} failed: ${error}`)
+        }
+    }
+
+    /**
+     * Check a checkout request hash
+     * Accepts the single v1 hash, or the salt version 2 JSON {"v1","v2"} hash
+     * when merchantSaltV2 is configured
+     */
+    private isValidRequestHash(hash: string, requestHash: (salt: string) => string): boolean {
+        if (!hash.trim().startsWith("{")) {
+            return hash.toLowerCase() === requestHash(this.options.merchantSalt)
+        }
+
+        if (!this.options.merchantSaltV2) {
+            return false
+        }
+
+        try {
+            const { v1, v2 } = JSON.parse(hash) as { v1?: string, v2?: string }
+            return v1?.toLowerCase() === requestHash(this.options.merchantSalt)
+                && v2?.toLowerCase() === requestHash(this.options.merchantSaltV2)
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Merchant API: validate the command hash and run the command
+     */
+    private handlePostService(body: Record<string, string>): Record<string, unknown> {
+        const { key = "", command = "", var1 = "", hash = "" } = body
+
+        // Command hash: sha512(key|command|var1|SALT)
+        const expectedHash = sha512(`${key}|${command}|${var1}|${this.options.merchantSalt}`)
+        if (key !== this.options.merchantKey || hash.toLowerCase() !== expectedHash) {
+            return { status: 0, msg: "Invalid Hash." }
+        }
+
+        switch (command) {
+            case "verify_payment":
+                return this.verifyPayment(var1)
+            case "cancel_refund_transaction":
+                return this.createAction("refund", var1, body.var2, body.var3)
+            case "capture_transaction":
+                return this.createAction("capture", var1, body.var2, body.var3)
+            case "cancel_transaction":
+                return this.createAction("cancel", var1, body.var2, body.var3)
+            case "check_action_status":
+                return this.checkActionStatus(var1)
+            case "get_user_cards":
+                return this.getUserCards(var1)
+            case "getEmiAmountAccordingToInterest":
+                return this.getEmiAmounts(var1)
+            case "eligibleBinsForEMI": {
+                const eligible = var1 === "bin" ? EMI_BINS[body.var2 || ""] : undefined
+                return eligible
+                    ? { status: 1, msg: "Eligible", details: { isEligible: true, bank: eligible.bank, cardType: eligible.cardType, minAmount: 3000 } }
+                    : { status: 1, msg: "Not eligible", details: { isEligible: false } }
+            }
+            case "create_invoice":
+                return this.createInvoice(var1)
+            case "expire_invoice": {
+                const invoice = this.invoices.get(var1)
+                if (!invoice || invoice.status !== "active") {
+                    return { status: 0, msg: "Invoice not found or not active" }
+                }
+                invoice.status = "expired"
+                return { status: 1, msg: `Invoice ${var1} expired` }
+            }
+            case "si_transaction":
+                return this.debitMandate(var1)
+            case "pre_debit_SI":
+            case "check_mandate_status":
+            case "mandate_revoke":
+                return this.handleMandateCommand(command, var1)
+            case "delete_user_card":
+                return this.cardVaults.get(var1)?.delete(body.var2 || "")
+                    ? { status: 1, msg: `${body.var2} deleted successfully` }
+                    : { status: 0, msg: "Card not found." }
+            default:
+                return { status: 0, msg: `Command ${command} is not supported by the PayU emulator` }
+        }
+    }
+
+    /**
+     * si_transaction: debit a mandate; settles the debit with its outcome right away
+     * PayU doesn't send the webhook for these server-side debits here
+     */
+    private debitMandate(var1: string): Record<string, unknown> {
+        const request = parseJson(var1)
+        const mandate = this.mandates.get(String(request?.authpayuid || ""))
+        const txnid = String(request?.txnid || "")
+        if (!request || !mandate || !txnid) {
+            return { status: 0, message: "Invalid authpayuid or txnid" }
+        }
+        if (mandate.status !== "ACTIVE") {
+            return { status: 0, message: "Mandate is not active" }
+        }
+        if (this.transactions.has(txnid)) {
+            return { status: 0, message: "Duplicate transaction id" }
+        }
+
+        const amount = parseFloat(String(request.amount))
+        const limit = parseFloat(String(mandate.siDetails.billingAmount))
+        if (isNaN(amount) || amount <= 0 || amount > limit) {
+            return { status: 0, message: `Amount exceeds the mandate limit of ${mandate.siDetails.billingAmount}` }
+        }
+
+        const outcome = this.outcomes.get(txnid) || this.options.defaultOutcome || "success"
+        const result = OUTCOMES[outcome]
+        const registration = this.requireTransaction(mandate.txnid)
+        const txn: PayuEmulatorTransaction = {
+            ...registration,
+            txnid,
+            mihpayid: this.nextId(),
+            status: result.status,
+            unmappedstatus: result.unmappedstatus,
+            amount: amount.toFixed(2),
+            additionalCharges: "",
+            email: String(request.email || registration.email),
+            phone: String(request.phone || registration.phone),
+            addedon: new Date().toISOString().replace("T", " ").substring(0, 19),
+            bank_ref_num: outcome === "success" ? this.nextId() : "",
+            error: result.error,
+            error_Message: result.error_Message,
+            preAuthorize: false,
+            actions: [],
+        }
+        this.transactions.set(txnid, txn)
+
+        this.logger?.info?.(`PayU emulator: mandate ${mandate.authPayuId} debited as ${txnid} (${txn.unmappedstatus})`)
+        return {
+            status: 1,
+            message: "Transaction processed",
+            details: {
+                [txnid]: {
+                    transactionId: txnid,
+                    payuId: txn.mihpayid,
+                    status: txn.unmappedstatus,
+                    amount: txn.amount,
+                    field9: txn.error_Message,
+                },
+            },
+        }
+    }
+
+    /**
+     * pre_debit_SI, check_mandate_status and mandate_revoke: var1 holds JSON with the authPayuId
+     */
+    private handleMandateCommand(command: string, var1: string): Record<string, unknown> {
+        const request = parseJson(var1)
+        const mandate = this.mandates.get(String(request?.authPayuId || ""))
+        if (!request || !mandate) {
+            return { status: 0, message: "Mandate not found" }
+        }
+
+        switch (command) {
+            case "pre_debit_SI":
+                if (mandate.status !== "ACTIVE") {
+                    return { status: 0, message: "Mandate is not active" }
+                }
+                mandate.preDebitNotifications.push(String(request.requestId || ""))
+                return { status: 1, message: "Pre-debit notification sent", invoiceId: this.nextId(), invoiceStatus: "sent" }
+            case "mandate_revoke":
+                if (mandate.status !== "ACTIVE") {
+                    return { status: 0, message: "Mandate is not active" }
+                }
+                mandate.status = "REVOKED"
+                return { status: 1, message: "Mandate revoked successfully" }
+            default:
+                return {
+                    status: 1,
+                    message: "Mandate found",
+                    details: {
+                        authPayuId: mandate.authPayuId,
+                        status: mandate.status,
+                        amount: mandate.siDetails.billingAmount,
+                        billingCycle: mandate.siDetails.billingCycle,
+                        mandateStartDate: mandate.siDetails.paymentStartDate,
+                        mandateEndDate: mandate.siDetails.paymentEndDate,
+                    },
+                }
+        }
+    }
+
+    /**
+     * create_invoice: var1 holds the invoice JSON
+     */
+    private createInvoice(var1: string): Record<string, unknown> {
+        const request = parseJson(var1)
+        if (!request) {
+            return { status: 0, msg: "Invalid invoice details" }
+        }
+
+        const txnid = String(request.txnid || "")
+        if (!txnid || !request.amount || !request.email) {
+            return { status: 0, msg: "txnid, amount and email are mandatory" }
+        }
+        if (this.invoices.has(txnid) || this.transactions.has(txnid)) {
+            return { status: 0, msg: "Duplicate transaction id" }
+        }
+
+        const hours = Number(request.validation_period || 24) * (request.time_unit === "D" ? 24 : 1)
+        const invoice: PayuEmulatorInvoice = {
+            txnid,
+            amount: String(request.amount),
+            productinfo: String(request.productinfo || ""),
+            firstname: String(request.firstname || ""),
+            email: String(request.email),
+            phone: String(request.phone || ""),
+            url: `${this.url}/invoice/${txnid}`,
+            expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000),
+            status: "active",
+        }
+        this.invoices.set(txnid, invoice)
+
+        this.logger?.info?.(`PayU emulator: payment link for ${txnid} created (${invoice.url})`)
+        return {
+            "Transaction Id": txnid,
+            "Email Id": invoice.email,
+            Phone: invoice.phone,
+            Status: "Success",
+            URL: invoice.url,
+        }
+    }
+
+    /**
+     * verify_payment: var1 holds one or more pipe-separated txnids
+     */
+    private verifyPayment(var1: string): Record<string, unknown> {
+        const txnids = var1.split("|").filter(Boolean)
+        const details: Record<string, unknown> = {}
+        let found = 0
+
+        for (const txnid of txnids) {
+            const txn = this.transactions.get(txnid)
+            if (!txn) {
+                details[txnid] = { mihpayid: "Not Found", status: "Not Found" }
+                continue
+            }
+
+            found++
+            details[txnid] = {
+                mihpayid: txn.mihpayid,
+                request_id: "",
+                bank_ref_num: txn.bank_ref_num,
+                amt: txn.amount,
+                transaction_amount: txn.amount,
+                txnid: txn.txnid,
+                additional_charges: txn.additionalCharges || "0.00",
+                net_amount_debit: (parseFloat(txn.amount) + parseFloat(txn.additionalCharges || "0")).toFixed(2),
+                productinfo: txn.productinfo,
+                firstname: txn.firstname,
+                bankcode: txn.bankcode,
+                udf1: txn.udf1,
+                udf2: txn.udf2,
+                udf3: txn.udf3,
+                udf4: txn.udf4,
+                udf5: txn.udf5,
+                field9: txn.error_Message,
+                error_code: txn.error,
+                error_Message: txn.error_Message,
+                addedon: txn.addedon,
+                payment_source: "payu",
+                card_type: "VISA",
+                mode: txn.mode,
+                status: txn.status,
+                unmappedstatus: txn.unmappedstatus,
+            }
+        }
+
+        return {
+            status: found ? 1 : 0,
+            msg: `${found} out of ${txnids.length} Transactions Fetched Successfully`,
+            transaction_details: details,
+        }
+    }
+
+    /**
+     * getEmiAmountAccordingToInterest: var1 = amount
+     * Installments use the standard reducing-balance EMI formula
+     */
+    private getEmiAmounts(var1: string): Record<string, unknown> {
+        const amount = parseFloat(var1)
+        if (isNaN(amount) || amount <= 0) {
+            return { status: 0, msg: "Invalid amount" }
+        }
+
+        const banks: Record<string, Record<string, unknown>> = {}
+        for (const [bank, plans] of Object.entries(EMI_PLANS)) {
+            for (const [bankcode, plan] of Object.entries(plans)) {
+                if (amount < plan.minAmount) {
+                    continue
+                }
+
+                const monthlyRate = plan.rate / 12 / 100
+                const installment = monthlyRate
+                    ? amount * monthlyRate * (1 + monthlyRate) ** plan.months / ((1 + monthlyRate) ** plan.months - 1)
+                    : amount / plan.months
+                const payback = installment * plan.months
+
+                banks[bank] = {
+                    ...banks[bank],
+                    [bankcode]: {
+                        emiBankInterest: String(plan.rate),
+                        bankCharge: 0,
+                        amount: installment.toFixed(2),
+                        ...(plan.cardType && { card_type: plan.cardType }),
+                        emi_value: Number(installment.toFixed(2)),
+                        emi_interest_paid: Number((payback - amount).toFixed(2)),
+                        transactionAmount: amount,
+                        loanAmount: amount,
+                        tenure: `${plan.months} months`,
+                        paybackAmount: Number(payback.toFixed(2)),
+                    },
+                }
+            }
+        }
+
+        return banks
+    }
+
+    /**
+     * get_user_cards: var1 = user_credentials
+     */
+    private getUserCards(userCredentials: string): Record<string, unknown> {
+        const cards = this.getSavedCards(userCredentials)
+        if (!cards.length) {
+            return { status: 0, msg: "Card not found." }
+        }
+
+        return {
+            status: 1,
+            msg: "Cards fetched Succesfully",
+            user_cards: Object.fromEntries(cards.map((card) => [card.card_token, card])),
+        }
+    }
+
+    /**
+     * Store a card in the vault of user_credentials, keeping only the masked number
+     */
+    private saveCard(
+        userCredentials: string,
+        card: Pick<PayuEmulatorCard, "card_name" | "card_mode" | "card_type" | "name_on_card" | "expiry_month" | "expiry_year"> & { card_no: string }
+    ): PayuEmulatorCard {
+        const digits = card.card_no.replace(/\D/g, "")
+        const expiry = new Date(Number(card.expiry_year), Number(card.expiry_month))
+        const stored: PayuEmulatorCard = {
+            ...card,
+            card_token: crypto.randomBytes(16).toString("hex"),
+            card_no: `${digits.slice(0, 6)}${"X".repeat(Math.max(digits.length - 10, 0))}${digits.slice(-4)}`,
+            card_brand: card.card_type,
+            card_bin: digits.slice(0, 6),
+            is_expired: expiry.getTime() < Date.now() ? 1 : 0,
+        }
+
+        const vault = this.cardVaults.get(userCredentials) || new Map<string, PayuEmulatorCard>()
+        vault.set(stored.card_token, stored)
+        this.cardVaults.set(userCredentials, vault)
+        return stored
+    }
+
+    /**
+     * cancel_refund_transaction / capture_transaction / cancel_transaction
+     * var1 = mihpayid, var2 = merchant token id, var3 = amount
+     */
+    private createAction(
+        action: PayuEmulatorAction["action"],
+        mihpayid: string,
+        token = "",
+        amount = ""
+    ): Record<string, unknown> {
+        const txn = [...this.transactions.values()].find((candidate) => candidate.mihpayid === mihpayid)
+        if (!txn) {
+            return { status: 0, msg: "Invalid payuid", error_code: 105 }
+        }
+
+        const value = parseFloat(amount)
+        if (!token || isNaN(value) || value <= 0) {
+            return { status: 0, msg: "Invalid token or amount", mihpayid }
+        }
+
+        if (action === "refund") {
+            if (txn.status !== "success" || txn.unmappedstatus === "auth") {
+                return { status: 0, msg: "Transaction is not captured", mihpayid }
+            }
+
+            const refunded = txn.actions
+                .filter((entry) => entry.action === "refund")
+                .reduce((sum, entry) => sum + parseFloat(entry.amount), 0)
+            const captured = parseFloat(
+                txn.actions.find((entry) => entry.action === "capture")?.amount ?? txn.amount
+            )
+
+            if (value + refunded > captured + 0.001) {
+                return { status: 0, msg: "Refund amount is greater than the transaction amount", mihpayid }
+            }
+        } else if (txn.unmappedstatus !== "auth") {
+            return { status: 0, msg: "Transaction is not in authorized state", mihpayid }
+        }
+
+        if (txn.actions.some((entry) => entry.token === token)) {
+            return { status: 0, msg: "Token already used", mihpayid }
+        }
+
+        const entry: PayuEmulatorAction = {
+            request_id: this.nextId(),
+            mihpayid,
+            txnid: txn.txnid,
+            action,
+            token,
+            amount: value.toFixed(2),
+            status: "success",
+        }
+        txn.actions.push(entry)
+
+        if (action === "capture") {
+            txn.unmappedstatus = "captured"
+        } else if (action === "cancel") {
+            txn.status = "failure"
+            txn.unmappedstatus = "userCancelled"
+        }
+
+        const messages = {
+            refund: "Refund Request Queued",
+            capture: "Capture Request Queued",
+            cancel: "Cancel Request Queued",
+        }
+
+        return {
+            status: 1,
+            msg: messages[action],
+            request_id: entry.request_id,
+            bank_ref_num: txn.bank_ref_num,
+            mihpayid,
+        }
+    }
+
+    /**
+     * check_action_status: var1 = request_id
+     */
+    private checkActionStatus(requestId: string): Record<string, unknown> {
+        for (const txn of this.transactions.values()) {
+            const entry = txn.actions.find((candidate) => candidate.request_id === requestId)
+            if (entry) {
+                return {
+                    status: 1,
+                    msg: "1 out of 1 Transactions Fetched Successfully",
+                    transaction_details: {
+                        [requestId]: {
+                            [entry.mihpayid]: {
+                                mihpayid: entry.mihpayid,
+                                request_id: entry.request_id,
+                                txnid: entry.txnid,
+                                action: entry.action,
+                                amount: entry.amount,
+                                status: entry.status,
+                                token: entry.token,
+                                bank_ref_num: txn.bank_ref_num,
+                            },
+                        },
+                    },
+                }
+            }
+        }
+
+        return { status: 0, msg: "0 out of 1 Transactions Fetched Successfully" }
+    }
+
+    /**
+     * Look up a transaction or throw
+     */
+    private requireTransaction(txnid: string): PayuEmulatorTransaction {
+        const txn = this.transactions.get(txnid)
+        if (!txn) {
+            throw new Error(`PayU emulator: unknown transaction ${txnid}`)
+        }
+        return txn
+    }
+
+    /**
+     * Numeric id in the style of PayU's mihpayid / request_id
+     */
+    private nextId(): string {
+        this.sequence++
+        return `${Date.now()}${String(this.sequence).padStart(4, "0")}`
+    }
+
+    /**
+     * Read the raw request body
+     */
+    private async readBody(req: http.IncomingMessage): Promise<string> {
+        const chunks: Buffer[] = []
+        for await (const chunk of req) {
+            chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+        }
+        return Buffer.concat(chunks).toString("utf8")
+    }
+
+    /**
+     * Write a JSON response
+     */
+    private sendJson(res: http.ServerResponse, body: Record<string, unknown>): void {
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(body))
+    }
+}
+
+/**
+ * Escape a value for an HTML attribute
+ */
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+}
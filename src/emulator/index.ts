@@ -0,0 +1,12 @@
+/**
+ * PayU Emulator
+ * Local stand-in for PayU used in development and integration tests
+ */
+
+export { PayuEmulator } from "./emulator"
+export type {
+    PayuEmulatorOptions,
+    PayuEmulatorOutcome,
+    PayuEmulatorTransaction,
+    PayuEmulatorAction,
+} from "./emulator"
@@ -0,0 +1,56 @@
+/**
+ * Reconcile PayU Pending Payments Job
+ *
+ * Recovers payments whose webhook was lost: verifies stale pending PayU sessions,
+ * authorizes the paid ones (completing their cart) and fails the rest.
+ *
+ * Age threshold: the provider's pendingPaymentMaxAgeMinutes option, then
+ * PAYU_PENDING_PAYMENT_MAX_AGE_MINUTES (default: 30). Sessions older than
+ * pendingPaymentLookbackDays (default: 7) are no longer checked.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, PaymentActions } from "@medusajs/framework/utils"
+import { processPaymentWorkflow } from "@medusajs/medusa/core-flows"
+import { reconcilePayuPendingPaymentsWorkflow } from "../workflows/reconcile-payu-pending-payments"
+import { resolvePayuProviderConfig } from "../workflows/utils"
+
+export default async function reconcilePayuPendingPaymentsJob(container: MedusaContainer) {
+    const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+    const config = resolvePayuProviderConfig(container)
+    const olderThanMinutes = config?.pendingPaymentMaxAgeMinutes
+        ?? (parseInt(process.env.PAYU_PENDING_PAYMENT_MAX_AGE_MINUTES || "", 10) || 30)
+
+    const { result } = await reconcilePayuPendingPaymentsWorkflow(container).run({
+        input: { olderThanMinutes, lookbackDays: config?.pendingPaymentLookbackDays },
+    })
+
+    for (const session of result.paid) {
+        try {
+            await processPaymentWorkflow(container).run({
+                input: {
+                    action: PaymentActions.AUTHORIZED,
+                    data: {
+                        session_id: session.session_id,
+                        amount: session.amount,
+                    },
+                },
+            })
+            logger.info(`PayU pending session ${session.session_id} (txnid=${session.txnid}) authorized`)
+        } catch (error) {
+            logger.error(`PayU pending session ${session.session_id} authorization failed: ${error}`)
+        }
+    }
+
+    if (result.checked) {
+        logger.info(
+            `PayU pending payment reconciliation: checked=${result.checked}, paid=${result.paid.length}, ` +
+            `failed=${result.failed.length} (expired=${result.expired.length}), pending=${result.pending.length}`
+        )
+    }
+}
+
+export const config = {
+    name: "reconcile-payu-pending-payments",
+    schedule: "*/15 * * * *",
+}
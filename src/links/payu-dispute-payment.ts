@@ -0,0 +1,19 @@
+/**
+ * Read-only link from a PayU dispute to the disputed Medusa payment
+ * Uses the dispute's payment_id column, so no link table is created
+ */
+
+import { defineLink } from "@medusajs/framework/utils"
+import PaymentModule from "@medusajs/medusa/payment"
+import PayuModule from "../modules/payu"
+
+export default defineLink(
+    {
+        linkable: PayuModule.linkable.payuDispute,
+        field: "payment_id",
+    },
+    PaymentModule.linkable.payment,
+    {
+        readOnly: true,
+    }
+)
@@ -0,0 +1,101 @@
+import PayuModuleService, { type RecordPayuWebhookEventInput } from "../service"
+
+type WebhookEventRow = Record<string, any>
+
+/**
+ * Module service over an in-memory webhook log
+ * Every call yields to the event loop, so concurrent deliveries interleave like database calls;
+ * creating a second row with the same (dedup_key, dedup_attempt) fails like the unique index
+ */
+function createService() {
+    const service = new PayuModuleService({})
+    const rows: WebhookEventRow[] = []
+    const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+    Object.assign(service, {
+        listPayuWebhookEvents: async (filters: WebhookEventRow, config?: { take?: number }) => {
+            await tick()
+            return rows
+                .filter((row) => Object.entries(filters).every(([key, value]) => row[key] === value))
+                .sort((a, b) => b.dedup_attempt - a.dedup_attempt)
+                .slice(0, config?.take)
+        },
+        createPayuWebhookEvents: async (data: WebhookEventRow) => {
+            await tick()
+            const row: WebhookEventRow = { id: `payuwh_${rows.length + 1}`, duplicate: false, dedup_attempt: 0, lock_expires_at: null, ...data }
+            if (row.dedup_key && rows.some((r) => r.dedup_key === row.dedup_key && r.dedup_attempt === row.dedup_attempt)) {
+                throw new Error("duplicate key value violates unique constraint")
+            }
+            rows.push(row)
+            return row
+        },
+    })
+
+    return { service, rows }
+}
+
+const delivery: RecordPayuWebhookEventInput = {
+    txnid: "txn_1",
+    mihpayid: "403993715500000001",
+    status: "success",
+    payload: { txnid: "txn_1" },
+    hash_verified: true,
+    action: "authorized",
+    dedup_key: "txn_1|403993715500000001|success",
+}
+
+describe("PayuModuleService.recordWebhookEvent", () => {
+    it("admits exactly one of two concurrent deliveries of the same event", async () => {
+        const { service, rows } = createService()
+
+        const results = await Promise.all([
+            service.recordWebhookEvent({ ...delivery, retryable: true }),
+            service.recordWebhookEvent({ ...delivery, retryable: true }),
+        ])
+
+        expect(results.map((result) => result.duplicate).sort()).toEqual([false, true])
+        expect(rows.filter((row) => row.dedup_key)).toEqual([
+            expect.objectContaining({ action: "authorized", dedup_attempt: 0, lock_expires_at: expect.any(Date) }),
+        ])
+        expect(rows.find((row) => row.duplicate)).toMatchObject({ action: "not_supported", dedup_key: null })
+    })
+
+    it("drops repeats while the first delivery may still be processing", async () => {
+        const { service } = createService()
+        await service.recordWebhookEvent(delivery)
+
+        const results = await Promise.all([
+            service.recordWebhookEvent({ ...delivery, retryable: true }),
+            service.recordWebhookEvent({ ...delivery, retryable: true }),
+        ])
+
+        expect(results.map((result) => result.duplicate)).toEqual([true, true])
+    })
+
+    it.each([
+        ["an unprocessed action", true, [false, true]],
+        ["a processed action", false, [true, true]],
+    ])("after the lock expired, admits at most one repeat of %s", async (_, retryable, duplicates) => {
+        const { service, rows } = createService()
+        await service.recordWebhookEvent(delivery)
+        rows[0].lock_expires_at = new Date(Date.now() - 1000)
+
+        const results = await Promise.all([
+            service.recordWebhookEvent({ ...delivery, retryable }),
+            service.recordWebhookEvent({ ...delivery, retryable }),
+        ])
+
+        expect(results.map((result) => result.duplicate).sort()).toEqual(duplicates)
+        expect(rows.filter((row) => row.dedup_key).map((row) => row.dedup_attempt)).toEqual(retryable ? [0, 1] : [0])
+    })
+
+    it("never deduplicates replays", async () => {
+        const { service, rows } = createService()
+        await service.recordWebhookEvent(delivery)
+
+        const { duplicate } = await service.recordWebhookEvent({ ...delivery, replay_of: rows[0].id })
+
+        expect(duplicate).toBe(false)
+        expect(rows[1]).toMatchObject({ action: "authorized", dedup_key: null, replay_of: rows[0].id })
+    })
+})
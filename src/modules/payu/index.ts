@@ -0,0 +1,17 @@
+/**
+ * PayU Module
+ *
+ * Stores disputes, webhook events, mandates and other PayU records. Register it in medusa-config.ts:
+ * modules: [{ resolve: "medusa-payu-payment-plugin/modules/payu" }]
+ */
+
+import { Module } from "@medusajs/framework/utils"
+import PayuModuleService from "./service"
+
+export const PAYU_MODULE = "payu"
+
+export default Module(PAYU_MODULE, {
+    service: PayuModuleService,
+})
+
+export { PayuModuleService }
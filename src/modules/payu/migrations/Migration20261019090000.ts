@@ -0,0 +1,15 @@
+import { Migration } from "@medusajs/framework/mikro-orm/migrations"
+
+export class Migration20261019090000 extends Migration {
+    override async up(): Promise<void> {
+        this.addSql(`create table if not exists "payu_dispute" ("id" text not null, "payment_id" text null, "txnid" text not null, "mihpayid" text null, "dispute_id" text null, "type" text check ("type" in ('dispute', 'chargeback')) not null default 'dispute', "status" text check ("status" in ('open', 'won', 'lost', 'closed')) not null default 'open', "amount" numeric not null, "raw_amount" jsonb not null, "currency_code" text not null default 'inr', "reason" text null, "deadline" timestamptz null, "raw_payload" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "payu_dispute_pkey" primary key ("id"));`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_dispute_deleted_at" ON "payu_dispute" ("deleted_at") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_dispute_txnid" ON "payu_dispute" ("txnid") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_dispute_payment_id" ON "payu_dispute" ("payment_id") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_dispute_status" ON "payu_dispute" ("status") WHERE deleted_at IS NULL;`)
+    }
+
+    override async down(): Promise<void> {
+        this.addSql(`drop table if exists "payu_dispute" cascade;`)
+    }
+}
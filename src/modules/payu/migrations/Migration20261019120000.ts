@@ -0,0 +1,14 @@
+import { Migration } from "@medusajs/framework/mikro-orm/migrations"
+
+export class Migration20261019120000 extends Migration {
+    override async up(): Promise<void> {
+        this.addSql(`create table if not exists "payu_webhook_event" ("id" text not null, "txnid" text null, "mihpayid" text null, "status" text null, "payload" jsonb not null, "hash_verified" boolean not null default false, "action" text not null, "error" text null, "duplicate" boolean not null default false, "dedup_key" text null, "processed_at" timestamptz not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "payu_webhook_event_pkey" primary key ("id"));`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_webhook_event_deleted_at" ON "payu_webhook_event" ("deleted_at") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_webhook_event_txnid" ON "payu_webhook_event" ("txnid") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_payu_webhook_event_dedup_key_unique" ON "payu_webhook_event" ("dedup_key") WHERE dedup_key IS NOT NULL AND deleted_at IS NULL;`)
+    }
+
+    override async down(): Promise<void> {
+        this.addSql(`drop table if exists "payu_webhook_event" cascade;`)
+    }
+}
@@ -0,0 +1,11 @@
+import { Migration } from "@medusajs/framework/mikro-orm/migrations"
+
+export class Migration20261019150000 extends Migration {
+    override async up(): Promise<void> {
+        this.addSql(`alter table if exists "payu_webhook_event" add column if not exists "replay_of" text null;`)
+    }
+
+    override async down(): Promise<void> {
+        this.addSql(`alter table if exists "payu_webhook_event" drop column if exists "replay_of";`)
+    }
+}
@@ -0,0 +1,21 @@
+import { Migration } from "@medusajs/framework/mikro-orm/migrations"
+
+export class Migration20261019210000 extends Migration {
+    override async up(): Promise<void> {
+        this.addSql(`create table if not exists "payu_mandate" ("id" text not null, "customer_id" text not null, "auth_payu_id" text not null, "txnid" text not null, "payment_session_id" text null, "merchant_profile" text null, "status" text check ("status" in ('active', 'paused', 'cancelled', 'expired')) not null default 'active', "billing_cycle" text not null, "billing_interval" integer not null default 1, "billing_rule" text check ("billing_rule" in ('MAX', 'EXACT')) not null default 'MAX', "max_amount" numeric not null, "raw_max_amount" jsonb not null, "currency_code" text not null default 'inr', "start_date" timestamptz not null, "end_date" timestamptz not null, "email" text not null, "phone" text not null, "si_details" jsonb not null, "last_charged_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "payu_mandate_pkey" primary key ("id"));`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_mandate_deleted_at" ON "payu_mandate" ("deleted_at") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_mandate_customer_id" ON "payu_mandate" ("customer_id") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_payu_mandate_auth_payu_id_unique" ON "payu_mandate" ("auth_payu_id") WHERE deleted_at IS NULL;`)
+
+        this.addSql(`create table if not exists "payu_mandate_charge" ("id" text not null, "mandate_id" text not null, "customer_id" text not null, "txnid" text not null, "mihpayid" text null, "amount" numeric not null, "raw_amount" jsonb not null, "currency_code" text not null default 'inr', "status" text check ("status" in ('pending', 'success', 'failed')) not null default 'pending', "reference" text null, "error" text null, "raw_response" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "payu_mandate_charge_pkey" primary key ("id"));`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_mandate_charge_deleted_at" ON "payu_mandate_charge" ("deleted_at") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_mandate_charge_mandate_id" ON "payu_mandate_charge" ("mandate_id") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_payu_mandate_charge_customer_id" ON "payu_mandate_charge" ("customer_id") WHERE deleted_at IS NULL;`)
+        this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_payu_mandate_charge_txnid_unique" ON "payu_mandate_charge" ("txnid") WHERE deleted_at IS NULL;`)
+    }
+
+    override async down(): Promise<void> {
+        this.addSql(`drop table if exists "payu_mandate_charge" cascade;`)
+        this.addSql(`drop table if exists "payu_mandate" cascade;`)
+    }
+}
@@ -0,0 +1,17 @@
+import { Migration } from "@medusajs/framework/mikro-orm/migrations"
+
+export class Migration20261020090000 extends Migration {
+    override async up(): Promise<void> {
+        this.addSql(`alter table if exists "payu_webhook_event" add column if not exists "dedup_attempt" integer not null default 0;`)
+        this.addSql(`alter table if exists "payu_webhook_event" add column if not exists "lock_expires_at" timestamptz null;`)
+        this.addSql(`DROP INDEX IF EXISTS "IDX_payu_webhook_event_dedup_key_unique";`)
+        this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_payu_webhook_event_dedup_key_dedup_attempt_unique" ON "payu_webhook_event" ("dedup_key", "dedup_attempt") WHERE dedup_key IS NOT NULL AND deleted_at IS NULL;`)
+    }
+
+    override async down(): Promise<void> {
+        this.addSql(`DROP INDEX IF EXISTS "IDX_payu_webhook_event_dedup_key_dedup_attempt_unique";`)
+        this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_payu_webhook_event_dedup_key_unique" ON "payu_webhook_event" ("dedup_key") WHERE dedup_key IS NOT NULL AND deleted_at IS NULL;`)
+        this.addSql(`alter table if exists "payu_webhook_event" drop column if exists "lock_expires_at";`)
+        this.addSql(`alter table if exists "payu_webhook_event" drop column if exists "dedup_attempt";`)
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * PayU Dispute Model
+ * Dispute or chargeback raised against a PayU transaction
+ */
+
+import { model } from "@medusajs/framework/utils"
+
+const PayuDispute = model
+    .define("payu_dispute", {
+        id: model.id({ prefix: "payudsp" }).primaryKey(),
+        /** Medusa payment the dispute was raised against */
+        payment_id: model.text().nullable(),
+        txnid: model.text(),
+        mihpayid: model.text().nullable(),
+        /** PayU dispute / chargeback reference */
+        dispute_id: model.text().nullable(),
+        type: model.enum(["dispute", "chargeback"]).default("dispute"),
+        status: model.enum(["open", "won", "lost", "closed"]).default("open"),
+        amount: model.bigNumber(),
+        currency_code: model.text().default("inr"),
+        reason: model.text().nullable(),
+        /** Date by which evidence must be submitted to PayU */
+        deadline: model.dateTime().nullable(),
+        raw_payload: model.json().nullable(),
+    })
+    .indexes([
+        { on: ["txnid"] },
+        { on: ["payment_id"] },
+        { on: ["status"] },
+    ])
+
+export default PayuDispute
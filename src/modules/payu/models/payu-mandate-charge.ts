@@ -0,0 +1,30 @@
+/**
+ * PayU Mandate Charge Model
+ * Recurring debit of a mandate, recorded against the customer
+ */
+
+import { model } from "@medusajs/framework/utils"
+
+const PayuMandateCharge = model
+    .define("payu_mandate_charge", {
+        id: model.id({ prefix: "payumch" }).primaryKey(),
+        mandate_id: model.text(),
+        customer_id: model.text(),
+        /** txnid of the debit */
+        txnid: model.text(),
+        mihpayid: model.text().nullable(),
+        amount: model.bigNumber(),
+        currency_code: model.text().default("inr"),
+        status: model.enum(["pending", "success", "failed"]).default("pending"),
+        /** What the renewal pays for, e.g. a subscription or order id */
+        reference: model.text().nullable(),
+        error: model.text().nullable(),
+        raw_response: model.json().nullable(),
+    })
+    .indexes([
+        { on: ["mandate_id"] },
+        { on: ["customer_id"] },
+        { on: ["txnid"], unique: true },
+    ])
+
+export default PayuMandateCharge
@@ -0,0 +1,40 @@
+/**
+ * PayU Mandate Model
+ * Standing instruction a customer registered with a PayU mandate checkout
+ */
+
+import { model } from "@medusajs/framework/utils"
+
+const PayuMandate = model
+    .define("payu_mandate", {
+        id: model.id({ prefix: "payumnd" }).primaryKey(),
+        customer_id: model.text(),
+        /** mihpayid of the registration payment; PayU's id of the mandate for recurring debits */
+        auth_payu_id: model.text(),
+        /** txnid of the registration payment */
+        txnid: model.text(),
+        /** Payment session the mandate was registered with */
+        payment_session_id: model.text().nullable(),
+        /** Merchant profile the mandate was registered with (null: default profile) */
+        merchant_profile: model.text().nullable(),
+        status: model.enum(["active", "paused", "cancelled", "expired"]).default("active"),
+        billing_cycle: model.text(),
+        billing_interval: model.number().default(1),
+        billing_rule: model.enum(["MAX", "EXACT"]).default("MAX"),
+        /** Largest amount (MAX) or exact amount (EXACT) of a renewal */
+        max_amount: model.bigNumber(),
+        currency_code: model.text().default("inr"),
+        start_date: model.dateTime(),
+        end_date: model.dateTime(),
+        /** Contact details PayU requires with every debit */
+        email: model.text(),
+        phone: model.text(),
+        si_details: model.json(),
+        last_charged_at: model.dateTime().nullable(),
+    })
+    .indexes([
+        { on: ["customer_id"] },
+        { on: ["auth_payu_id"], unique: true },
+    ])
+
+export default PayuMandate
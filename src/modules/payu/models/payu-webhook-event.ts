@@ -0,0 +1,38 @@
+/**
+ * PayU Webhook Event Model
+ * Audit log of every PayU webhook delivery and the action returned to Medusa
+ */
+
+import { model } from "@medusajs/framework/utils"
+
+const PayuWebhookEvent = model
+    .define("payu_webhook_event", {
+        id: model.id({ prefix: "payuwh" }).primaryKey(),
+        txnid: model.text().nullable(),
+        mihpayid: model.text().nullable(),
+        status: model.text().nullable(),
+        payload: model.json(),
+        hash_verified: model.boolean().default(false),
+        /** Salt the hash matched: "primary", "primary_v2" or a previous salt's id (during salt rotation) */
+        matched_salt: model.text().nullable(),
+        /** Webhook action returned to Medusa (authorized, failed, not_supported, ...) */
+        action: model.text(),
+        error: model.text().nullable(),
+        /** Repeat delivery of an already processed (txnid, mihpayid, status) */
+        duplicate: model.boolean().default(false),
+        /** txnid|mihpayid|status of actionable events, unique per attempt to deduplicate deliveries */
+        dedup_key: model.text().nullable(),
+        /** 0 for the first delivery of the dedup_key, +1 for each retry admitted after the previous lock expired */
+        dedup_attempt: model.number().default(0),
+        /** Until when the attempt holds the dedup_key; repeats before then are duplicates */
+        lock_expires_at: model.dateTime().nullable(),
+        /** Webhook event this delivery replays (admin replay) */
+        replay_of: model.text().nullable(),
+        processed_at: model.dateTime(),
+    })
+    .indexes([
+        { on: ["txnid"] },
+        { on: ["dedup_key", "dedup_attempt"], unique: true, where: "dedup_key IS NOT NULL" },
+    ])
+
+export default PayuWebhookEvent
@@ -0,0 +1,105 @@
+/**
+ * PayU Module Service
+ * Persists PayU records that live outside the payment module
+ */
+
+import { MedusaService } from "@medusajs/framework/utils"
+import PayuDispute from "./models/payu-dispute"
+import PayuMandate from "./models/payu-mandate"
+import PayuMandateCharge from "./models/payu-mandate-charge"
+import PayuWebhookEvent from "./models/payu-webhook-event"
+
+/**
+ * Webhook delivery to record
+ */
+export type RecordPayuWebhookEventInput = {
+    txnid?: string | null
+    mihpayid?: string | null
+    status?: string | null
+    payload: Record<string, unknown>
+    hash_verified: boolean
+    /** Salt the hash matched ("primary", "primary_v2" or a previous salt id) - never the salt itself */
+    matched_salt?: string | null
+    action: string
+    error?: string | null
+    /** Set for actionable events; a repeat of the same key is recorded as a duplicate */
+    dedup_key?: string | null
+    /** Event being replayed by an operator - replays are never deduplicated */
+    replay_of?: string | null
+    /**
+     * Set when the payment hasn't reached the event's state yet. A repeat is then re-admitted
+     * as a retry once the earlier attempt's lock expired; until then the earlier delivery
+     * may still be processing and the repeat is a duplicate.
+     */
+    retryable?: boolean
+}
+
+/**
+ * Minutes an admitted delivery holds its dedup_key while Medusa processes its action
+ */
+export const WEBHOOK_LOCK_MINUTES = 5
+
+class PayuModuleService extends MedusaService({
+    PayuDispute,
+    PayuWebhookEvent,
+    PayuMandate,
+    PayuMandateCharge,
+}) {
+    /**
+     * Record a webhook delivery
+     * The first delivery of a dedup_key is admitted and locks the key for WEBHOOK_LOCK_MINUTES.
+     * A repeat is a duplicate (duplicate: true), unless it is retryable and the lock of the
+     * latest attempt expired: it is then admitted as the next attempt. The unique
+     * (dedup_key, dedup_attempt) index settles concurrent deliveries, so one of them wins.
+     */
+    async recordWebhookEvent({ retryable, ...data }: RecordPayuWebhookEventInput) {
+        const now = new Date()
+        const event = {
+            ...data,
+            dedup_key: data.replay_of ? null : data.dedup_key,
+            processed_at: now,
+        }
+
+        if (!event.dedup_key) {
+            return { event: await this.createPayuWebhookEvents(event), duplicate: false }
+        }
+
+        const [latest] = await this.listPayuWebhookEvents(
+            { dedup_key: event.dedup_key },
+            { order: { dedup_attempt: "DESC" }, take: 1 }
+        )
+        // Rows logged before locks were introduced have no lock_expires_at
+        const lockExpired = !!latest && (!latest.lock_expires_at || new Date(latest.lock_expires_at) <= now)
+        const attempt = !latest ? 0 : retryable && lockExpired ? latest.dedup_attempt + 1 : undefined
+
+        if (attempt !== undefined) {
+            try {
+                const admitted = await this.createPayuWebhookEvents({
+                    ...event,
+                    dedup_attempt: attempt,
+                    lock_expires_at: new Date(now.getTime() + WEBHOOK_LOCK_MINUTES * 60 * 1000),
+                })
+                return { event: admitted, duplicate: false }
+            } catch (error) {
+                // A concurrent delivery took the attempt first
+                const [winner] = await this.listPayuWebhookEvents(
+                    { dedup_key: event.dedup_key, dedup_attempt: attempt },
+                    { take: 1 }
+                )
+                if (!winner) {
+                    throw error
+                }
+            }
+        }
+
+        const duplicate = await this.createPayuWebhookEvents({
+            ...event,
+            action: "not_supported",
+            dedup_key: null,
+            duplicate: true,
+        })
+        return { event: duplicate, duplicate: true }
+    }
+}
+
+export default PayuModuleService
@@ -0,0 +1,53 @@
+import { hasAdditionalCharges, isSamePayuAmount, isValidPayuAmount, resolvePayuAmounts } from "../amounts"
+
+describe("resolvePayuAmounts", () => {
+    it.each([
+        ["1499.00", undefined, { amount: "1499.00", additionalCharges: "0.00", amountCharged: "1499.00" }],
+        ["1499.00", "", { amount: "1499.00", additionalCharges: "0.00", amountCharged: "1499.00" }],
+        ["1499.00", "29.98", { amount: "1499.00", additionalCharges: "29.98", amountCharged: "1528.98" }],
+        ["0.10", "0.20", { amount: "0.10", additionalCharges: "0.20", amountCharged: "0.30" }],
+        [1499, 17.7, { amount: "1499.00", additionalCharges: "17.70", amountCharged: "1516.70" }],
+        ["1499.00", "invalid", { amount: "1499.00", additionalCharges: "0.00", amountCharged: "1499.00" }],
+    ])("splits amount %p with additional charges %p", (amount, additionalCharges, expected) => {
+        expect(resolvePayuAmounts(amount, additionalCharges)).toEqual(expected)
+    })
+})
+
+describe("hasAdditionalCharges", () => {
+    it.each([
+        [undefined, false],
+        ["", false],
+        ["0.00", false],
+        ["0.01", true],
+        [12, true],
+    ])("reports %p as %p", (additionalCharges, expected) => {
+        expect(hasAdditionalCharges(additionalCharges)).toBe(expected)
+    })
+})
+
+describe("isSamePayuAmount", () => {
+    it.each([
+        ["1499.00", "1499", true],
+        ["1499.00", 1499, true],
+        ["0.30", "0.3", true],
+        ["1499.00", "1499.01", false],
+        ["1499.00", "1499.0000001", false],
+        ["1499.00", "", false],
+        [undefined, undefined, false],
+        ["NaN", "NaN", false],
+    ])("compares %p and %p as %p", (a, b, expected) => {
+        expect(isSamePayuAmount(a, b)).toBe(expected)
+    })
+})
+
+describe("isValidPayuAmount", () => {
+    it.each([
+        ["1499.00", true],
+        [" 1499.00 ", true],
+        ["1,499.00", false],
+        ["abc", false],
+        [undefined, false],
+    ])("reports %p as %p", (value, expected) => {
+        expect(isValidPayuAmount(value)).toBe(expected)
+    })
+})
@@ -0,0 +1,93 @@
+import {
+    getAttemptTxnids,
+    isAttemptExpired,
+    isRetryableStatus,
+    resumeAttempt,
+    startNewAttempt,
+} from "../attempts"
+import type { PayuPaymentStatus, PayuSessionData } from "../types"
+
+const startedAt = Date.parse("2026-10-19T10:00:00Z")
+
+const session = {
+    txnid: `TXN_${startedAt}_aaaa`,
+    amount: "1499.00",
+    status: "failed",
+    attemptStartedAt: new Date(startedAt).toISOString(),
+} as PayuSessionData
+
+describe("isRetryableStatus", () => {
+    it.each([
+        ["failed", true],
+        ["cancelled", true],
+        ["requires_more", true],
+        ["pending", false],
+        ["authorized", false],
+        ["captured", false],
+        [undefined, false],
+    ])("reports %p as %p", (status, expected) => {
+        expect(isRetryableStatus(status as PayuPaymentStatus | undefined)).toBe(expected)
+    })
+})
+
+describe("isAttemptExpired", () => {
+    it.each([
+        [29, false],
+        [30, true],
+        [90, true],
+    ])("treats an attempt started %p minutes ago as expired: %p", (minutes, expected) => {
+        expect(isAttemptExpired(session, 30, startedAt + minutes * 60 * 1000)).toBe(expected)
+    })
+
+    it("falls back to the timestamp in the txnid", () => {
+        const legacy = { ...session, attemptStartedAt: undefined }
+
+        expect(isAttemptExpired(legacy, 30, startedAt + 31 * 60 * 1000)).toBe(true)
+        expect(isAttemptExpired(legacy, 30, startedAt + 60 * 1000)).toBe(false)
+    })
+
+    it("never expires attempts with an unknown start", () => {
+        expect(isAttemptExpired({ ...session, txnid: "custom", attemptStartedAt: undefined })).toBe(false)
+    })
+})
+
+describe("startNewAttempt", () => {
+    it("issues a fresh txnid and records the ended attempt", () => {
+        const now = new Date(startedAt + 5 * 60 * 1000)
+        const renewed = startNewAttempt({ ...session, mismatches: [] }, "failed", now)
+
+        expect(renewed.txnid).not.toBe(session.txnid)
+        expect(renewed).toMatchObject({ status: "pending", attemptStartedAt: now.toISOString(), mismatches: undefined })
+        expect(renewed.attempts).toEqual([
+            { txnid: session.txnid, amount: "1499.00", status: "failed", startedAt: session.attemptStartedAt, endedAt: now.toISOString() },
+        ])
+        expect(getAttemptTxnids(renewed)).toEqual([renewed.txnid, session.txnid])
+    })
+
+    it("appends to the existing history", () => {
+        const twice = startNewAttempt(startNewAttempt(session, "failed"), "cancelled")
+
+        expect(twice.attempts!.map((attempt) => attempt.status)).toEqual(["failed", "cancelled"])
+        expect(new Set(getAttemptTxnids(twice)).size).toBe(3)
+    })
+})
+
+describe("resumeAttempt", () => {
+    it("makes an earlier attempt current and moves the replaced one to the history", () => {
+        const renewed = startNewAttempt(session, "cancelled")
+        const resumed = resumeAttempt(renewed, session.txnid)
+
+        expect(resumed.txnid).toBe(session.txnid)
+        expect(resumed.attemptStartedAt).toBe(session.attemptStartedAt)
+        expect(resumed.attempts!.map((attempt) => attempt.txnid)).toEqual([renewed.txnid])
+    })
+
+    it.each([
+        ["the current txnid", (data: PayuSessionData) => data.txnid],
+        ["an unknown txnid", () => "TXN_unknown"],
+    ])("leaves the session unchanged for %s", (_, txnid) => {
+        const renewed = startNewAttempt(session, "cancelled")
+
+        expect(resumeAttempt(renewed, txnid(renewed))).toBe(renewed)
+    })
+})
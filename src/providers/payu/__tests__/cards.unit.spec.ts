@@ -0,0 +1,85 @@
+import { isCardVaultEmpty, toSavedCards } from "../cards"
+import { getUserCredentials } from "../client"
+
+describe("getUserCredentials", () => {
+    it("scopes the customer's vault to the merchant key", () => {
+        expect(getUserCredentials("key_main", "cus_01HX")).toBe("key_main:cus_01HX")
+    })
+})
+
+describe("isCardVaultEmpty", () => {
+    it.each([
+        [{ status: 0, msg: "Card not found." }, true],
+        [{ status: 0, msg: "No card found for this user" }, true],
+        [{ status: 0, msg: "Invalid Hash." }, false],
+        [{ status: 1, msg: "Cards fetched Succesfully", user_cards: {} }, false],
+    ])("%o is an empty vault: %s", (response, expected) => {
+        expect(isCardVaultEmpty(response)).toBe(expected)
+    })
+})
+
+describe("toSavedCards", () => {
+    it("exposes tokens and masked numbers only", () => {
+        const cards = toSavedCards({
+            status: 1,
+            msg: "Cards fetched Succesfully",
+            user_cards: {
+                "8f3b2c1d": {
+                    card_token: "8f3b2c1d",
+                    card_name: "Work card",
+                    name_on_card: "Asha K",
+                    card_no: "512345XXXXXX2346",
+                    card_mode: "CC",
+                    card_type: "MAST",
+                    card_brand: "MASTERCARD",
+                    card_bin: "512345",
+                    expiry_month: "5",
+                    expiry_year: "2031",
+                    is_expired: 0,
+                    issuingBank: "HDFC",
+                },
+            },
+        })
+
+        expect(cards).toEqual([{
+            token: "8f3b2c1d",
+            label: "Work card",
+            name_on_card: "Asha K",
+            masked_number: "512345XXXXXX2346",
+            mode: "CC",
+            network: "MAST",
+            brand: "MASTERCARD",
+            expiry_month: "5",
+            expiry_year: "2031",
+            expired: false,
+            issuing_bank: "HDFC",
+        }])
+    })
+
+    it.each([
+        [1, true],
+        ["1", true],
+        [0, false],
+        [undefined, false],
+    ])("reads is_expired %p as expired: %s", (isExpired, expired) => {
+        const [card] = toSavedCards({
+            status: 1,
+            msg: "",
+            user_cards: { tok: { card_token: "tok", card_no: "401200XXXXXX1112", is_expired: isExpired } },
+        })
+        expect(card.expired).toBe(expired)
+    })
+
+    it("falls back to the vault key when the entry has no token", () => {
+        const [card] = toSavedCards({
+            status: 1,
+            msg: "",
+            user_cards: { tok_key: { card_no: "401200XXXXXX1112" } as never },
+        })
+        expect(card.token).toBe("tok_key")
+    })
+
+    it("returns no cards for an empty vault", () => {
+        expect(toSavedCards({ status: 0, msg: "Card not found." })).toEqual([])
+    })
+})
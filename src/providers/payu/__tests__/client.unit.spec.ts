@@ -0,0 +1,143 @@
+import crypto from "crypto"
+import { PayuClient, PRIMARY_SALT_ID, PRIMARY_SALT_V2_ID } from "../client"
+
+const response = {
+    status: "success",
+    email: "asha@example.com",
+    firstname: "Asha",
+    productinfo: "Order Payment",
+    amount: "1499.00",
+    txnid: "TXN_1",
+    udf1: "cart_123",
+}
+
+/**
+ * Sign a response the way PayU does
+ */
+const sign = (salt: string) =>
+    crypto
+        .createHash("sha512")
+        .update(
+            `${salt}|${response.status}||||||||||${response.udf1}|${response.email}|${response.firstname}|` +
+            `${response.productinfo}|${response.amount}|${response.txnid}|merchant_key`
+        )
+        .digest("hex")
+
+describe("PayuClient salt rotation", () => {
+    const client = new PayuClient({
+        merchantKey: "merchant_key",
+        merchantSalt: "salt_current",
+        environment: "test",
+        previousSalts: [
+            { id: "2026-q3", salt: "salt_previous", expiresAt: "2999-01-01T00:00:00Z" },
+            { salt: "salt_unlabelled" },
+            { id: "2025", salt: "salt_expired", expiresAt: "2020-01-01T00:00:00Z" },
+        ],
+    })
+
+    it.each([
+        ["salt_current", PRIMARY_SALT_ID],
+        ["salt_previous", "2026-q3"],
+        ["salt_unlabelled", "previous_2"],
+        ["salt_expired", null],
+        ["salt_unknown", null],
+    ])("matches a response signed with %s as %p", (salt, expected) => {
+        expect(client.matchResponseHash({ ...response, hash: sign(salt) })).toBe(expected)
+        expect(client.verifyResponseHash({ ...response, hash: sign(salt) })).toBe(expected !== null)
+    })
+
+    it("compares hashes case-insensitively", () => {
+        expect(client.matchResponseHash({ ...response, hash: sign("salt_current").toUpperCase() })).toBe(PRIMARY_SALT_ID)
+    })
+
+    it("signs payment requests with the primary salt only", () => {
+        const fields = { txnid: "TXN_1", amount: "1499.00", productinfo: "Order Payment", firstname: "Asha", email: "asha@example.com" }
+        const expected = crypto
+            .createHash("sha512")
+            .update(`merchant_key|TXN_1|1499.00|Order Payment|Asha|asha@example.com|||||||||||salt_current`)
+            .digest("hex")
+
+        expect(client.generatePaymentHash(fields)).toBe(expected)
+    })
+
+    it("signs si_details of a mandate registration before the salt", () => {
+        const fields = { txnid: "TXN_1", amount: "1499.00", productinfo: "Order Payment", firstname: "Asha", email: "asha@example.com" }
+        const si_details = `{"billingAmount":"999.00","billingCycle":"MONTHLY"}`
+        const expected = crypto
+            .createHash("sha512")
+            .update(`merchant_key|TXN_1|1499.00|Order Payment|Asha|asha@example.com|||||||||||${si_details}|salt_current`)
+            .digest("hex")
+
+        expect(client.generatePaymentHash({ ...fields, si_details })).toBe(expected)
+    })
+})
+
+/**
+ * Salt version 2 regression fixtures - NOT PayU test vectors
+ * PayU has not published salt version 2 sample hashes that could be checked in here, so these
+ * use PayU's public test key/salt with a made-up salt V2. The hashes are fixed hex literals,
+ * computed once from PayU's documented hash strings (request: key|txnid|amount|productinfo|
+ * firstname|email|udf1..udf5||||||salt, response: the reverse with the status), so a change to
+ * the signing code fails here. They do not prove agreement with PayU; see the todo below.
+ */
+const V2 = {
+    key: "gtKFFx",
+    saltV1: "eCwWELxi",
+    saltV2: "MIIEvQIBADANBgkqhkiG9w0BAQEFAASCBKcwggSjAgEAAoIBAQC5",
+    request: { txnid: "ypl938459435", amount: "10.00", productinfo: "iPhone", firstname: "Ashish", email: "test@gmail.com" },
+    requestHashV1: "7d825413b947d4d501a9206353ebb50b2e98d97ef6cccfb48cf34d8c2a7ae747163e5a7a9a0f7e5a80af957c5b311458228b2f4f5b29fcb0da18737ecc9ab2ac",
+    requestHashV2: "e3b038332477a3ead5935627d7fbb278cf4ab0ad9cd6d65e93bc7886547e4fd8a69d166a4431ea459440733d47f527c6e985a6e6f457dcc4d5e16e360c0f7193",
+    responseHashV1: "5e5481326d486406f9c452023a711fb7d16824bcccd99c7cc574bf81cc25cd9c7c68216b8d4b37f8c8de1fbb6b6efef3215e4e55425590922fdd55a6cb39a57e",
+    responseHashV2: "a4024381c0fa706e275c4ed91cf0cc3853b958f1a225bfc79b466bf67172ff8dee65309b8c8da4df4c3f4e5b74108a646032862fe335cc055259f3b845246756",
+}
+
+describe("PayuClient salt version 2", () => {
+    const client = new PayuClient({
+        merchantKey: V2.key,
+        merchantSalt: V2.saltV1,
+        merchantSaltV2: V2.saltV2,
+        saltVersion: 2,
+        environment: "test",
+    })
+    const v2Response = { ...V2.request, status: "success" }
+
+    it("signs payment requests with both salts as a JSON hash", () => {
+        expect(JSON.parse(client.generatePaymentHash(V2.request))).toEqual({
+            v1: V2.requestHashV1,
+            v2: V2.requestHashV2,
+        })
+    })
+
+    it("signs payment requests with the v1 salt only when saltVersion is 1", () => {
+        const v1Client = new PayuClient({ merchantKey: V2.key, merchantSalt: V2.saltV1, merchantSaltV2: V2.saltV2, environment: "test" })
+
+        expect(v1Client.generatePaymentHash(V2.request)).toBe(V2.requestHashV1)
+    })
+
+    it("refuses to sign with saltVersion 2 but no merchantSaltV2", () => {
+        const misconfigured = new PayuClient({ merchantKey: V2.key, merchantSalt: V2.saltV1, saltVersion: 2, environment: "test" })
+
+        expect(() => misconfigured.generatePaymentHash(V2.request)).toThrow("merchantSaltV2 is required")
+    })
+
+    it.each([
+        ["a v1 hash", V2.responseHashV1, PRIMARY_SALT_ID],
+        ["a v2 hash", V2.responseHashV2, PRIMARY_SALT_V2_ID],
+        ["a JSON hash", JSON.stringify({ v1: V2.responseHashV1, v2: V2.responseHashV2 }), PRIMARY_SALT_ID],
+        ["a JSON hash with only v2", JSON.stringify({ v2: V2.responseHashV2.toUpperCase() }), PRIMARY_SALT_V2_ID],
+        ["a JSON hash with unknown values", JSON.stringify({ v1: "forged", v2: "forged" }), null],
+        ["malformed JSON", "{\"v1\":", null],
+        ["the request hash", V2.requestHashV2, null],
+    ])("matches a response signed with %s", (_, hash, expected) => {
+        expect(client.matchResponseHash({ ...v2Response, hash })).toBe(expected)
+    })
+
+    it("does not accept the v2 salt when none is configured", () => {
+        const v1Client = new PayuClient({ merchantKey: V2.key, merchantSalt: V2.saltV1, environment: "test" })
+
+        expect(v1Client.matchResponseHash({ ...v2Response, hash: V2.responseHashV2 })).toBeNull()
+    })
+
+    // Pending PayU's published salt version 2 key, salts and hash pairs, requested from the requester
+    it.todo("matches PayU's published salt version 2 test vectors")
+})
@@ -0,0 +1,99 @@
+import { filterEmiPlansForCard, isEmiErrorResponse, toEmiBinEligibility, toEmiPlans, type PayuEmiPlan } from "../emi"
+import type { PayuEmiAmountResponse } from "../types"
+
+const response = {
+    HDFC: {
+        EMI6: {
+            emiBankInterest: "13",
+            amount: "2604.47",
+            card_type: "CC",
+            emi_value: 2604.47,
+            emi_interest_paid: 626.82,
+            transactionAmount: 15000,
+            loanAmount: 15000,
+            tenure: "6 months",
+            paybackAmount: 15626.82,
+        },
+        EMI3: {
+            emiBankInterest: "13",
+            emi_value: 5108.78,
+            emi_interest_paid: 326.34,
+            card_type: "CC",
+            loanAmount: 15000,
+            tenure: "3 months",
+        },
+    },
+    AXIS: {
+        EMIAD12: { emiBankInterest: 15, emi_value: "1353.87", emi_interest_paid: "1246.44", card_type: "DC", loanAmount: "15000" },
+    },
+    ZESTMON: {
+        ZESTMON3: { emiBankInterest: 0, emi_value: 5000, emi_interest_paid: 0, loanAmount: 15000, tenure: "3 months", processingFee: 199 },
+    },
+} as PayuEmiAmountResponse
+
+describe("toEmiPlans", () => {
+    const plans = toEmiPlans(response)
+
+    it("lists every plan, grouped by bank and shortest tenure first", () => {
+        expect(plans.map((plan) => plan.bankcode)).toEqual(["EMIAD12", "EMI3", "EMI6", "ZESTMON3"])
+    })
+
+    it("reads installments, interest and the amount paid back", () => {
+        expect(plans.find((plan) => plan.bankcode === "EMI6")).toEqual({
+            bank: "HDFC",
+            bankcode: "EMI6",
+            type: "card",
+            card_type: "credit",
+            tenure_months: 6,
+            interest_rate: "13",
+            monthly_installment: "2604.47",
+            interest_amount: "626.82",
+            total_amount: "15626.82",
+        })
+    })
+
+    it.each([
+        ["EMI3", { total_amount: "15326.34" }],
+        ["EMIAD12", { tenure_months: 12, card_type: "debit", total_amount: "16246.44" }],
+        ["ZESTMON3", { type: "cardless", processing_fee: "199.00", interest_amount: "0.00" }],
+    ])("derives missing fields of %s", (bankcode, expected) => {
+        expect(plans.find((plan) => plan.bankcode === bankcode)).toMatchObject(expected)
+    })
+
+    it.each([
+        [{ status: 0, msg: "Invalid amount" }, true],
+        [{}, false],
+        [response, false],
+    ] as [PayuEmiAmountResponse, boolean][])("treats %o as an error: %s", (result, isError) => {
+        expect(isEmiErrorResponse(result)).toBe(isError)
+        if (isError) {
+            expect(toEmiPlans(result)).toEqual([])
+        }
+    })
+})
+
+describe("toEmiBinEligibility", () => {
+    it.each([
+        [{ status: 1, msg: "", details: { isEligible: true, bank: "HDFC", cardType: "CC" } }, { eligible: true, bank: "HDFC", card_type: "credit" }],
+        [{ status: 1, msg: "", details: { isEligible: "1", bank: "AXIS", cardType: "DC" } }, { eligible: true, bank: "AXIS", card_type: "debit" }],
+        [{ status: 1, msg: "", details: { isEligible: 0, bank: "SBI" } }, { eligible: false }],
+        [{ status: 1, msg: "", details: { isEligible: false } }, { eligible: false }],
+        [{ status: 0, msg: "Invalid Hash." }, { eligible: false }],
+    ])("reads %o", (result, eligibility) => {
+        expect(toEmiBinEligibility(result)).toEqual(eligibility)
+    })
+})
+
+describe("filterEmiPlansForCard", () => {
+    const plans = toEmiPlans(response)
+    const bankcodes = (filtered: PayuEmiPlan[]) => filtered.map((plan) => plan.bankcode)
+
+    it.each([
+        ["an HDFC credit card", { eligible: true, bank: "HDFC", card_type: "credit" as const }, ["EMI3", "EMI6", "ZESTMON3"]],
+        ["an AXIS debit card", { eligible: true, bank: "axis", card_type: "debit" as const }, ["EMIAD12", "ZESTMON3"]],
+        ["an HDFC debit card", { eligible: true, bank: "HDFC", card_type: "debit" as const }, ["ZESTMON3"]],
+        ["an ineligible card", { eligible: false }, ["ZESTMON3"]],
+    ])("keeps the plans of %s and cardless plans", (_, eligibility, expected) => {
+        expect(bankcodes(filterEmiPlansForCard(plans, eligibility))).toEqual(expected)
+    })
+})
@@ -0,0 +1,131 @@
+import {
+    getMandateRequestFields,
+    serializeSiDetails,
+    toMandateChargeResult,
+    toMandateStatus,
+    toSiDetails,
+    validateMandateCharge,
+    validateMandateInput,
+} from "../mandates"
+import type { PayuMandateInput, PayuSiTransactionResponse } from "../types"
+
+const now = new Date("2026-03-10T10:00:00.000Z")
+
+const input: PayuMandateInput = {
+    billing_cycle: "MONTHLY",
+    max_amount: "999",
+    start_date: "2026-03-10",
+    end_date: "2027-03-10",
+}
+
+describe("validateMandateInput", () => {
+    it.each([
+        ["a monthly mandate", {}, undefined],
+        ["an explicit interval and rule", { billing_interval: 3, billing_rule: "EXACT" }, undefined],
+        ["no billing cycle", { billing_cycle: undefined }, "billing_cycle is required"],
+        ["an unknown billing cycle", { billing_cycle: "HOURLY" }, "Unsupported billing cycle 'HOURLY'"],
+        ["a fractional interval", { billing_interval: 1.5 }, "billing_interval must be a whole number"],
+        ["an unknown billing rule", { billing_rule: "MIN" }, "Unsupported billing rule 'MIN'"],
+        ["a zero max amount", { max_amount: "0" }, "max_amount must be a positive amount"],
+        ["a malformed max amount", { max_amount: "abc" }, "max_amount must be a positive amount"],
+        ["a non-calendar date", { start_date: "2026-02-30" }, "must be dates (YYYY-MM-DD)"],
+        ["a start date in the past", { start_date: "2026-03-09" }, "can't be in the past"],
+        ["an end date before the start", { end_date: "2026-03-10" }, "must be after mandate.start_date"],
+    ] as [string, Partial<PayuMandateInput>, string | undefined][])("validates %s", (_, overrides, expected) => {
+        const error = validateMandateInput({ ...input, ...overrides }, now)
+        if (expected) {
+            expect(error).toContain(expected)
+        } else {
+            expect(error).toBeUndefined()
+        }
+    })
+})
+
+describe("toSiDetails", () => {
+    it("fills the interval, rule and limit defaults", () => {
+        expect(toSiDetails(input, "inr")).toEqual({
+            billingAmount: "999.00",
+            billingCurrency: "INR",
+            billingCycle: "MONTHLY",
+            billingInterval: 1,
+            paymentStartDate: "2026-03-10",
+            paymentEndDate: "2027-03-10",
+            billingRule: "MAX",
+            billingLimit: "ON",
+        })
+    })
+
+    it("serializes keys in a fixed order for the hash and the form", () => {
+        const siDetails = toSiDetails(input, "INR")
+        const reordered = Object.fromEntries(Object.entries(siDetails).reverse()) as typeof siDetails
+
+        expect(serializeSiDetails(reordered)).toBe(serializeSiDetails(siDetails))
+        expect(getMandateRequestFields(siDetails)).toEqual({
+            api_version: "7",
+            si: "1",
+            si_details: serializeSiDetails(siDetails),
+        })
+    })
+})
+
+describe("toMandateStatus", () => {
+    it.each([
+        [{ status: 1, details: { status: "ACTIVE" } }, "active"],
+        [{ status: 1, details: { status: "paused" } }, "paused"],
+        [{ status: 1, details: { status: "REVOKED" } }, "cancelled"],
+        [{ status: 1, details: { status: "EXPIRED" } }, "expired"],
+        [{ status: 1, details: { status: "UNKNOWN" } }, undefined],
+        [{ status: 0, message: "Mandate not found" }, undefined],
+    ])("maps %o to %s", (response, expected) => {
+        expect(toMandateStatus(response)).toBe(expected)
+    })
+})
+
+describe("toMandateChargeResult", () => {
+    const debit = (status: string, extra: Record<string, string> = {}): PayuSiTransactionResponse => ({
+        status: 1,
+        message: "Transaction processed",
+        details: { TXN_2: { transactionId: "TXN_2", payuId: "403993715530", status, ...extra } },
+    })
+
+    it.each([
+        ["captured", debit("captured"), { status: "success", mihpayid: "403993715530" }],
+        ["in progress", debit("in progress"), { status: "pending", mihpayid: "403993715530" }],
+        ["failed", debit("failed", { field9: "Insufficient funds" }), {
+            status: "failed",
+            mihpayid: "403993715530",
+            error: "Insufficient funds",
+        }],
+        ["rejected", { status: 0, message: "Mandate is not active" }, { status: "failed", error: "Mandate is not active" }],
+    ] as [string, PayuSiTransactionResponse, object][])("maps a %s debit", (_, response, expected) => {
+        expect(toMandateChargeResult(response, "TXN_2")).toEqual(expected)
+    })
+})
+
+describe("validateMandateCharge", () => {
+    const mandate = {
+        status: "active" as const,
+        max_amount: 999,
+        billing_rule: "MAX" as const,
+        start_date: new Date("2026-03-01T00:00:00.000Z"),
+        end_date: "2027-03-01T23:59:59.000Z",
+    }
+
+    it.each([
+        ["an amount within the limit", {}, "499.00", undefined],
+        ["the full limit", {}, "999.00", undefined],
+        ["an amount over the limit", {}, "999.01", "at most 999.00"],
+        ["a different amount on an EXACT mandate", { billing_rule: "EXACT" }, "499.00", "exactly 999.00"],
+        ["a zero amount", {}, "0.00", "positive amount"],
+        ["a revoked mandate", { status: "cancelled" }, "499.00", "the mandate is cancelled"],
+        ["a mandate not started yet", { start_date: "2026-04-01" }, "499.00", "from 2026-04-01 to 2027-03-01"],
+        ["an ended mandate", { end_date: "2026-03-09T23:59:59.000Z" }, "499.00", "from 2026-03-01 to 2026-03-09"],
+    ] as [string, object, string, string | undefined][])("checks %s", (_, overrides, amount, expected) => {
+        const error = validateMandateCharge({ ...mandate, ...overrides }, amount, now)
+        if (expected) {
+            expect(error).toContain(expected)
+        } else {
+            expect(error).toBeUndefined()
+        }
+    })
+})
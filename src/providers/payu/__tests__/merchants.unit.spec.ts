@@ -0,0 +1,78 @@
+import {
+    DEFAULT_MERCHANT_PROFILE,
+    findMerchantProfile,
+    findMerchantProfileByKey,
+    getMerchantProfileConfig,
+    selectMerchantProfile,
+    validateMerchantProfiles,
+} from "../merchants"
+import type { PayuProviderConfig } from "../types"
+
+const config: PayuProviderConfig = {
+    merchantKey: "key_main",
+    merchantSalt: "salt_main",
+    environment: "test",
+    merchants: [
+        { id: "retail", merchantKey: "key_retail", merchantSalt: "salt_retail", salesChannelIds: ["sc_retail"] },
+        { id: "export", merchantKey: "key_export", merchantSalt: "salt_export", regionIds: ["reg_export"], currencyCodes: ["USD"] },
+    ],
+}
+
+describe("selectMerchantProfile", () => {
+    it.each([
+        [{ sales_channel_id: "sc_retail" }, "retail"],
+        [{ region_id: "reg_export" }, "export"],
+        [{ currency_code: "usd" }, "export"],
+        // Sales channel wins over region and currency
+        [{ sales_channel_id: "sc_retail", region_id: "reg_export", currency_code: "usd" }, "retail"],
+        [{ sales_channel_id: "sc_other", region_id: "reg_other", currency_code: "inr" }, DEFAULT_MERCHANT_PROFILE],
+        [{}, DEFAULT_MERCHANT_PROFILE],
+    ])("selects the profile for %p", (criteria, expected) => {
+        expect(selectMerchantProfile(config, criteria)?.id).toBe(expected)
+    })
+
+    it("falls back to the first profile when no default credentials are configured", () => {
+        const profilesOnly = { ...config, merchantKey: "", merchantSalt: "" }
+
+        expect(selectMerchantProfile(profilesOnly, { currency_code: "inr" })?.id).toBe("retail")
+    })
+})
+
+describe("findMerchantProfile", () => {
+    it("finds profiles by id and treats a missing id as the default profile", () => {
+        expect(findMerchantProfile(config, "export")?.merchantKey).toBe("key_export")
+        expect(findMerchantProfile(config)?.merchantKey).toBe("key_main")
+        expect(findMerchantProfile(config, "unknown")).toBeUndefined()
+    })
+
+    it("finds profiles by the merchant key PayU sends back", () => {
+        expect(findMerchantProfileByKey(config, "key_retail")?.id).toBe("retail")
+        expect(findMerchantProfileByKey(config, "key_main")?.id).toBe(DEFAULT_MERCHANT_PROFILE)
+        expect(findMerchantProfileByKey(config, "key_unknown")).toBeUndefined()
+        expect(findMerchantProfileByKey(config, undefined)).toBeUndefined()
+    })
+
+    it("builds the client config with the profile's credentials", () => {
+        expect(getMerchantProfileConfig(config, findMerchantProfile(config, "retail")!)).toMatchObject({
+            merchantKey: "key_retail",
+            merchantSalt: "salt_retail",
+            environment: "test",
+        })
+    })
+})
+
+describe("validateMerchantProfiles", () => {
+    it("accepts distinct, complete profiles", () => {
+        expect(validateMerchantProfiles(config.merchants!)).toBeUndefined()
+    })
+
+    it.each([
+        [[{ id: "a", merchantKey: "k", merchantSalt: "" }], /requires id, merchantKey and merchantSalt/],
+        [[{ id: "a", merchantKey: "k1", merchantSalt: "s" }, { id: "a", merchantKey: "k2", merchantSalt: "s" }], /duplicate merchant profile id/],
+        [[{ id: "a", merchantKey: "k", merchantSalt: "s" }, { id: "b", merchantKey: "k", merchantSalt: "s" }], /used by another profile/],
+        [[{ id: "a", merchantKey: "k", merchantSalt: "s", saltVersion: 2 as const }], /has no merchantSaltV2/],
+        [[{ id: "a", merchantKey: "k", merchantSalt: "s", saltVersion: 3 as unknown as 2 }], /invalid saltVersion/],
+    ])("rejects invalid profiles %#", (profiles, message) => {
+        expect(validateMerchantProfiles(profiles)).toMatch(message)
+    })
+})
@@ -0,0 +1,29 @@
+import { findPayuMismatches } from "../mismatch"
+
+const session = { amount: "1499.00", key: "key_main", txnid: "TXN_1" }
+
+describe("findPayuMismatches", () => {
+    it.each([
+        ["an identical response", { amount: "1499.00", key: "key_main", txnid: "TXN_1" }, []],
+        ["the same amount without decimals", { amount: "1499", key: "key_main", txnid: "TXN_1" }, []],
+        ["a different amount", { amount: "1498.99", key: "key_main", txnid: "TXN_1" }, ["amount"]],
+        ["a sub-paisa difference", { amount: "1499.001", key: "key_main", txnid: "TXN_1" }, ["amount"]],
+        ["a malformed amount", { amount: "1,499.00", key: "key_main", txnid: "TXN_1" }, ["amount"]],
+        ["a missing amount", { key: "key_main", txnid: "TXN_1" }, ["amount"]],
+        ["another merchant key", { amount: "1499.00", key: "key_other", txnid: "TXN_1" }, ["key"]],
+        ["another txnid", { amount: "1499.00", key: "key_main", txnid: "TXN_2" }, ["txnid"]],
+        ["nothing in common", {}, ["amount", "key", "txnid"]],
+    ])("reports %s", (_, received, fields) => {
+        expect(findPayuMismatches(session, received).map((m) => m.field)).toEqual(fields)
+    })
+
+    it("records expected and received values", () => {
+        expect(findPayuMismatches(session, { amount: "1.00", key: "key_main", txnid: "TXN_1" })).toEqual([
+            { field: "amount", expected: "1499.00", received: "1.00" },
+        ])
+    })
+
+    it("skips fields the session never stored", () => {
+        expect(findPayuMismatches({ amount: "1499.00", txnid: "TXN_1" }, { amount: "1499.00", txnid: "TXN_1" })).toEqual([])
+    })
+})
@@ -0,0 +1,77 @@
+import { getPaymentLinkStatus, isPaymentLinkActive, toInvoiceRequest, toPaymentLink } from "../payment-links"
+import type { PayuPaymentLink, PayuPaymentStatus, PayuSessionData } from "../types"
+
+const now = new Date("2026-03-10T10:00:00.000Z")
+
+const link: PayuPaymentLink = {
+    url: "https://test.payu.in/invoice/TXN_1",
+    status: "active",
+    createdAt: "2026-03-10T08:00:00.000Z",
+    expiresAt: "2026-03-11T08:00:00.000Z",
+    emailedTo: "asha@example.com",
+}
+
+const session = (status: PayuPaymentStatus, paymentLink?: PayuPaymentLink) => ({
+    txnid: "TXN_1",
+    amount: "2499.00",
+    productinfo: "Order #12",
+    firstname: "Asha",
+    email: "asha@example.com",
+    phone: "9999999999",
+    status,
+    checkoutMode: "payment_link",
+    paymentLink,
+}) as PayuSessionData
+
+describe("getPaymentLinkStatus", () => {
+    it.each([
+        ["no link", session("pending"), undefined],
+        ["an unpaid link", session("pending", link), "active"],
+        ["an unpaid link past its expiry", session("pending", { ...link, expiresAt: "2026-03-10T09:59:59.000Z" }), "expired"],
+        ["a link expired at PayU", session("cancelled", { ...link, status: "expired" }), "expired"],
+        ["an authorized session", session("authorized", link), "paid"],
+        ["a refunded session", session("refunded", { ...link, status: "paid" }), "paid"],
+    ] as [string, PayuSessionData, string | undefined][])("reports %s as %s", (_, data, expected) => {
+        expect(getPaymentLinkStatus(data, now.getTime())).toBe(expected)
+        expect(isPaymentLinkActive(data, now.getTime())).toBe(expected === "active")
+    })
+})
+
+describe("toInvoiceRequest", () => {
+    it.each([
+        [{}, { validation_period: 24, send_sms: "0" }],
+        [{ expiryHours: 48, sendSms: true }, { validation_period: 48, send_sms: "1" }],
+    ])("builds the create_invoice request for %o", (options, expected) => {
+        expect(toInvoiceRequest(session("pending"), options)).toEqual({
+            txnid: "TXN_1",
+            amount: "2499.00",
+            productinfo: "Order #12",
+            firstname: "Asha",
+            email: "asha@example.com",
+            phone: "9999999999",
+            time_unit: "H",
+            send_email_now: "1",
+            ...expected,
+        })
+    })
+})
+
+describe("toPaymentLink", () => {
+    it("computes the expiry from the validation period", () => {
+        const invoice = toInvoiceRequest(session("pending"), { expiryHours: 2, sendSms: true })
+
+        expect(toPaymentLink({ URL: link.url, Status: "Success" }, invoice, now)).toEqual({
+            url: link.url,
+            status: "active",
+            createdAt: "2026-03-10T10:00:00.000Z",
+            expiresAt: "2026-03-10T12:00:00.000Z",
+            emailedTo: "asha@example.com",
+            smsTo: "9999999999",
+        })
+    })
+
+    it("returns nothing when PayU did not create a link", () => {
+        const invoice = toInvoiceRequest(session("pending"))
+        expect(toPaymentLink({ status: 0, msg: "Duplicate transaction id" }, invoice, now)).toBeUndefined()
+    })
+})
@@ -0,0 +1,102 @@
+import {
+    getPaymentMethodRequestFields,
+    selectPaymentMethodRule,
+    toPaymentMethodPreference,
+    validatePaymentMethodPreference,
+    validatePaymentMethodRules,
+    validateSeamlessMethodAllowed,
+} from "../payment-method-rules"
+import type { PayuPaymentMethodRule, PayuSeamlessPaymentMethod } from "../types"
+
+const rules: PayuPaymentMethodRule[] = [
+    { id: "wholesale", customerGroupIds: ["cusgroup_wholesale"], enforcePaymethods: ["netbanking"] },
+    { id: "upi_only", regionIds: ["reg_in"], maxAmount: 500, enforcePaymethods: ["upi"] },
+    { id: "no_emi", minAmount: 500.01, dropCategories: ["EMI", "CASH"] },
+]
+
+describe("validatePaymentMethodRules", () => {
+    it.each([
+        ["the example rules", rules, undefined],
+        ["a rule without methods", [{ id: "empty", regionIds: ["reg_in"] }], "requires enforcePaymethods or dropCategories"],
+        ["a pipe in a code", [{ enforcePaymethods: ["upi|netbanking"] }], "invalid enforcePaymethods"],
+        ["a negative amount", [{ dropCategories: ["EMI"], minAmount: -1 }], "invalid amount range"],
+        ["an inverted range", [{ id: "r", dropCategories: ["EMI"], minAmount: 100, maxAmount: 50 }], "minAmount above maxAmount"],
+    ] as [string, PayuPaymentMethodRule[], string | undefined][])("checks %s", (_, value, expected) => {
+        const error = validatePaymentMethodRules(value)
+        if (expected) {
+            expect(error).toContain(expected)
+        } else {
+            expect(error).toBeUndefined()
+        }
+    })
+})
+
+describe("selectPaymentMethodRule", () => {
+    it.each([
+        ["a low-value cart in India", { region_id: "reg_in", amount: "499.00" }, "upi_only"],
+        ["a low-value cart at the range's end", { region_id: "reg_in", amount: "500.00" }, "upi_only"],
+        ["a low-value cart elsewhere", { region_id: "reg_eu", amount: "499.00" }, undefined],
+        ["a high-value cart", { region_id: "reg_in", amount: "2499.00" }, "no_emi"],
+        ["a wholesale customer", { region_id: "reg_in", customer_group_ids: ["cusgroup_wholesale"], amount: "499.00" }, "wholesale"],
+        ["a malformed amount", { region_id: "reg_in", amount: "NaN" }, undefined],
+    ])("matches %s", (_, criteria, expected) => {
+        expect(selectPaymentMethodRule(rules, criteria)?.id).toBe(expected)
+    })
+})
+
+describe("toPaymentMethodPreference", () => {
+    it.each([
+        [{}, {}],
+        [{ enforce_paymethod: "upi|netbanking" }, { preference: { enforcePaymethods: ["upi", "netbanking"] } }],
+        [{ enforce_paymethod: ["upi"], drop_category: ["EMI"] }, {
+            preference: { enforcePaymethods: ["upi"], dropCategories: ["EMI"] },
+        }],
+        [{ enforce_paymethod: [] }, { error: "enforce_paymethod must be a list of PayU codes" }],
+        [{ drop_category: [42] }, { error: "drop_category must be a list of PayU codes" }],
+    ])("reads %o", (data, expected) => {
+        expect(toPaymentMethodPreference(data)).toEqual(expected)
+    })
+})
+
+describe("validatePaymentMethodPreference", () => {
+    it.each([
+        ["any method without a rule", undefined, ["creditcard"], undefined],
+        ["an enforced method", rules[1], ["UPI"], undefined],
+        ["a method outside the enforced ones", rules[1], ["upi", "creditcard"], "creditcard are not available"],
+        ["a dropped category", rules[2], ["emi"], "emi are not available"],
+        ["a bank code when only categories are dropped", rules[2], ["HDFB"], undefined],
+    ] as [string, PayuPaymentMethodRule | undefined, string[], string | undefined][])("checks %s", (_, rule, enforcePaymethods, expected) => {
+        const error = validatePaymentMethodPreference(rule, { enforcePaymethods })
+        if (expected) {
+            expect(error).toContain(expected)
+        } else {
+            expect(error).toBeUndefined()
+        }
+    })
+})
+
+describe("validateSeamlessMethodAllowed", () => {
+    it.each([
+        ["UPI intent on a UPI-only cart", rules[1], { type: "upi_intent" }, true],
+        ["a credit card on a UPI-only cart", rules[1], { type: "card", card_type: "credit" }, false],
+        ["netbanking with an enforced bank code", { enforcePaymethods: ["HDFB"] }, { type: "netbanking", bankcode: "HDFB" }, true],
+        ["EMI when EMI is dropped", rules[2], { type: "emi", bankcode: "EMI6" }, false],
+        ["a card of either type when debit cards are dropped", { dropCategories: ["DC"] }, { type: "card" }, true],
+        ["a debit card when debit cards are dropped", { dropCategories: ["DC"] }, { type: "card", card_type: "debit", bankcode: "VISA" }, false],
+    ] as [string, PayuPaymentMethodRule, PayuSeamlessPaymentMethod, boolean][])("checks %s", (_, rule, method, allowed) => {
+        expect(validateSeamlessMethodAllowed(rule, method) === undefined).toBe(allowed)
+    })
+})
+
+describe("getPaymentMethodRequestFields", () => {
+    it.each([
+        ["no rule", undefined, undefined, {}],
+        ["a rule", rules[1], undefined, { enforce_paymethod: "upi" }],
+        ["the storefront's methods in its order", { enforcePaymethods: ["upi", "netbanking"] }, {
+            enforcePaymethods: ["netbanking", "upi"],
+        }, { enforce_paymethod: "netbanking|upi" }],
+        ["drops from both", rules[2], { dropCategories: ["cash", "NB"] }, { drop_category: "EMI|CASH|NB" }],
+    ] as [string, PayuPaymentMethodRule | undefined, object | undefined, object][])("builds the fields for %s", (_, rule, preference, expected) => {
+        expect(getPaymentMethodRequestFields(rule, preference)).toEqual(expected)
+    })
+})
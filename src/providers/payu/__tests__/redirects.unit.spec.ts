@@ -0,0 +1,124 @@
+import {
+    getEnvRedirectTemplates,
+    getRedirectTemplates,
+    renderRedirectUrl,
+    toRedirectOverrides,
+    validateRedirectOptions,
+    validateRedirectTemplate,
+} from "../redirects"
+
+describe("getEnvRedirectTemplates", () => {
+    it.each([
+        [{}, undefined],
+        [{ STOREFRONT_URL: "https://shop.example.com/" }, {
+            success: "https://shop.example.com/{country}/order/confirmed",
+            failure: "https://shop.example.com/{country}/checkout",
+        }],
+        [{ NEXT_PUBLIC_BASE_URL: "http://localhost:8000", PAYU_REDIRECT_URL: "thanks", PAYU_REDIRECT_FAILURE_URL: "/cart" }, {
+            success: "http://localhost:8000/{country}/thanks",
+            failure: "http://localhost:8000/{country}/cart",
+        }],
+    ])("builds the templates for %o", (env, expected) => {
+        expect(getEnvRedirectTemplates(env as NodeJS.ProcessEnv)).toEqual(expected)
+    })
+})
+
+describe("getRedirectTemplates", () => {
+    const env = { STOREFRONT_URL: "https://shop.example.com" }
+
+    it.each([
+        ["the environment", {}, {}, {
+            success: "https://shop.example.com/{country}/order/confirmed",
+            failure: "https://shop.example.com/{country}/checkout",
+            cancel: undefined,
+        }],
+        ["the provider options", { successUrl: "https://a.example.com/thanks", cancelUrl: "https://a.example.com/cart" }, {}, {
+            success: "https://a.example.com/thanks",
+            failure: "https://shop.example.com/{country}/checkout",
+            cancel: "https://a.example.com/cart",
+        }],
+        ["the session's overrides", { successUrl: "https://a.example.com/thanks" }, { success: "https://b.example.com/thanks" }, {
+            success: "https://b.example.com/thanks",
+            failure: "https://shop.example.com/{country}/checkout",
+            cancel: undefined,
+        }],
+    ])("prefers %s", (_, config, overrides, expected) => {
+        expect(getRedirectTemplates(config, overrides, env)).toEqual(expected)
+    })
+})
+
+describe("validateRedirectTemplate", () => {
+    it.each([
+        ["https://shop.example.com/{locale}/order/{cart_id}?txnid={txnid}", undefined],
+        ["http://localhost:8000/{country}/checkout", undefined],
+        ["/order/confirmed", "is not an absolute URL"],
+        ["javascript:alert(1)", "must be an http(s) URL"],
+        ["https://{locale}.shop.example.com/checkout", "only use placeholders in its path or query"],
+        ["https://shop.example.com/{region}/checkout", "unknown placeholders region"],
+    ])("checks %s", (template, expected) => {
+        const error = validateRedirectTemplate(template)
+        if (expected) {
+            expect(error).toContain(expected)
+        } else {
+            expect(error).toBeUndefined()
+        }
+    })
+})
+
+describe("validateRedirectOptions", () => {
+    const env = { STOREFRONT_URL: "https://shop.example.com" }
+    const pages = { successUrl: "https://shop.example.com/thanks", failureUrl: "https://shop.example.com/checkout" }
+
+    it.each([
+        [{}, env, undefined],
+        [{ ...pages }, {}, undefined],
+        [{ successUrl: "https://shop.example.com/order/{cart_id}", allowedRedirectOrigins: ["https://b.example.com/"] }, env, undefined],
+        [{ cancelUrl: "/cart" }, env, "redirect URL \"/cart\" is not an absolute URL"],
+        [{ allowedRedirectOrigins: ["b.example.com"] }, env, "\"b.example.com\" in allowedRedirectOrigins is not an origin"],
+        [{ successUrl: pages.successUrl }, {}, "successUrl and failureUrl options, or the STOREFRONT_URL environment variable, are required"],
+        [{}, { STOREFRONT_URL: "shop.example.com" },
+            "redirect URL from STOREFRONT_URL \"shop.example.com/{country}/order/confirmed\" is not an absolute URL"],
+        [{ successUrl: pages.successUrl }, { STOREFRONT_URL: "localhost:8000" },
+            "redirect URL from STOREFRONT_URL \"localhost:8000/{country}/checkout\" must be an http(s) URL"],
+    ])("checks %o with %o", (options, env, expected) => {
+        expect(validateRedirectOptions(options, env as NodeJS.ProcessEnv)).toBe(expected)
+    })
+})
+
+describe("toRedirectOverrides", () => {
+    const origins = ["https://shop-b.example.com/"]
+
+    it.each([
+        ["no overrides", {}, {}],
+        ["an allowed origin", { success_url: "https://shop-b.example.com/{locale}/thanks", cancel_url: "https://shop-b.example.com/cart" }, {
+            overrides: { success: "https://shop-b.example.com/{locale}/thanks", cancel: "https://shop-b.example.com/cart" },
+        }],
+        ["another origin", { failure_url: "https://evil.example.com/checkout" }, {
+            error: "failure_url must be on one of the allowed redirect origins",
+        }],
+        ["another port", { success_url: "https://shop-b.example.com:8443/thanks" }, {
+            error: "success_url must be on one of the allowed redirect origins",
+        }],
+        ["a relative URL", { success_url: "//evil.example.com/thanks" }, {
+            error: "success_url \"//evil.example.com/thanks\" is not an absolute URL",
+        }],
+    ])("reads %s", (_, data, expected) => {
+        expect(toRedirectOverrides(data, origins)).toEqual(expected)
+    })
+
+    it("rejects every override without allowed origins", () => {
+        expect(toRedirectOverrides({ success_url: "https://shop-b.example.com/thanks" }).error).toContain("allowed redirect origins")
+    })
+})
+
+describe("renderRedirectUrl", () => {
+    it.each([
+        ["http://localhost:8000/{country}/order/confirmed", { country: "in" }, "http://localhost:8000/in/order/confirmed"],
+        ["https://shop.example.com/{locale}/checkout", {}, "https://shop.example.com/checkout"],
+        ["https://shop.example.com/order?cart={cart_id}&t={txnid}", { cart_id: "cart_1", txnid: "TXN 1" },
+            "https://shop.example.com/order?cart=cart_1&t=TXN%201"],
+        ["https://shop.example.com/{country}/x", { country: "../admin" }, "https://shop.example.com/..%2Fadmin/x"],
+    ])("renders %s", (template, values, expected) => {
+        expect(renderRedirectUrl(template, values)).toBe(expected)
+    })
+})
@@ -0,0 +1,111 @@
+import {
+    findCardDataFields,
+    getSeamlessRequestFields,
+    isUpiMethod,
+    toUpiPayment,
+    usesSavedCards,
+    validateSeamlessPaymentMethod,
+} from "../seamless"
+import type { PayuSeamlessPaymentMethod } from "../types"
+
+describe("validateSeamlessPaymentMethod", () => {
+    it.each([
+        ["a credit card", { type: "card" }],
+        ["a credit card with a network", { type: "card", card_type: "credit", bankcode: "AMEX" }],
+        ["a debit card with a network", { type: "card", card_type: "debit", bankcode: "VISA" }],
+        ["a saved card", { type: "card", card_token: "8f3b2c1d" }],
+        ["a card to save", { type: "card", save_card: true }],
+        ["netbanking with a bank", { type: "netbanking", bankcode: "HDFB" }],
+        ["UPI collect with a VPA", { type: "upi_collect", vpa: "asha.k@okhdfcbank" }],
+        ["UPI intent", { type: "upi_intent" }],
+        ["an EMI plan", { type: "emi", bankcode: "EMI6" }],
+        ["a BNPL provider", { type: "bnpl", bankcode: "LAZYPAY" }],
+    ] as [string, Partial<PayuSeamlessPaymentMethod>][])("accepts %s", (_, method) => {
+        expect(validateSeamlessPaymentMethod(method)).toBeUndefined()
+    })
+
+    it.each([
+        ["no method", undefined, "payment_method.type is required"],
+        ["an unknown type", { type: "wallet" }, "Unsupported payment method 'wallet'"],
+        ["an unknown card type", { type: "card", card_type: "prepaid" }, "Unsupported card type 'prepaid'"],
+        ["a debit card without a network", { type: "card", card_type: "debit" }, "required for debit cards"],
+        ["an empty card token", { type: "card", card_token: " " }, "token of a saved card"],
+        ["netbanking without a bank", { type: "netbanking" }, "required for netbanking"],
+        ["UPI collect without a VPA", { type: "upi_collect" }, "valid UPI id"],
+        ["UPI collect with a malformed VPA", { type: "upi_collect", vpa: "asha@" }, "valid UPI id"],
+        ["EMI without a plan", { type: "emi" }, "required for EMI"],
+        ["BNPL without a provider", { type: "bnpl" }, "required for BNPL"],
+    ] as [string, Partial<PayuSeamlessPaymentMethod> | undefined, string][])("rejects %s", (_, method, error) => {
+        expect(validateSeamlessPaymentMethod(method)).toContain(error)
+    })
+})
+
+describe("getSeamlessRequestFields", () => {
+    it.each([
+        [{ type: "card" }, { pg: "CC", bankcode: "CC" }],
+        [{ type: "card", card_type: "credit", bankcode: "AMEX" }, { pg: "CC", bankcode: "AMEX" }],
+        [{ type: "card", card_type: "debit", bankcode: "VISA" }, { pg: "DC", bankcode: "VISA" }],
+        [{ type: "card", card_token: "8f3b2c1d" }, { pg: "CC", bankcode: "CC", store_card_token: "8f3b2c1d" }],
+        [{ type: "card", save_card: true }, { pg: "CC", bankcode: "CC", store_card: "1" }],
+        [{ type: "card", card_token: "8f3b2c1d", save_card: true }, { pg: "CC", bankcode: "CC", store_card_token: "8f3b2c1d" }],
+        [{ type: "netbanking", bankcode: "HDFB" }, { pg: "NB", bankcode: "HDFB" }],
+        [{ type: "upi_collect", vpa: "asha@okicici" }, { pg: "UPI", bankcode: "UPI", vpa: "asha@okicici" }],
+        [{ type: "upi_intent" }, { pg: "UPI", bankcode: "INTENT" }],
+        [{ type: "emi", bankcode: "EMI6" }, { pg: "EMI", bankcode: "EMI6" }],
+        [{ type: "bnpl", bankcode: "LAZYPAY" }, { pg: "BNPL", bankcode: "LAZYPAY" }],
+    ] as [PayuSeamlessPaymentMethod, Record<string, string>][])("maps %o to %o", (method, fields) => {
+        expect(getSeamlessRequestFields(method)).toEqual(fields)
+    })
+})
+
+describe("isUpiMethod", () => {
+    it.each([
+        [undefined, false],
+        [{ type: "card" }, false],
+        [{ type: "netbanking", bankcode: "HDFB" }, false],
+        [{ type: "upi_collect", vpa: "asha@okicici" }, true],
+        [{ type: "upi_intent" }, true],
+    ] as [PayuSeamlessPaymentMethod | undefined, boolean][])("%o is UPI: %s", (method, expected) => {
+        expect(isUpiMethod(method)).toBe(expected)
+    })
+})
+
+describe("usesSavedCards", () => {
+    it.each([
+        [undefined, false],
+        [{ type: "card" }, false],
+        [{ type: "card", card_token: "8f3b2c1d" }, true],
+        [{ type: "card", save_card: true }, true],
+        [{ type: "upi_intent" }, false],
+    ] as [PayuSeamlessPaymentMethod | undefined, boolean][])("%o uses saved cards: %s", (method, expected) => {
+        expect(usesSavedCards(method)).toBe(expected)
+    })
+})
+
+describe("findCardDataFields", () => {
+    it.each([
+        ["no data", undefined, []],
+        ["a payment method without card data", { payment_method: { type: "card", bankcode: "VISA" } }, []],
+        ["a card number", { ccnum: "4012001037141112" }, ["ccnum"]],
+        ["card fields in the payment method", { payment_method: { type: "card", ccvv: "123", ccexpyr: "2030" } }, ["ccvv", "ccexpyr"]],
+    ] as [string, Record<string, unknown> | undefined, string[]][])("finds %s", (_, data, fields) => {
+        expect(findCardDataFields(data)).toEqual(fields)
+    })
+})
+
+describe("toUpiPayment", () => {
+    it("builds the intent URI, also used as the QR payload", () => {
+        expect(toUpiPayment({ type: "upi_intent" }, { paymentId: "403993715", intentURIData: "pa=shop@payu&am=1499.00&cu=INR" }))
+            .toEqual({
+                flow: "intent",
+                paymentId: "403993715",
+                intentUri: "upi://pay?pa=shop@payu&am=1499.00&cu=INR",
+                qrPayload: "upi://pay?pa=shop@payu&am=1499.00&cu=INR",
+            })
+    })
+
+    it("records the VPA a collect request was sent to", () => {
+        expect(toUpiPayment({ type: "upi_collect", vpa: "asha@okicici" }, { paymentId: "403993716" }))
+            .toEqual({ flow: "collect", paymentId: "403993716", vpa: "asha@okicici" })
+    })
+})
@@ -0,0 +1,362 @@
+import crypto from "crypto"
+import { MedusaError, Modules, PaymentSessionStatus } from "@medusajs/framework/utils"
+import { PayuEmulator } from "../../../emulator/emulator"
+import { PAYU_MODULE } from "../../../modules/payu"
+import { PayuClient } from "../client"
+import PayuPaymentProviderService from "../service"
+import type { PayuProviderConfig, PayuSessionData } from "../types"
+
+const merchantKey = "emulator_key"
+const merchantSalt = "emulator_salt"
+
+/**
+ * Provider against the emulator, with the payment module services it reads stubbed out
+ */
+function createProvider(baseUrl: string, options: Partial<PayuProviderConfig> = {}, container: Record<string, unknown> = {}) {
+    return new PayuPaymentProviderService({ ...container }, {
+        merchantKey,
+        merchantSalt,
+        environment: "test",
+        baseUrl,
+        successUrl: "https://shop.example.com/{country}/order/confirmed",
+        failureUrl: "https://shop.example.com/{country}/checkout",
+        ...options,
+    })
+}
+
+/**
+ * Initiate a session and pay it on the emulator's checkout page
+ */
+async function pay(provider: PayuPaymentProviderService, amount = 1499): Promise<PayuSessionData> {
+    const { data } = await provider.initiatePayment({
+        amount,
+        currency_code: "inr",
+        data: { email: "asha@example.com", firstname: "Asha", phone: "9999999999", cart_id: "cart_123", session_id: "payses_123" },
+        context: {},
+    })
+    const { form_data: formData, paymentUrl } = data as unknown as PayuSessionData & { form_data: Record<string, string | undefined> }
+
+    const response = await fetch(paymentUrl!, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams(Object.entries(formData).filter((entry): entry is [string, string] => entry[1] !== undefined)),
+    })
+    expect(response.status).toBe(200)
+
+    const authorized = await provider.authorizePayment({ data })
+    expect(authorized.status).toBe(PaymentSessionStatus.AUTHORIZED)
+    return authorized.data as unknown as PayuSessionData
+}
+
+describe("PayuPaymentProviderService", () => {
+    const emulator = new PayuEmulator({ merchantKey, merchantSalt })
+    let baseUrl: string
+
+    beforeAll(async () => {
+        baseUrl = await emulator.start()
+    })
+
+    afterAll(async () => {
+        await emulator.stop()
+    })
+
+    beforeEach(() => {
+        emulator.reset()
+    })
+
+    describe("capturePayment", () => {
+        it("captures a pre-authorized payment with capture_transaction", async () => {
+            const provider = createProvider(baseUrl, { autoCapture: false })
+            const session = await pay(provider)
+            expect(session).toMatchObject({ preAuthorize: true, status: "authorized" })
+
+            const { data } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+
+            expect(data).toMatchObject({ status: "captured", capture: { amount: "1499.00", response: { status: 1 } } })
+            expect(emulator.getTransaction(session.txnid)?.actions).toEqual([
+                expect.objectContaining({ action: "capture", amount: "1499.00", token: (data as { capture: { tokenId: string } }).capture.tokenId }),
+            ])
+        })
+
+        it("captures the amount of Medusa's capture record", async () => {
+            const captureService = { retrieve: jest.fn().mockResolvedValue({ id: "capt_1", amount: 1000 }) }
+            const provider = createProvider(baseUrl, { autoCapture: false }, { captureService })
+            const session = await pay(provider)
+
+            const { data } = await provider.capturePayment({
+                data: session as unknown as Record<string, unknown>,
+                context: { idempotency_key: "capt_1" },
+            })
+
+            expect(captureService.retrieve).toHaveBeenCalledWith("capt_1", expect.anything())
+            expect(data).toMatchObject({ capture: { amount: "1000.00" } })
+            expect(emulator.getTransaction(session.txnid)?.actions).toEqual([
+                expect.objectContaining({ action: "capture", amount: "1000.00" }),
+            ])
+        })
+
+        it("rejects a capture above the authorized amount", async () => {
+            const captureService = { retrieve: jest.fn().mockResolvedValue({ id: "capt_1", amount: 2000 }) }
+            const provider = createProvider(baseUrl, { autoCapture: false }, { captureService })
+            const session = await pay(provider)
+
+            await expect(provider.capturePayment({
+                data: session as unknown as Record<string, unknown>,
+                context: { idempotency_key: "capt_1" },
+            })).rejects.toThrow("Invalid capture amount: 2000.00")
+            expect(emulator.getTransaction(session.txnid)?.actions).toEqual([])
+        })
+
+        it("reports a capture PayU refuses", async () => {
+            const provider = createProvider(baseUrl, { autoCapture: false })
+            const session = await pay(provider)
+            await provider.cancelPayment({ data: session as unknown as Record<string, unknown> })
+
+            const error = await provider.capturePayment({ data: session as unknown as Record<string, unknown> }).catch((e) => e)
+
+            expect(error).toBeInstanceOf(MedusaError)
+            expect(error.message).toBe("Capture failed: Transaction is not in authorized state")
+        })
+
+        it("only marks auto-captured payments as captured", async () => {
+            const provider = createProvider(baseUrl)
+            const session = await pay(provider)
+            expect(session.preAuthorize).toBe(false)
+
+            const { data } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+
+            expect(data).toMatchObject({ status: "captured" })
+            expect(emulator.getTransaction(session.txnid)?.actions).toEqual([])
+        })
+    })
+
+    describe("cancelPayment", () => {
+        it("releases the hold of a pre-authorized payment with cancel_transaction", async () => {
+            const provider = createProvider(baseUrl, { autoCapture: false })
+            const session = await pay(provider)
+
+            const { data } = await provider.cancelPayment({ data: session as unknown as Record<string, unknown> })
+
+            expect(data).toMatchObject({ status: "cancelled", cancellation: { amount: "1499.00", response: { status: 1 } } })
+            expect(emulator.getTransaction(session.txnid)).toMatchObject({
+                unmappedstatus: "userCancelled",
+                actions: [expect.objectContaining({ action: "cancel", amount: "1499.00" })],
+            })
+        })
+
+        it("cancels captured and unpaid sessions locally", async () => {
+            const provider = createProvider(baseUrl, { autoCapture: false })
+            const session = await pay(provider)
+            const { data: captured } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+
+            const { data } = await provider.cancelPayment({ data: captured })
+
+            expect(data).toMatchObject({ status: "cancelled" })
+            expect(emulator.getTransaction(session.txnid)?.actions.map((action) => action.action)).toEqual(["capture"])
+        })
+    })
+
+    describe("refundPayment", () => {
+        it("keeps every partial refund in the ledger and maps the payment status", async () => {
+            const provider = createProvider(baseUrl)
+            const session = await pay(provider)
+            const { data: captured } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+
+            const { data: first } = await provider.refundPayment({ data: captured, amount: 500 })
+            expect(first).toMatchObject({
+                status: "partially_refunded",
+                hasPendingRefunds: true,
+                refunds: [{ amount: "500.00", status: "pending" }],
+            })
+
+            const { data: second } = await provider.refundPayment({ data: first, amount: 999 })
+            expect(second).toMatchObject({
+                status: "refunded",
+                refunds: [{ amount: "500.00" }, { amount: "999.00", status: "pending" }],
+            })
+            expect(emulator.getTransaction(session.txnid)?.actions.map((action) => action.amount)).toEqual(["500.00", "999.00"])
+        })
+
+        it.each([
+            ["the captured amount", 0, 1499.01, "Refund amount 1499.01 exceeds the refundable amount 1499.00"],
+            ["what is left after a refund", 1000, 499.01, "Refund amount 499.01 exceeds the refundable amount 499.00"],
+        ])("rejects a refund above %s without calling PayU", async (_, refunded, amount, message) => {
+            const provider = createProvider(baseUrl)
+            const session = await pay(provider)
+            let { data } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+            if (refunded) {
+                data = (await provider.refundPayment({ data, amount: refunded })).data
+            }
+
+            await expect(provider.refundPayment({ data, amount })).rejects.toThrow(message)
+            expect(emulator.getTransaction(session.txnid)?.actions).toHaveLength(refunded ? 1 : 0)
+        })
+
+        it("no longer counts refunds PayU reported as failed", async () => {
+            const provider = createProvider(baseUrl)
+            const session = await pay(provider)
+            const { data: captured } = await provider.capturePayment({ data: session as unknown as Record<string, unknown> })
+            const failed = {
+                ...captured,
+                refunds: [{ tokenId: "REF_1", amount: "1499.00", request_id: "1", status: "failure", createdAt: "2026-10-19T00:00:00Z" }],
+            }
+
+            const { data } = await provider.refundPayment({ data: failed, amount: 1499 })
+
+            expect(data).toMatchObject({ status: "refunded", refunds: [{ status: "failure" }, { status: "pending" }] })
+        })
+    })
+
+    describe("dispute webhooks", () => {
+        it.each([
+            ["a valid amount", "1499.00", [{ name: "payu.dispute.received", data: expect.objectContaining({ type: "chargeback", amount: "1499.00" }) }]],
+            ["a missing amount", "", []],
+            ["a non-numeric amount", "abc", []],
+        ])("handles a chargeback with %s", async (_, amount, events) => {
+            const eventBus = { emit: jest.fn() }
+            const provider = createProvider(baseUrl, {}, { [Modules.EVENT_BUS]: eventBus })
+            const session = await pay(provider)
+
+            const result = await provider.getWebhookActionAndData({
+                data: emulator.buildResponse(session.txnid, { status: "chargeback", amount }),
+                rawData: "",
+                headers: {},
+            })
+
+            expect(result).toEqual({ action: "not_supported" })
+            expect(eventBus.emit.mock.calls.map(([event]) => event)).toEqual(events)
+        })
+    })
+
+    describe("replayWebhookEvent", () => {
+        /**
+         * Webhook log that already holds a delivery of every event: only replays are admitted
+         */
+        function webhookLog() {
+            return {
+                recordWebhookEvent: jest.fn(async (input: { replay_of?: string | null }) => ({
+                    event: { id: "payuwh_2" },
+                    duplicate: !input.replay_of,
+                })),
+            }
+        }
+
+        it("maps a logged event again and bypasses deduplication", async () => {
+            const payuModule = webhookLog()
+            const provider = createProvider(baseUrl, {}, { [PAYU_MODULE]: payuModule })
+            const session = await pay(provider)
+            const payload = emulator.buildResponse(session.txnid)
+
+            const delivered = await provider.getWebhookActionAndData({ data: payload, rawData: "", headers: {} })
+            const replayed = await provider.replayWebhookEvent({ id: "payuwh_1", payload })
+
+            expect(delivered).toEqual({ action: "not_supported" })
+            expect(replayed).toMatchObject({ action: "authorized", data: { session_id: "payses_123" } })
+            expect(payuModule.recordWebhookEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+                replay_of: "payuwh_1",
+                hash_verified: true,
+                action: "authorized",
+            }))
+        })
+
+        it("verifies the hash of the logged payload", async () => {
+            const payuModule = webhookLog()
+            const provider = createProvider(baseUrl, {}, { [PAYU_MODULE]: payuModule })
+            const session = await pay(provider)
+
+            const result = await provider.replayWebhookEvent({
+                id: "payuwh_1",
+                payload: { ...emulator.buildResponse(session.txnid), amount: "1.00" },
+            })
+
+            expect(result).toEqual({ action: "not_supported" })
+            expect(payuModule.recordWebhookEvent).toHaveBeenCalledWith(expect.objectContaining({
+                replay_of: "payuwh_1",
+                hash_verified: false,
+            }))
+        })
+    })
+
+    describe("merchant key check", () => {
+        const brand = { id: "brand", merchantKey: "brand_key", merchantSalt: "brand_salt" }
+
+        afterEach(() => {
+            jest.restoreAllMocks()
+        })
+
+        it("holds a payment PayU reports under another merchant key", async () => {
+            const provider = createProvider(baseUrl)
+            const { data } = await provider.initiatePayment({
+                amount: 1499,
+                currency_code: "inr",
+                data: { email: "asha@example.com", firstname: "Asha", phone: "9999999999", session_id: "payses_123" },
+                context: {},
+            })
+            const { txnid } = data as unknown as PayuSessionData
+            jest.spyOn(PayuClient.prototype, "verifyPayments").mockResolvedValue({
+                status: 1,
+                msg: "1 out of 1 Transactions Fetched Successfully",
+                transaction_details: {
+                    [txnid]: { mihpayid: "403993715500000001", status: "success", unmappedstatus: "captured", amt: "1499.00", key: "brand_key", txnid, mode: "UPI" },
+                },
+            })
+
+            const result = await provider.authorizePayment({ data })
+
+            expect(result.status).not.toBe(PaymentSessionStatus.AUTHORIZED)
+            expect(result.data).toMatchObject({ mismatches: [{ field: "key", expected: merchantKey, received: "brand_key" }] })
+        })
+
+        it.each([
+            ["the session's merchant key", merchantKey, merchantSalt, "authorized"],
+            ["another merchant's key", brand.merchantKey, brand.merchantSalt, "not_supported"],
+        ])("maps a webhook signed with %s", async (_, key, salt, action) => {
+            const paymentSessionService = {
+                list: jest.fn().mockResolvedValue([{ id: "payses_123", status: "pending", data: { merchantKey } }]),
+            }
+            const provider = createProvider(baseUrl, { merchants: [brand] }, { paymentSessionService })
+            const session = await pay(provider)
+            const payload: Record<string, string> = { ...emulator.buildResponse(session.txnid), key }
+            payload.hash = crypto.createHash("sha512").update(
+                `${salt}|${payload.status}||||||${payload.udf5}|${payload.udf4}|${payload.udf3}|${payload.udf2}|${payload.udf1}|` +
+                `${payload.email}|${payload.firstname}|${payload.productinfo}|${payload.amount}|${payload.txnid}|${key}`
+            ).digest("hex")
+
+            const result = await provider.getWebhookActionAndData({ data: payload, rawData: "", headers: {} })
+
+            expect(result.action).toBe(action)
+        })
+    })
+
+    describe("saving cards on the hosted checkout", () => {
+        const data = { email: "asha@example.com", firstname: "Asha", phone: "9999999999", session_id: "payses_123", save_card: true }
+
+        it("asks PayU's page to save the card for the logged-in customer", async () => {
+            const provider = createProvider(baseUrl)
+            const { data: session } = await provider.initiatePayment({
+                amount: 1499,
+                currency_code: "inr",
+                data,
+                context: { customer: { id: "cus_123", email: "asha@example.com" } },
+            })
+            const { form_data: formData, paymentUrl } = session as unknown as PayuSessionData & { form_data: Record<string, string | undefined> }
+
+            expect(formData).toMatchObject({ store_card: "1", user_credentials: `${merchantKey}:cus_123` })
+            expect(formData.ccnum).toBeUndefined()
+
+            await fetch(paymentUrl!, {
+                method: "POST",
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                body: new URLSearchParams(Object.entries(formData).filter((entry): entry is [string, string] => entry[1] !== undefined)),
+            })
+            expect(emulator.getSavedCards(`${merchantKey}:cus_123`)).toEqual([expect.objectContaining({ card_no: "512345XXXXXX2346" })])
+        })
+
+        it("rejects saving the card of a guest", async () => {
+            const provider = createProvider(baseUrl)
+
+            await expect(provider.initiatePayment({ amount: 1499, currency_code: "inr", data, context: {} }))
+                .rejects.toThrow("PayU: saved cards are only available to logged-in customers")
+        })
+    })
+})
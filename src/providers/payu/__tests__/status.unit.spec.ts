@@ -0,0 +1,82 @@
+import { PaymentSessionStatus } from "@medusajs/framework/utils"
+import { PAYU_SESSION_STATUS_MAP, resolvePayuStatus } from "../status"
+
+describe("resolvePayuStatus", () => {
+    it.each([
+        // status, unmappedstatus, expected payment status, expected action
+        ["success", "captured", "authorized", "authorized"],
+        ["success", "auth", "authorized", "authorized"],
+        ["success", "", "authorized", "authorized"],
+        ["success", undefined, "authorized", "authorized"],
+        ["pending", "pending", "pending", "pending"],
+        ["pending", "in progress", "pending", "pending"],
+        ["pending", "initiated", "pending", "pending"],
+        ["pending", undefined, "pending", "pending"],
+        ["failure", "bounced", "requires_more", "requires_more"],
+        ["failure", "dropped", "cancelled", "canceled"],
+        ["failure", "userCancelled", "cancelled", "canceled"],
+        ["failure", "failed", "failed", "failed"],
+        ["failure", undefined, "failed", "failed"],
+        ["failed", "", "failed", "failed"],
+        ["success", "auto-refund", "refunded", "canceled"],
+        ["refund", "", "refunded", "not_supported"],
+        ["refunded", undefined, "refunded", "not_supported"],
+    ])("maps status=%s unmappedstatus=%s to %s / %s", (status, unmappedstatus, expectedStatus, expectedAction) => {
+        expect(resolvePayuStatus(status, unmappedstatus)).toEqual({
+            status: expectedStatus,
+            action: expectedAction,
+        })
+    })
+
+    it.each([
+        // An authorized unmappedstatus is only trusted when PayU reports success
+        ["failure", "captured", "failed", "failed"],
+        ["pending", "auth", "pending", "pending"],
+        // A failed transaction never goes back to pending
+        ["failure", "pending", "failed", "failed"],
+        ["failure", "in progress", "failed", "failed"],
+    ])("rejects inconsistent status=%s unmappedstatus=%s as %s / %s", (status, unmappedstatus, expectedStatus, expectedAction) => {
+        expect(resolvePayuStatus(status, unmappedstatus)).toEqual({
+            status: expectedStatus,
+            action: expectedAction,
+        })
+    })
+
+    it.each([
+        ["SUCCESS", "CAPTURED"],
+        [" success ", " captured "],
+        ["Success", "Captured"],
+    ])("is case and whitespace insensitive for status=%p unmappedstatus=%p", (status, unmappedstatus) => {
+        expect(resolvePayuStatus(status, unmappedstatus)).toEqual({
+            status: "authorized",
+            action: "authorized",
+        })
+    })
+
+    it.each([
+        ["unknown", "unknown"],
+        ["", ""],
+        [undefined, undefined],
+        ["dispute", ""],
+    ])("does not act on unknown status=%p unmappedstatus=%p", (status, unmappedstatus) => {
+        expect(resolvePayuStatus(status, unmappedstatus)).toEqual({
+            status: "pending",
+            action: "not_supported",
+        })
+    })
+})
+
+describe("PAYU_SESSION_STATUS_MAP", () => {
+    it.each([
+        ["pending", PaymentSessionStatus.PENDING],
+        ["requires_more", PaymentSessionStatus.REQUIRES_MORE],
+        ["authorized", PaymentSessionStatus.AUTHORIZED],
+        ["captured", PaymentSessionStatus.AUTHORIZED],
+        ["failed", PaymentSessionStatus.ERROR],
+        ["partially_refunded", PaymentSessionStatus.AUTHORIZED],
+        ["refunded", PaymentSessionStatus.AUTHORIZED],
+        ["cancelled", PaymentSessionStatus.CANCELED],
+    ] as const)("maps %s to %s", (status, expected) => {
+        expect(PAYU_SESSION_STATUS_MAP[status]).toBe(expected)
+    })
+})
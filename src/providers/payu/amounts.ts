@@ -0,0 +1,77 @@
+/**
+ * PayU amount helpers
+ * PayU reports convenience fees (additional charges) separately from the
+ * transaction amount; Medusa only ever sees the transaction amount.
+ * Amounts are handled as decimals, never as floats.
+ */
+
+import { MathBN } from "@medusajs/framework/utils"
+
+/**
+ * Amounts of a PayU transaction
+ */
+export interface PayuChargedAmounts {
+    /** Transaction (order) amount, net of additional charges - reported to Medusa */
+    amount: string
+    /** Convenience fee PayU charged on top of the amount ("0.00" when none) */
+    additionalCharges: string
+    /** Total debited from the customer: amount + additionalCharges */
+    amountCharged: string
+}
+
+/**
+ * Parse a PayU amount as a decimal; missing or invalid values give NaN
+ */
+function toDecimal(value?: string | number) {
+    return MathBN.convert(typeof value === "string" ? value.trim() : value ?? "")
+}
+
+/**
+ * Parse a PayU amount, treating missing or invalid values as 0
+ */
+function toDecimalOrZero(value?: string | number) {
+    const decimal = toDecimal(value)
+    return decimal.isNaN() ? MathBN.convert(0) : decimal
+}
+
+/**
+ * Split a PayU callback or verify_payment result into net and gross amounts
+ *
+ * @param amount - `amount` of a callback, `amt` of verify_payment
+ * @param additionalCharges - `additionalCharges` of a callback, `additional_charges` of verify_payment
+ */
+export function resolvePayuAmounts(
+    amount?: string | number,
+    additionalCharges?: string | number
+): PayuChargedAmounts {
+    const net = toDecimalOrZero(amount)
+    const charges = toDecimalOrZero(additionalCharges)
+
+    return {
+        amount: net.toFixed(2),
+        additionalCharges: charges.toFixed(2),
+        amountCharged: MathBN.add(net, charges).toFixed(2),
+    }
+}
+
+/**
+ * Whether a callback or verify_payment result carries additional charges
+ */
+export function hasAdditionalCharges(additionalCharges?: string | number): boolean {
+    return MathBN.gt(toDecimalOrZero(additionalCharges), 0)
+}
+
+/**
+ * Whether a PayU amount is a well-formed decimal
+ */
+export function isValidPayuAmount(value?: string | number): boolean {
+    return !toDecimal(value).isNaN()
+}
+
+/**
+ * Whether two amounts are exactly equal as decimals ("1499" equals "1499.00")
+ * Missing or malformed amounts never match
+ */
+export function isSamePayuAmount(a?: string | number, b?: string | number): boolean {
+    return isValidPayuAmount(a) && isValidPayuAmount(b) && MathBN.eq(toDecimal(a), toDecimal(b))
+}
@@ -0,0 +1,103 @@
+/**
+ * PayU payment attempt helpers
+ * PayU rejects reused txnids, so every retry of a session is a new attempt
+ * with its own txnid; earlier attempts are kept in the session data
+ */
+
+import { generateTxnId } from "./client"
+import type { PayuPaymentAttempt, PayuPaymentStatus, PayuSessionData } from "./types"
+
+/**
+ * Default age after which an attempt PayU still reports as pending is considered expired
+ */
+export const DEFAULT_ATTEMPT_EXPIRY_MINUTES = 30
+
+/**
+ * Session statuses after which the current txnid can't be paid again
+ */
+const RETRYABLE_STATUSES: PayuPaymentStatus[] = ["failed", "cancelled", "requires_more"]
+
+/**
+ * Whether the session's current attempt ended without payment
+ */
+export function isRetryableStatus(status?: PayuPaymentStatus): boolean {
+    return !!status && RETRYABLE_STATUSES.includes(status)
+}
+
+/**
+ * Whether a pending attempt is older than the expiry
+ * Sessions without a start time use the timestamp embedded in generated txnids
+ */
+export function isAttemptExpired(
+    sessionData: PayuSessionData,
+    expiryMinutes = DEFAULT_ATTEMPT_EXPIRY_MINUTES,
+    now = Date.now()
+): boolean {
+    const startedAt = sessionData.attemptStartedAt
+        ? new Date(sessionData.attemptStartedAt).getTime()
+        : parseInt(sessionData.txnid.split("_")[1] ?? "", 10)
+
+    return !isNaN(startedAt) && now - startedAt >= expiryMinutes * 60 * 1000
+}
+
+/**
+ * All txnids of a session, the current attempt first
+ */
+export function getAttemptTxnids(sessionData: PayuSessionData): string[] {
+    return [sessionData.txnid, ...(sessionData.attempts || []).map((attempt) => attempt.txnid)]
+}
+
+/**
+ * Move the current attempt to the history and start a new one with a fresh txnid
+ * The caller re-signs the checkout for the new txnid
+ */
+export function startNewAttempt(
+    sessionData: PayuSessionData,
+    endedAs: PayuPaymentStatus,
+    now = new Date()
+): PayuSessionData {
+    const ended: PayuPaymentAttempt = {
+        txnid: sessionData.txnid,
+        amount: sessionData.amount,
+        status: endedAs,
+        startedAt: sessionData.attemptStartedAt,
+        endedAt: now.toISOString(),
+    }
+
+    return {
+        ...sessionData,
+        txnid: generateTxnId(),
+        status: "pending",
+        attemptStartedAt: now.toISOString(),
+        attempts: [...(sessionData.attempts || []), ended],
+        mismatches: undefined,
+        payuResponse: undefined,
+    }
+}
+
+/**
+ * Make an earlier attempt the current one (PayU reported it paid after a retry started)
+ * The replaced attempt moves to the history
+ */
+export function resumeAttempt(sessionData: PayuSessionData, txnid: string, now = new Date()): PayuSessionData {
+    const attempts = sessionData.attempts || []
+    const resumed = attempts.find((attempt) => attempt.txnid === txnid)
+    if (!resumed || txnid === sessionData.txnid) {
+        return sessionData
+    }
+
+    const replaced: PayuPaymentAttempt = {
+        txnid: sessionData.txnid,
+        amount: sessionData.amount,
+        status: sessionData.status,
+        startedAt: sessionData.attemptStartedAt,
+        endedAt: now.toISOString(),
+    }
+
+    return {
+        ...sessionData,
+        txnid: resumed.txnid,
+        attemptStartedAt: resumed.startedAt,
+        attempts: [...attempts.filter((attempt) => attempt.txnid !== txnid), replaced],
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * PayU saved card helpers
+ * Cards are stored in PayU's vault under the customer's user_credentials;
+ * Medusa only ever sees tokens and masked numbers
+ */
+
+import type { PayuUserCard, PayuUserCardsResponse } from "./types"
+
+/**
+ * Saved card returned by the store API
+ */
+export interface PayuSavedCard {
+    /** Pass as `payment_method.card_token` to pay with this card */
+    token: string
+    label?: string
+    name_on_card?: string
+    /** Masked card number, e.g. 512345XXXXXX2346 */
+    masked_number: string
+    /** CC or DC */
+    mode?: string
+    network?: string
+    brand?: string
+    expiry_month?: string
+    expiry_year?: string
+    expired: boolean
+    issuing_bank?: string
+}
+
+/**
+ * Whether get_user_cards failed only because the customer has no saved cards
+ */
+export function isCardVaultEmpty(response: PayuUserCardsResponse): boolean {
+    return response.status !== 1 && /card not found|no card/i.test(response.msg || "")
+}
+
+/**
+ * Saved card as exposed to the storefront
+ */
+export function toSavedCard(card: PayuUserCard): PayuSavedCard {
+    return {
+        token: card.card_token,
+        label: card.card_name,
+        name_on_card: card.name_on_card,
+        masked_number: card.card_no,
+        mode: card.card_mode,
+        network: card.card_type,
+        brand: card.card_brand,
+        expiry_month: card.expiry_month,
+        expiry_year: card.expiry_year,
+        expired: String(card.is_expired ?? "0") === "1",
+        issuing_bank: card.issuingBank,
+    }
+}
+
+/**
+ * Saved cards of a get_user_cards response (empty when the vault is empty)
+ */
+export function toSavedCards(response: PayuUserCardsResponse): PayuSavedCard[] {
+    return Object.entries(response.user_cards || {}).map(([token, card]) =>
+        toSavedCard({ ...card, card_token: card.card_token || token })
+    )
+}
@@ -6,7 +6,84 @@
 
 import crypto from "crypto"
 import type { Logger } from "@medusajs/framework/types"
-import type { PayuProviderConfig, PayuVerifyResponse, PayuRefundResponse } from "./types"
+import type {
+    PayuProviderConfig,
+    PayuVerifyResponse,
+    PayuRefundResponse,
+    PayuCaptureResponse,
+    PayuActionStatusResponse,
+    PayuPaymentRequestData,
+    PayuS2SPaymentResponse,
+    PayuUserCardActionResponse,
+    PayuUserCardsResponse,
+    PayuEmiAmountResponse,
+    PayuEmiBinEligibilityResponse,
+    PayuInvoiceRequest,
+    PayuInvoiceResponse,
+    PayuExpireInvoiceResponse,
+    PayuSiTransactionRequest,
+    PayuSiTransactionResponse,
+    PayuPreDebitRequest,
+    PayuPreDebitResponse,
+    PayuMandateStatusResponse,
+    PayuMandateRevokeResponse,
+} from "./types"
+
+/**
+ * Identifier recorded when a response matches the primary salt
+ */
+export const PRIMARY_SALT_ID = "primary"
+
+/**
+ * Identifier recorded when a response matches the salt version 2
+ */
+export const PRIMARY_SALT_V2_ID = "primary_v2"
+
+/**
+ * Fields of a PayU callback/webhook covered by the response hash
+ */
+export type PayuResponseHashParams = {
+    status: string
+    email: string
+    firstname: string
+    productinfo: string
+    amount: string
+    txnid: string
+    hash: string
+    udf1?: string
+    udf2?: string
+    udf3?: string
+    udf4?: string
+    udf5?: string
+    additionalCharges?: string
+}
+
+/**
+ * Lowercase hex SHA-512 digest
+ */
+function sha512(value: string): string {
+    return crypto.createHash("sha512").update(value).digest("hex").toLowerCase()
+}
+
+/**
+ * Hash values carried by a PayU response
+ * Salt version 2 responses may carry a JSON {"v1","v2"} object instead of a single hash
+ */
+function parseResponseHash(hash: string): string[] {
+    const value = (hash || "").trim()
+    if (!value.startsWith("{")) {
+        return [value.toLowerCase()]
+    }
+
+    try {
+        const parsed = JSON.parse(value) as Record<string, unknown>
+        return [parsed.v1, parsed.v2]
+            .filter((h): h is string => typeof h === "string" && h.length > 0)
+            .map((h) => h.toLowerCase())
+    } catch {
+        return []
+    }
+}
 
 /**
  * PayU Client for payment operations
@@ -56,6 +133,9 @@ export class PayuClient {
      * Get PayU payment URL
      */
     getPaymentUrl(): string {
+        if (this.config.baseUrl) {
+            return `${this.config.baseUrl.replace(/\/$/, "")}/_payment`
+        }
         return this.config.environment === "production"
             ? "https://secure.payu.in/_payment"
             : "https://test.payu.in/_payment"
@@ -68,6 +148,12 @@ export class PayuClient {
      * sha512(key|txnid|amount|productinfo|firstname|email|udf1|udf2|udf3|udf4|udf5||||||salt)
      * 
      * Note: "||||||" is a literal string (6 pipes) appended after udf5
+     *
+     * Mandate registrations also sign si_details, between the reserved fields and the salt:
+     * sha512(key|txnid|amount|productinfo|firstname|email|udf1|udf2|udf3|udf4|udf5||||||si_details|salt)
+     *
+     * With saltVersion 2 the same string is hashed with both salts and sent as JSON:
+     * {"v1":"<sha512 with merchantSalt>","v2":"<sha512 with merchantSaltV2>"}
      */
     generatePaymentHash(params: {
         txnid: string
@@ -80,9 +166,10 @@ export class PayuClient {
         udf3?: string
         udf4?: string
         udf5?: string
+        /** si_details JSON exactly as posted (mandate registrations only) */
+        si_details?: string
     }): string {
         const key = this.config.merchantKey
-        const salt = this.config.merchantSalt
         const udf1 = params.udf1 || ""
         const udf2 = params.udf2 || ""
         const udf3 = params.udf3 || ""
@@ -92,37 +179,79 @@ export class PayuClient {
         // Exact formula from PayU docs:
         // sha512(key|txnid|amount|productinfo|firstname|email|udf1|udf2|udf3|udf4|udf5||||||SALT)
         // The ||||||SALT means 5 empty reserved fields between udf5 and SALT (creating 6 pipes)
-        const hashString = `${key}|${params.txnid}|${params.amount}|${params.productinfo}|${params.firstname}|${params.email}|${udf1}|${udf2}|${udf3}|${udf4}|${udf5}||||||${salt}`
+        const siDetails = params.si_details ? `${params.si_details}|` : ""
+        const hashString = (salt: string) =>
+            `${key}|${params.txnid}|${params.amount}|${params.productinfo}|${params.firstname}|${params.email}|${udf1}|${udf2}|${udf3}|${udf4}|${udf5}||||||${siDetails}${salt}`
 
-        const generatedHash = crypto.createHash("sha512").update(hashString).digest("hex").toLowerCase()
+        const v1 = sha512(hashString(this.config.merchantSalt))
 
         this.logger?.debug?.(`PayU hash generated for txnid: ${params.txnid}`)
 
-        return generatedHash
+        if (this.config.saltVersion !== 2) {
+            return v1
+        }
+
+        if (!this.config.merchantSaltV2) {
+            throw new Error("PayU: merchantSaltV2 is required when saltVersion is 2")
+        }
+
+        return JSON.stringify({ v1, v2: sha512(hashString(this.config.merchantSaltV2)) })
     }
 
     /**
      * Verify response hash from PayU callback/webhook
+     * Accepts the primary salt (v1 or v2) and any previous salt that has not expired
      * 
      * Reverse hash formula:
      * sha512(salt|status||||||udf5|udf4|udf3|udf2|udf1|email|firstname|productinfo|amount|txnid|key)
      */
-    verifyResponseHash(params: {
-        status: string
-        email: string
-        firstname: string
-        productinfo: string
-        amount: string
-        txnid: string
-        hash: string
-        udf1?: string
-        udf2?: string
-        udf3?: string
-        udf4?: string
-        udf5?: string
-        additionalCharges?: string
-    }): boolean {
-        const salt = this.config.merchantSalt
+    verifyResponseHash(params: PayuResponseHashParams): boolean {
+        return this.matchResponseHash(params) !== null
+    }
+
+    /**
+     * Find the salt a PayU response was signed with
+     * Returns "primary", "primary_v2", the previous salt's id, or null when no valid salt matches
+     *
+     * The hash may be a single SHA-512 string or a salt version 2 JSON {"v1","v2"} object;
+     * either value signed with a known salt is accepted
+     */
+    matchResponseHash(params: PayuResponseHashParams): string | null {
+        const hashes = parseResponseHash(params.hash)
+        const matches = (salt: string) => hashes.includes(this.computeResponseHash(params, salt))
+
+        if (matches(this.config.merchantSalt)) {
+            return PRIMARY_SALT_ID
+        }
+
+        if (this.config.merchantSaltV2 && matches(this.config.merchantSaltV2)) {
+            return PRIMARY_SALT_V2_ID
+        }
+
+        const now = Date.now()
+        for (const [index, previous] of (this.config.previousSalts || []).entries()) {
+            if (!matches(previous.salt)) {
+                continue
+            }
+
+            const saltId = previous.id || `previous_${index + 1}`
+            if (previous.expiresAt && new Date(previous.expiresAt).getTime() <= now) {
+                this.logger?.warn?.(
+                    `PayU response for txnid ${params.txnid} is signed with salt ${saltId}, ` +
+                    `which expired at ${previous.expiresAt} - rejected`
+                )
+                return null
+            }
+            return saltId
+        }
+
+        return null
+    }
+
+    /**
+     * Compute the reverse hash of a PayU response with the given salt
+     */
+    private computeResponseHash(params: PayuResponseHashParams, salt: string): string {
         const key = this.config.merchantKey
         const udf1 = params.udf1 || ""
         const udf2 = params.udf2 || ""
@@ -137,34 +266,75 @@ export class PayuClient {
             hashString = `${salt}|${params.status}||||||${udf5}|${udf4}|${udf3}|${udf2}|${udf1}|${params.email}|${params.firstname}|${params.productinfo}|${params.amount}|${params.txnid}|${key}`
         }
 
-        const calculatedHash = crypto.createHash("sha512").update(hashString).digest("hex").toLowerCase()
-        return calculatedHash === params.hash.toLowerCase()
+        return sha512(hashString)
     }
 
     /**
-     * Verify payment status with PayU API
+     * Start a seamless payment server-to-server (txn_s2s_flow=4)
+     * PayU answers with JSON instead of a redirect; used for UPI collect and intent
+     * https://docs.payu.in/docs/upi-intent-server-to-server
      */
-    async verifyPayment(txnid: string): Promise<PayuVerifyResponse> {
-        const command = "verify_payment"
-        const hashString = `${this.config.merchantKey}|${command}|${txnid}|${this.config.merchantSalt}`
-        const hash = crypto.createHash("sha512").update(hashString).digest("hex")
+    async initiateS2SPayment(request: PayuPaymentRequestData): Promise<PayuS2SPaymentResponse> {
+        const response = await this.fetchWithTimeout(this.getPaymentUrl(), {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams(
+                Object.entries({ ...request, txn_s2s_flow: "4" })
+                    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+            ),
+        })
 
-        const apiUrl = this.config.environment === "production"
+        return response.json() as Promise<PayuS2SPaymentResponse>
+    }
+
+    /**
+     * Get PayU postservice (merchant API) URL
+     */
+    private getPostServiceUrl(): string {
+        if (this.config.baseUrl) {
+            return `${this.config.baseUrl.replace(/\/$/, "")}/merchant/postservice.php?form=2`
+        }
+        return this.config.environment === "production"
             ? "https://info.payu.in/merchant/postservice.php?form=2"
             : "https://test.payu.in/merchant/postservice.php?form=2"
+    }
 
-        const response = await this.fetchWithTimeout(apiUrl, {
+    /**
+     * Call a PayU postservice command
+     *
+     * Hash formula for all commands: sha512(key|command|var1|salt)
+     * The merchant API is always signed with the version 1 salt
+     */
+    private async postService<T>(command: string, vars: Record<string, string>): Promise<T> {
+        const hash = sha512(`${this.config.merchantKey}|${command}|${vars.var1}|${this.config.merchantSalt}`)
+
+        const response = await this.fetchWithTimeout(this.getPostServiceUrl(), {
             method: "POST",
             headers: { "Content-Type": "application/x-www-form-urlencoded" },
             body: new URLSearchParams({
                 key: this.config.merchantKey,
                 command: command,
-                var1: txnid,
+                ...vars,
                 hash: hash,
             }),
         })
 
-        return response.json() as Promise<PayuVerifyResponse>
+        return response.json() as Promise<T>
+    }
+
+    /**
+     * Verify payment status with PayU API
+     */
+    async verifyPayment(txnid: string): Promise<PayuVerifyResponse> {
+        return this.postService<PayuVerifyResponse>("verify_payment", { var1: txnid })
+    }
+
+    /**
+     * Verify several transactions in one call
+     * PayU accepts pipe-separated txnids in var1; results are keyed by txnid
+     */
+    async verifyPayments(txnids: string[]): Promise<PayuVerifyResponse> {
+        return this.verifyPayment(txnids.join("|"))
     }
 
     /**
@@ -175,29 +345,139 @@ export class PayuClient {
         tokenId: string,
         amount: string
     ): Promise<PayuRefundResponse> {
-        const command = "cancel_refund_transaction"
-        const hashString = `${this.config.merchantKey}|${command}|${mihpayid}|${this.config.merchantSalt}`
-        const hash = crypto.createHash("sha512").update(hashString).digest("hex")
+        return this.postService<PayuRefundResponse>("cancel_refund_transaction", {
+            var1: mihpayid,
+            var2: tokenId,
+            var3: amount,
+        })
+    }
 
-        const apiUrl = this.config.environment === "production"
-            ? "https://info.payu.in/merchant/postservice.php?form=2"
-            : "https://test.payu.in/merchant/postservice.php?form=2"
+    /**
+     * Check the status of a refund (or other action) by the request_id
+     * returned when it was submitted
+     */
+    async checkRefundStatus(requestId: string): Promise<PayuActionStatusResponse> {
+        return this.postService<PayuActionStatusResponse>("check_action_status", { var1: requestId })
+    }
 
-        const response = await this.fetchWithTimeout(apiUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/x-www-form-urlencoded" },
-            body: new URLSearchParams({
-                key: this.config.merchantKey,
-                command: command,
-                var1: mihpayid,
-                var2: tokenId,
-                var3: amount,
-                hash: hash,
-            }),
+    /**
+     * Capture a pre-authorized (authorize-only) transaction
+     * Amount may be lower than the authorized amount for partial capture
+     */
+    async capture(
+        mihpayid: string,
+        tokenId: string,
+        amount: string
+    ): Promise<PayuCaptureResponse> {
+        return this.postService<PayuCaptureResponse>("capture_transaction", {
+            var1: mihpayid,
+            var2: tokenId,
+            var3: amount,
+        })
+    }
+
+    /**
+     * Release the hold on a pre-authorized transaction
+     */
+    async cancelTransaction(
+        mihpayid: string,
+        tokenId: string,
+        amount: string
+    ): Promise<PayuCaptureResponse> {
+        return this.postService<PayuCaptureResponse>("cancel_transaction", {
+            var1: mihpayid,
+            var2: tokenId,
+            var3: amount,
+        })
+    }
+
+    /**
+     * Create a payment link (invoice) for a txnid
+     * PayU emails and/or texts the link when requested; its payment webhook carries the txnid
+     */
+    async createInvoice(invoice: PayuInvoiceRequest): Promise<PayuInvoiceResponse> {
+        return this.postService<PayuInvoiceResponse>("create_invoice", { var1: JSON.stringify(invoice) })
+    }
+
+    /**
+     * Expire an unpaid payment link
+     */
+    async expireInvoice(txnid: string): Promise<PayuExpireInvoiceResponse> {
+        return this.postService<PayuExpireInvoiceResponse>("expire_invoice", { var1: txnid })
+    }
+
+    /**
+     * Debit a registered mandate (standing instruction) for a renewal
+     * The debit gets its own txnid; PayU reports it as captured, pending or failed
+     */
+    async recurringDebit(request: PayuSiTransactionRequest): Promise<PayuSiTransactionResponse> {
+        return this.postService<PayuSiTransactionResponse>("si_transaction", { var1: JSON.stringify(request) })
+    }
+
+    /**
+     * Notify the customer of an upcoming mandate debit
+     * RBI rules require the notification at least 24 hours before the debit
+     */
+    async sendPreDebitNotification(request: PayuPreDebitRequest): Promise<PayuPreDebitResponse> {
+        return this.postService<PayuPreDebitResponse>("pre_debit_SI", { var1: JSON.stringify(request) })
+    }
+
+    /**
+     * Current status of a mandate at PayU
+     */
+    async checkMandateStatus(authPayuId: string, requestId: string): Promise<PayuMandateStatusResponse> {
+        return this.postService<PayuMandateStatusResponse>("check_mandate_status", {
+            var1: JSON.stringify({ authPayuId, requestId }),
         })
+    }
+
+    /**
+     * Cancel a mandate; no further debits are accepted for it
+     */
+    async revokeMandate(authPayuId: string, requestId: string): Promise<PayuMandateRevokeResponse> {
+        return this.postService<PayuMandateRevokeResponse>("mandate_revoke", {
+            var1: JSON.stringify({ authPayuId, requestId }),
+        })
+    }
 
-        return response.json() as Promise<PayuRefundResponse>
+    /**
+     * EMI plans (card and cardless) available for an amount, with installments and interest
+     */
+    async getEmiAmountAccordingToInterest(amount: string): Promise<PayuEmiAmountResponse> {
+        return this.postService<PayuEmiAmountResponse>("getEmiAmountAccordingToInterest", { var1: amount })
+    }
+
+    /**
+     * Check whether cards with this BIN (first 6 digits) can be paid in EMI
+     */
+    async checkEmiEligibleBin(bin: string): Promise<PayuEmiBinEligibilityResponse> {
+        return this.postService<PayuEmiBinEligibilityResponse>("eligibleBinsForEMI", { var1: "bin", var2: bin })
+    }
+
+    /**
+     * List the cards saved for user_credentials
+     */
+    async getUserCards(userCredentials: string): Promise<PayuUserCardsResponse> {
+        return this.postService<PayuUserCardsResponse>("get_user_cards", { var1: userCredentials })
     }
+
+    /**
+     * Delete a saved card of user_credentials
+     */
+    async deleteUserCard(userCredentials: string, cardToken: string): Promise<PayuUserCardActionResponse> {
+        return this.postService<PayuUserCardActionResponse>("delete_user_card", {
+            var1: userCredentials,
+            var2: cardToken,
+        })
+    }
+}
+
+/**
+ * PayU user_credentials of a customer: "<merchant key>:<customer id>"
+ * Identifies the customer's saved card vault at PayU
+ */
+export function getUserCredentials(merchantKey: string, customerId: string): string {
+    return `${merchantKey}:${customerId}`
 }
 
 /**
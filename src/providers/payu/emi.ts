@@ -0,0 +1,135 @@
+/**
+ * PayU EMI helpers
+ * Turns getEmiAmountAccordingToInterest and eligibleBinsForEMI responses into
+ * the plans offered to the storefront
+ */
+
+import { MathBN } from "@medusajs/framework/utils"
+import type { PayuEmiAmountPlan, PayuEmiAmountResponse, PayuEmiBinEligibilityResponse } from "./types"
+
+/**
+ * EMI plan returned by the store API
+ */
+export interface PayuEmiPlan {
+    /** Bank or lender, e.g. HDFC */
+    bank: string
+    /** Pass as `payment_method.bankcode` with `type: "emi"` to pay with this plan */
+    bankcode: string
+    /** Card EMI needs a card of the bank; cardless EMI is approved by the lender at checkout */
+    type: "card" | "cardless"
+    card_type?: "credit" | "debit"
+    tenure_months: number
+    /** Annual interest rate in percent */
+    interest_rate: string
+    monthly_installment: string
+    interest_amount: string
+    /** Amount paid back over the tenure */
+    total_amount: string
+    processing_fee?: string
+}
+
+/**
+ * BIN eligibility of a card for EMI
+ */
+export interface PayuEmiBinEligibility {
+    eligible: boolean
+    bank?: string
+    card_type?: "credit" | "debit"
+}
+
+/**
+ * Format a PayU number as a 2-decimal amount ("0.00" when missing or invalid)
+ */
+function toAmount(value?: string | number): string {
+    const decimal = MathBN.convert(value ?? 0)
+    return (decimal.isNaN() ? MathBN.convert(0) : decimal).toFixed(2)
+}
+
+/**
+ * Tenure in months from "6 months", falling back to the digits of the bankcode (EMI6, EMIA12)
+ */
+function toTenureMonths(plan: PayuEmiAmountPlan, bankcode: string): number {
+    const months = parseInt(plan.tenure ?? "", 10)
+    return isNaN(months) ? parseInt(bankcode.match(/(\d+)$/)?.[1] ?? "0", 10) : months
+}
+
+/**
+ * CC / DC card type as credit / debit
+ */
+function toCardType(cardType?: string): "credit" | "debit" | undefined {
+    switch (cardType?.toUpperCase()) {
+        case "CC":
+            return "credit"
+        case "DC":
+            return "debit"
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Whether getEmiAmountAccordingToInterest returned an error instead of plans
+ */
+export function isEmiErrorResponse(response: PayuEmiAmountResponse): boolean {
+    return response.status === 0
+}
+
+/**
+ * EMI plans of a getEmiAmountAccordingToInterest response, shortest tenure first per bank
+ */
+export function toEmiPlans(response: PayuEmiAmountResponse): PayuEmiPlan[] {
+    if (isEmiErrorResponse(response)) {
+        return []
+    }
+
+    return Object.entries(response)
+        .filter(([, plans]) => plans !== null && typeof plans === "object")
+        .flatMap(([bank, plans]) =>
+            Object.entries(plans as Record<string, PayuEmiAmountPlan>).map(([bankcode, plan]): PayuEmiPlan => {
+                const cardType = toCardType(plan.card_type)
+                return {
+                    bank,
+                    bankcode,
+                    type: cardType ? "card" : "cardless",
+                    ...(cardType && { card_type: cardType }),
+                    tenure_months: toTenureMonths(plan, bankcode),
+                    interest_rate: String(plan.emiBankInterest ?? "0"),
+                    monthly_installment: toAmount(plan.emi_value ?? plan.amount),
+                    interest_amount: toAmount(plan.emi_interest_paid),
+                    total_amount: toAmount(plan.paybackAmount ?? MathBN.add(
+                        toAmount(plan.loanAmount ?? plan.transactionAmount),
+                        toAmount(plan.emi_interest_paid)
+                    ).toFixed(2)),
+                    ...(plan.processingFee !== undefined && { processing_fee: toAmount(plan.processingFee) }),
+                }
+            })
+        )
+        .sort((a, b) => a.bank.localeCompare(b.bank) || a.tenure_months - b.tenure_months)
+}
+
+/**
+ * Read an eligibleBinsForEMI response
+ */
+export function toEmiBinEligibility(response: PayuEmiBinEligibilityResponse): PayuEmiBinEligibility {
+    const isEligible = response.details?.isEligible
+    const eligible = response.status === 1 && (isEligible === true || String(isEligible) === "1" || String(isEligible) === "true")
+
+    return {
+        eligible,
+        ...(eligible && response.details?.bank && { bank: response.details.bank }),
+        ...(eligible && toCardType(response.details?.cardType) && { card_type: toCardType(response.details?.cardType) }),
+    }
+}
+
+/**
+ * Keep the plans a card can use: its bank's card EMI plans and all cardless plans
+ */
+export function filterEmiPlansForCard(plans: PayuEmiPlan[], eligibility: PayuEmiBinEligibility): PayuEmiPlan[] {
+    return plans.filter((plan) =>
+        plan.type === "cardless" || (
+            eligibility.eligible
+            && plan.bank.toUpperCase() === eligibility.bank?.toUpperCase()
+            && (!eligibility.card_type || plan.card_type === eligibility.card_type)
+        )
+    )
+}
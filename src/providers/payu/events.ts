@@ -0,0 +1,21 @@
+/**
+ * PayU Events
+ * Emitted on the Medusa event bus for plugin and project subscribers
+ */
+
+export const PayuEvents = {
+    /** Dispute/chargeback webhook received and verified (payload: PayuDispute) */
+    DISPUTE_RECEIVED: "payu.dispute.received",
+    /** Dispute stored by the handle-payu-dispute workflow (payload: { id }) */
+    DISPUTE_CREATED: "payu.dispute.created",
+    /** Existing dispute updated by a repeated webhook (payload: { id }) */
+    DISPUTE_UPDATED: "payu.dispute.updated",
+    /** PayU reported a payment that does not match its session; held as requires_more (payload: PayuPaymentMismatchEvent) */
+    PAYMENT_MISMATCH: "payu.payment.mismatch",
+    /** Payment link created and sent for an order (payload: { order_id, payment_session_id, txnid, url, expires_at }) */
+    PAYMENT_LINK_CREATED: "payu.payment_link.created",
+    /** Mandate registered with an authorized mandate checkout and stored for its customer (payload: { id, customer_id }) */
+    MANDATE_REGISTERED: "payu.mandate.registered",
+    /** Renewal debited from a mandate by charge-payu-mandate (payload: { id, mandate_id, customer_id, status }) */
+    MANDATE_CHARGED: "payu.mandate.charged",
+} as const
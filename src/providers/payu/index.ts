@@ -11,4 +11,17 @@ export default ModuleProvider(Modules.PAYMENT, {
 
 export { PayuPaymentProviderService, PAYU_PROVIDER_ID }
 export * from "./types"
+export * from "./events"
+export * from "./status"
+export * from "./merchants"
+export * from "./amounts"
+export * from "./mismatch"
+export * from "./attempts"
 
+export * from "./seamless"
+export * from "./cards"
+export * from "./emi"
+export * from "./payment-links"
+export * from "./mandates"
+export * from "./payment-method-rules"
+export * from "./redirects"
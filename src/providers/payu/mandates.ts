@@ -0,0 +1,204 @@
+/**
+ * PayU standing instruction (mandate) helpers
+ * A mandate checkout registers si_details with the first payment; renewals are then
+ * debited server-side with si_transaction against the registration's mihpayid.
+ * https://docs.payu.in/docs/recurring-payments-integration
+ */
+
+import { MathBN } from "@medusajs/framework/utils"
+import { isValidPayuAmount } from "./amounts"
+import type {
+    PayuMandateInput,
+    PayuMandateStatusResponse,
+    PayuPaymentRequestData,
+    PayuSiBillingCycle,
+    PayuSiDetails,
+    PayuSiTransactionResponse,
+} from "./types"
+
+/**
+ * Billing cycles a mandate can be registered with
+ */
+export const SI_BILLING_CYCLES: PayuSiBillingCycle[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY", "ADHOC"]
+
+/**
+ * Status of a registered mandate
+ */
+export type PayuMandateStatus = "active" | "paused" | "cancelled" | "expired"
+
+/**
+ * Result of a recurring debit
+ */
+export type PayuMandateChargeStatus = "pending" | "success" | "failed"
+
+/**
+ * Stored mandate terms a renewal is checked against
+ */
+export interface PayuMandateTerms {
+    status: PayuMandateStatus
+    max_amount: string | number
+    billing_rule: "MAX" | "EXACT"
+    start_date: Date | string
+    end_date: Date | string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Whether the value is a calendar date in YYYY-MM-DD form
+ */
+function isIsoDate(value?: string): boolean {
+    if (!value || !DATE_PATTERN.test(value)) {
+        return false
+    }
+    const date = new Date(`${value}T00:00:00Z`)
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * Check the mandate requested for a mandate checkout
+ * Returns an error message, or undefined when valid
+ */
+export function validateMandateInput(input?: Partial<PayuMandateInput>, now = new Date()): string | undefined {
+    if (!input?.billing_cycle) {
+        return "mandate.billing_cycle is required for the mandate checkout"
+    }
+    if (!SI_BILLING_CYCLES.includes(input.billing_cycle)) {
+        return `Unsupported billing cycle '${input.billing_cycle}'. Use one of: ${SI_BILLING_CYCLES.join(", ")}`
+    }
+    if (input.billing_interval !== undefined && (!Number.isInteger(input.billing_interval) || input.billing_interval < 1)) {
+        return "mandate.billing_interval must be a whole number of billing cycles"
+    }
+    if (input.billing_rule !== undefined && input.billing_rule !== "MAX" && input.billing_rule !== "EXACT") {
+        return `Unsupported billing rule '${input.billing_rule}'. Use MAX or EXACT`
+    }
+    if (!isValidPayuAmount(input.max_amount) || MathBN.lte(MathBN.convert(input.max_amount!), 0)) {
+        return "mandate.max_amount must be a positive amount"
+    }
+    if (!isIsoDate(input.start_date) || !isIsoDate(input.end_date)) {
+        return "mandate.start_date and mandate.end_date must be dates (YYYY-MM-DD)"
+    }
+    if (input.start_date! < now.toISOString().substring(0, 10)) {
+        return "mandate.start_date can't be in the past"
+    }
+    if (input.end_date! <= input.start_date!) {
+        return "mandate.end_date must be after mandate.start_date"
+    }
+    return undefined
+}
+
+/**
+ * si_details of a validated mandate
+ */
+export function toSiDetails(input: PayuMandateInput, currencyCode: string): PayuSiDetails {
+    return {
+        billingAmount: MathBN.convert(input.max_amount).toFixed(2),
+        billingCurrency: currencyCode.toUpperCase(),
+        billingCycle: input.billing_cycle,
+        billingInterval: input.billing_interval ?? 1,
+        paymentStartDate: input.start_date,
+        paymentEndDate: input.end_date,
+        billingRule: input.billing_rule ?? "MAX",
+        billingLimit: "ON",
+    }
+}
+
+/**
+ * si_details as posted and signed
+ * Keys are written in a fixed order; stored session data may not keep the original order
+ */
+export function serializeSiDetails(siDetails: PayuSiDetails): string {
+    return JSON.stringify({
+        billingAmount: siDetails.billingAmount,
+        billingCurrency: siDetails.billingCurrency,
+        billingCycle: siDetails.billingCycle,
+        billingInterval: siDetails.billingInterval,
+        paymentStartDate: siDetails.paymentStartDate,
+        paymentEndDate: siDetails.paymentEndDate,
+        billingRule: siDetails.billingRule,
+        billingLimit: siDetails.billingLimit,
+        remarks: siDetails.remarks,
+    })
+}
+
+/**
+ * Checkout fields registering the mandate with the payment
+ */
+export function getMandateRequestFields(
+    siDetails: PayuSiDetails
+): Pick<PayuPaymentRequestData, "api_version" | "si" | "si_details"> {
+    return { api_version: "7", si: "1", si_details: serializeSiDetails(siDetails) }
+}
+
+/**
+ * Mandate status reported by check_mandate_status (undefined when PayU gave none)
+ */
+export function toMandateStatus(response: PayuMandateStatusResponse): PayuMandateStatus | undefined {
+    if (response.status !== 1) {
+        return undefined
+    }
+
+    switch (response.details?.status?.toUpperCase()) {
+        case "ACTIVE":
+            return "active"
+        case "PAUSED":
+            return "paused"
+        case "REVOKED":
+        case "CANCELLED":
+            return "cancelled"
+        case "EXPIRED":
+            return "expired"
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Result of an si_transaction debit
+ */
+export function toMandateChargeResult(
+    response: PayuSiTransactionResponse,
+    txnid: string
+): { status: PayuMandateChargeStatus; mihpayid?: string; error?: string } {
+    const debit = response.details?.[txnid]
+    if (response.status !== 1 || !debit) {
+        return { status: "failed", error: response.message || "PayU did not accept the debit" }
+    }
+
+    const status = debit.status?.toLowerCase()
+    if (status === "captured" || status === "success") {
+        return { status: "success", mihpayid: debit.payuId }
+    }
+    if (status === "pending" || status === "in progress") {
+        return { status: "pending", mihpayid: debit.payuId }
+    }
+    return { status: "failed", mihpayid: debit.payuId, error: debit.field9 || debit.error_code || response.message }
+}
+
+/**
+ * Check a renewal against the mandate's terms
+ * Returns an error message, or undefined when the mandate can be debited for the amount
+ */
+export function validateMandateCharge(mandate: PayuMandateTerms, amount: string, now = new Date()): string | undefined {
+    if (mandate.status !== "active") {
+        return `the mandate is ${mandate.status}`
+    }
+
+    const today = now.toISOString().substring(0, 10)
+    const toDate = (value: Date | string) => new Date(value).toISOString().substring(0, 10)
+    if (today < toDate(mandate.start_date) || today > toDate(mandate.end_date)) {
+        return `the mandate only allows debits from ${toDate(mandate.start_date)} to ${toDate(mandate.end_date)}`
+    }
+
+    if (!isValidPayuAmount(amount) || MathBN.lte(MathBN.convert(amount), 0)) {
+        return "the amount must be a positive amount"
+    }
+    const maxAmount = MathBN.convert(mandate.max_amount)
+    if (mandate.billing_rule === "EXACT" && !MathBN.eq(MathBN.convert(amount), maxAmount)) {
+        return `the mandate only allows debits of exactly ${maxAmount.toFixed(2)}`
+    }
+    if (MathBN.gt(MathBN.convert(amount), maxAmount)) {
+        return `the mandate allows debits of at most ${maxAmount.toFixed(2)}`
+    }
+    return undefined
+}
@@ -0,0 +1,131 @@
+/**
+ * PayU merchant profile helpers
+ * Resolve which PayU merchant account (MID) a payment belongs to
+ */
+
+import type { PayuMerchantProfile, PayuProviderConfig } from "./types"
+
+/**
+ * Profile id of the top-level merchantKey/merchantSalt
+ */
+export const DEFAULT_MERCHANT_PROFILE = "default"
+
+/**
+ * Attributes of a payment used to choose its merchant profile
+ */
+export interface PayuMerchantCriteria {
+    sales_channel_id?: string
+    region_id?: string
+    currency_code?: string
+}
+
+/**
+ * All merchant profiles in the config, the default profile last
+ */
+export function getMerchantProfiles(config: PayuProviderConfig): PayuMerchantProfile[] {
+    const profiles = [...(config.merchants || [])]
+
+    if (config.merchantKey && config.merchantSalt && !profiles.some((p) => p.id === DEFAULT_MERCHANT_PROFILE)) {
+        profiles.push({
+            id: DEFAULT_MERCHANT_PROFILE,
+            merchantKey: config.merchantKey,
+            merchantSalt: config.merchantSalt,
+            merchantSaltV2: config.merchantSaltV2,
+            saltVersion: config.saltVersion,
+            previousSalts: config.previousSalts,
+        })
+    }
+
+    return profiles
+}
+
+/**
+ * Find a profile by id
+ * Without an id (sessions created before profiles existed) the default profile is returned
+ */
+export function findMerchantProfile(config: PayuProviderConfig, id?: string): PayuMerchantProfile | undefined {
+    const profiles = getMerchantProfiles(config)
+    return profiles.find((p) => p.id === (id || DEFAULT_MERCHANT_PROFILE)) ?? (id ? undefined : profiles[0])
+}
+
+/**
+ * Find the profile owning a merchant key (the `key` PayU sends back in webhooks)
+ */
+export function findMerchantProfileByKey(config: PayuProviderConfig, key?: string): PayuMerchantProfile | undefined {
+    return key ? getMerchantProfiles(config).find((p) => p.merchantKey === key) : undefined
+}
+
+/**
+ * Choose the profile for a new payment
+ * Sales channel matches win over region matches, which win over currency matches
+ */
+export function selectMerchantProfile(
+    config: PayuProviderConfig,
+    criteria: PayuMerchantCriteria
+): PayuMerchantProfile | undefined {
+    const profiles = getMerchantProfiles(config)
+    const currency = criteria.currency_code?.toLowerCase()
+
+    return (
+        (criteria.sales_channel_id && profiles.find((p) => p.salesChannelIds?.includes(criteria.sales_channel_id!)))
+        || (criteria.region_id && profiles.find((p) => p.regionIds?.includes(criteria.region_id!)))
+        || (currency && profiles.find((p) => p.currencyCodes?.some((code) => code.toLowerCase() === currency)))
+        || findMerchantProfile(config)
+    )
+}
+
+/**
+ * Client config for a profile
+ */
+export function getMerchantProfileConfig(
+    config: PayuProviderConfig,
+    profile: PayuMerchantProfile
+): PayuProviderConfig {
+    return {
+        ...config,
+        merchantKey: profile.merchantKey,
+        merchantSalt: profile.merchantSalt,
+        merchantSaltV2: profile.merchantSaltV2,
+        saltVersion: profile.saltVersion,
+        previousSalts: profile.previousSalts,
+    }
+}
+
+/**
+ * Check merchant profiles for missing credentials and duplicate ids or keys
+ * Returns an error message, or undefined when the profiles are valid
+ */
+export function validateMerchantProfiles(profiles: PayuMerchantProfile[]): string | undefined {
+    const ids = new Set<string>()
+    const keys = new Set<string>()
+
+    for (const profile of profiles) {
+        if (!profile.id || !profile.merchantKey || !profile.merchantSalt) {
+            return `merchant profile "${profile.id || "?"}" requires id, merchantKey and merchantSalt`
+        }
+        if (ids.has(profile.id)) {
+            return `duplicate merchant profile id "${profile.id}"`
+        }
+        if (keys.has(profile.merchantKey)) {
+            return `merchant key of profile "${profile.id}" is used by another profile`
+        }
+        if (profile.saltVersion !== undefined && profile.saltVersion !== 1 && profile.saltVersion !== 2) {
+            return `merchant profile "${profile.id}" has an invalid saltVersion "${profile.saltVersion}"`
+        }
+        if (profile.saltVersion === 2 && !profile.merchantSaltV2) {
+            return `merchant profile "${profile.id}" uses saltVersion 2 but has no merchantSaltV2`
+        }
+        for (const previous of profile.previousSalts || []) {
+            if (!previous.salt) {
+                return `previous salt of profile "${profile.id}" requires salt`
+            }
+            if (previous.expiresAt && isNaN(new Date(previous.expiresAt).getTime())) {
+                return `previous salt of profile "${profile.id}" has an invalid expiresAt "${previous.expiresAt}"`
+            }
+        }
+        ids.add(profile.id)
+        keys.add(profile.merchantKey)
+    }
+
+    return undefined
+}
@@ -0,0 +1,35 @@
+/**
+ * PayU response cross-check
+ * Compares what PayU reports for a transaction with what initiatePayment stored
+ */
+
+import { isSamePayuAmount } from "./amounts"
+import type { PayuMismatch } from "./types"
+
+/**
+ * Values identifying a PayU payment
+ */
+export interface PayuPaymentIdentity {
+    amount?: string
+    key?: string
+    txnid?: string
+}
+
+/**
+ * List every field where PayU's response differs from the session
+ * Amounts are compared as decimals; fields the session never stored are skipped
+ */
+export function findPayuMismatches(expected: PayuPaymentIdentity, received: PayuPaymentIdentity): PayuMismatch[] {
+    const mismatches: PayuMismatch[] = []
+
+    if (expected.amount !== undefined && !isSamePayuAmount(expected.amount, received.amount)) {
+        mismatches.push({ field: "amount", expected: expected.amount, received: received.amount ?? null })
+    }
+    for (const field of ["key", "txnid"] as const) {
+        if (expected[field] !== undefined && expected[field] !== received[field]) {
+            mismatches.push({ field, expected: expected[field]!, received: received[field] ?? null })
+        }
+    }
+
+    return mismatches
+}
@@ -0,0 +1,126 @@
+/**
+ * PayU payment link helpers
+ * Admins send a PayU invoice link for draft and phone orders; the link's txnid is
+ * the payment session's txnid, so its webhook authorizes that session
+ */
+
+import type {
+    PayuInvoiceRequest,
+    PayuInvoiceResponse,
+    PayuPaymentLink,
+    PayuPaymentLinkStatus,
+    PayuPaymentStatus,
+    PayuSessionData,
+} from "./types"
+
+/**
+ * Default lifetime of a payment link
+ */
+export const DEFAULT_PAYMENT_LINK_EXPIRY_HOURS = 24
+
+/**
+ * Session statuses reached once the link was paid
+ */
+const PAID_STATUSES: PayuPaymentStatus[] = ["authorized", "captured", "partially_refunded", "refunded"]
+
+/**
+ * Options of a payment link
+ */
+export interface PayuPaymentLinkOptions {
+    expiryHours?: number
+    /** Also text the link to the customer's phone */
+    sendSms?: boolean
+}
+
+/**
+ * Current status of the session's payment link (undefined without a link)
+ * Unpaid links past their expiry are expired even before PayU reports it
+ */
+export function getPaymentLinkStatus(sessionData: PayuSessionData, now = Date.now()): PayuPaymentLinkStatus | undefined {
+    const link = sessionData.paymentLink
+    if (!link) {
+        return undefined
+    }
+    if (PAID_STATUSES.includes(sessionData.status)) {
+        return "paid"
+    }
+    if (link.status === "active" && new Date(link.expiresAt).getTime() <= now) {
+        return "expired"
+    }
+    return link.status
+}
+
+/**
+ * Whether the session's payment link can still be paid
+ */
+export function isPaymentLinkActive(sessionData: PayuSessionData, now = Date.now()): boolean {
+    return getPaymentLinkStatus(sessionData, now) === "active"
+}
+
+/**
+ * Payment link of a PayU payment session as the admin API returns it (undefined without a link)
+ */
+export function toAdminPaymentLink(
+    session: { id: string; amount: number; data: Record<string, unknown> | null },
+    now = Date.now()
+) {
+    const data = (session.data || {}) as unknown as PayuSessionData
+    const link = data.paymentLink
+    if (!link) {
+        return undefined
+    }
+
+    return {
+        payment_session_id: session.id,
+        txnid: data.txnid,
+        amount: session.amount,
+        url: link.url,
+        status: getPaymentLinkStatus(data, now)!,
+        created_at: link.createdAt,
+        expires_at: link.expiresAt,
+        ended_at: link.endedAt ?? null,
+        emailed_to: link.emailedTo ?? null,
+        sms_to: link.smsTo ?? null,
+    }
+}
+
+/**
+ * create_invoice request for a payment session; PayU always emails the link
+ */
+export function toInvoiceRequest(sessionData: PayuSessionData, options: PayuPaymentLinkOptions = {}): PayuInvoiceRequest {
+    return {
+        txnid: sessionData.txnid,
+        amount: sessionData.amount,
+        productinfo: sessionData.productinfo,
+        firstname: sessionData.firstname,
+        email: sessionData.email,
+        phone: sessionData.phone,
+        validation_period: options.expiryHours ?? DEFAULT_PAYMENT_LINK_EXPIRY_HOURS,
+        time_unit: "H",
+        send_email_now: "1",
+        send_sms: options.sendSms ? "1" : "0",
+    }
+}
+
+/**
+ * Payment link from a create_invoice response, or undefined when PayU returned no link
+ */
+export function toPaymentLink(
+    response: PayuInvoiceResponse,
+    invoice: PayuInvoiceRequest,
+    now = new Date()
+): PayuPaymentLink | undefined {
+    if (!response.URL) {
+        return undefined
+    }
+
+    const hours = invoice.time_unit === "D" ? invoice.validation_period * 24 : invoice.validation_period
+    return {
+        url: response.URL,
+        status: "active",
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString(),
+        emailedTo: invoice.email,
+        ...(invoice.send_sms === "1" && { smsTo: invoice.phone }),
+    }
+}
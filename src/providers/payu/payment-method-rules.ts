@@ -0,0 +1,194 @@
+/**
+ * PayU payment method restriction helpers
+ * Hosted checkouts are sent with enforce_paymethod / drop_category from the first
+ * paymentMethodRules entry matching the cart; seamless checkouts are checked against it.
+ * https://docs.payu.in/docs/enforce-payment-method
+ */
+
+import { MathBN } from "@medusajs/framework/utils"
+import { isValidPayuAmount } from "./amounts"
+import type {
+    PayuPaymentMethodPreference,
+    PayuPaymentMethodRule,
+    PayuPaymentRequestData,
+    PayuSeamlessPaymentMethod,
+} from "./types"
+
+/**
+ * drop_category code of each enforce_paymethod category
+ */
+export const PAYMETHOD_CATEGORIES: Record<string, string> = {
+    creditcard: "CC",
+    debitcard: "DC",
+    netbanking: "NB",
+    upi: "UPI",
+    emi: "EMI",
+    cashcard: "CASH",
+    bnpl: "BNPL",
+}
+
+/**
+ * Attributes of a cart used to choose its payment method rule
+ */
+export interface PayuPaymentMethodCriteria {
+    region_id?: string
+    customer_group_ids?: string[]
+    amount: string
+}
+
+/**
+ * Whether the value is a list of PayU codes that can be joined with pipes
+ */
+function isCodeList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((code) => typeof code === "string" && code.trim() && !code.includes("|"))
+}
+
+/**
+ * Check paymentMethodRules from the provider options
+ * Returns an error message, or undefined when the rules are valid
+ */
+export function validatePaymentMethodRules(rules: PayuPaymentMethodRule[]): string | undefined {
+    for (const [index, rule] of rules.entries()) {
+        const name = `payment method rule "${rule.id || index}"`
+        if (!rule.enforcePaymethods?.length && !rule.dropCategories?.length) {
+            return `${name} requires enforcePaymethods or dropCategories`
+        }
+        if (rule.enforcePaymethods && !isCodeList(rule.enforcePaymethods)) {
+            return `${name} has an invalid enforcePaymethods list`
+        }
+        if (rule.dropCategories && !isCodeList(rule.dropCategories)) {
+            return `${name} has an invalid dropCategories list`
+        }
+        for (const amount of [rule.minAmount, rule.maxAmount]) {
+            if (amount !== undefined && (typeof amount !== "number" || !(amount >= 0))) {
+                return `${name} has an invalid amount range`
+            }
+        }
+        if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+            return `${name} has minAmount above maxAmount`
+        }
+    }
+    return undefined
+}
+
+/**
+ * First rule matching the cart
+ */
+export function selectPaymentMethodRule(
+    rules: PayuPaymentMethodRule[] | undefined,
+    criteria: PayuPaymentMethodCriteria
+): PayuPaymentMethodRule | undefined {
+    if (!isValidPayuAmount(criteria.amount)) {
+        return undefined
+    }
+    const amount = MathBN.convert(criteria.amount)
+
+    return (rules || []).find((rule) =>
+        (!rule.regionIds?.length || (!!criteria.region_id && rule.regionIds.includes(criteria.region_id)))
+        && (!rule.customerGroupIds?.length || !!criteria.customer_group_ids?.some((id) => rule.customerGroupIds!.includes(id)))
+        && (rule.minAmount === undefined || MathBN.gte(amount, rule.minAmount))
+        && (rule.maxAmount === undefined || MathBN.lte(amount, rule.maxAmount))
+    )
+}
+
+/**
+ * Read the storefront's enforce_paymethod / drop_category (arrays or pipe-separated strings)
+ * Returns an error message, or the preference
+ */
+export function toPaymentMethodPreference(
+    data?: Record<string, unknown>
+): { preference?: PayuPaymentMethodPreference; error?: string } {
+    const read = (field: string): string[] | undefined | false => {
+        const value = data?.[field]
+        if (value === undefined || value === null || value === "") {
+            return undefined
+        }
+        const codes = typeof value === "string" ? value.split("|").map((code) => code.trim()) : value
+        return isCodeList(codes) && codes.length ? codes : false
+    }
+
+    const enforcePaymethods = read("enforce_paymethod")
+    const dropCategories = read("drop_category")
+    if (enforcePaymethods === false || dropCategories === false) {
+        return { error: `${enforcePaymethods === false ? "enforce_paymethod" : "drop_category"} must be a list of PayU codes` }
+    }
+    if (!enforcePaymethods && !dropCategories) {
+        return {}
+    }
+    return {
+        preference: {
+            ...(enforcePaymethods && { enforcePaymethods }),
+            ...(dropCategories && { dropCategories }),
+        },
+    }
+}
+
+const includesCode = (codes: string[] | undefined, code: string) =>
+    !!codes?.some((c) => c.toLowerCase() === code.toLowerCase())
+
+/**
+ * Whether a method (enforce_paymethod category or bank code) survives the enforce and drop lists
+ */
+function isPaymethodAllowed(paymethods: string[], rule?: PayuPaymentMethodRule): boolean {
+    return (!rule?.enforcePaymethods?.length || paymethods.some((code) => includesCode(rule.enforcePaymethods, code)))
+        && !paymethods.some((code) => PAYMETHOD_CATEGORIES[code] && includesCode(rule?.dropCategories, PAYMETHOD_CATEGORIES[code]))
+}
+
+/**
+ * Check the storefront's preference against the cart's rule
+ * Returns an error message, or undefined when the rule allows it
+ */
+export function validatePaymentMethodPreference(
+    rule: PayuPaymentMethodRule | undefined,
+    preference: PayuPaymentMethodPreference | undefined
+): string | undefined {
+    const refused = (preference?.enforcePaymethods || []).filter((code) => {
+        const paymethod = PAYMETHOD_CATEGORIES[code.toLowerCase()] ? code.toLowerCase() : code
+        return !isPaymethodAllowed([paymethod], rule)
+    })
+    return refused.length ? `payment methods ${refused.join(", ")} are not available for this cart` : undefined
+}
+
+/**
+ * Check a seamless checkout's method against the cart's rule
+ * Returns an error message, or undefined when the rule allows it
+ */
+export function validateSeamlessMethodAllowed(
+    rule: PayuPaymentMethodRule | undefined,
+    method: PayuSeamlessPaymentMethod
+): string | undefined {
+    if (!rule) {
+        return undefined
+    }
+
+    const categories = method.type === "card"
+        ? (method.card_type ? [`${method.card_type}card`] : ["creditcard", "debitcard"])
+        : [method.type.startsWith("upi") ? "upi" : method.type]
+    // A card without card_type may be either; it's allowed when one of them is
+    const allowed = categories.some((category) =>
+        isPaymethodAllowed([category, ...(method.bankcode ? [method.bankcode] : [])], rule)
+    )
+    return allowed ? undefined : `payment method ${method.type} is not available for this cart`
+}
+
+/**
+ * enforce_paymethod / drop_category of a hosted checkout
+ * The storefront's methods replace the rule's (they were checked against it); drops add up
+ */
+export function getPaymentMethodRequestFields(
+    rule: PayuPaymentMethodRule | undefined,
+    preference: PayuPaymentMethodPreference | undefined
+): Pick<PayuPaymentRequestData, "enforce_paymethod" | "drop_category"> {
+    const enforcePaymethods = preference?.enforcePaymethods || rule?.enforcePaymethods
+    const dropCategories = [...(rule?.dropCategories || [])]
+    for (const code of preference?.dropCategories || []) {
+        if (!includesCode(dropCategories, code)) {
+            dropCategories.push(code)
+        }
+    }
+
+    return {
+        ...(enforcePaymethods?.length ? { enforce_paymethod: enforcePaymethods.join("|") } : {}),
+        ...(dropCategories.length ? { drop_category: dropCategories.join("|") } : {}),
+    }
+}
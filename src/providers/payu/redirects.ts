@@ -0,0 +1,183 @@
+/**
+ * PayU redirect URL helpers
+ * Storefront pages the customer returns to are URL templates rendered per attempt,
+ * from the provider options (or the STOREFRONT_URL / PAYU_REDIRECT_* environment
+ * variables), optionally overridden per session for allowlisted origins.
+ */
+
+import type { PayuProviderConfig, PayuRedirectUrls } from "./types"
+
+/**
+ * Placeholders a redirect URL template may use
+ */
+export const REDIRECT_PLACEHOLDERS = ["country", "cart_id", "txnid", "locale"] as const
+
+/**
+ * Values substituted into a redirect URL template
+ */
+export type PayuRedirectValues = Partial<Record<(typeof REDIRECT_PLACEHOLDERS)[number], string>>
+
+/**
+ * Input data fields overriding the configured templates
+ */
+const OVERRIDE_FIELDS: Record<keyof PayuRedirectUrls, string> = {
+    success: "success_url",
+    failure: "failure_url",
+    cancel: "cancel_url",
+}
+
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g
+
+/**
+ * Scheme and host of an absolute URL, up to its path, query or fragment
+ */
+const AUTHORITY_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i
+
+/**
+ * Templates from the environment: {STOREFRONT_URL}/{country}{PAYU_REDIRECT_URL}
+ * Undefined when neither STOREFRONT_URL nor NEXT_PUBLIC_BASE_URL is set
+ */
+export function getEnvRedirectTemplates(env: NodeJS.ProcessEnv = process.env): PayuRedirectUrls | undefined {
+    const storefrontUrl = env.STOREFRONT_URL || env.NEXT_PUBLIC_BASE_URL
+    if (!storefrontUrl) {
+        return undefined
+    }
+
+    const base = storefrontUrl.replace(/\/$/, "")
+    const toPath = (path: string) => (path.startsWith("/") ? path : `/${path}`)
+    return {
+        success: `${base}/{country}${toPath(env.PAYU_REDIRECT_URL || "/order/confirmed")}`,
+        failure: `${base}/{country}${toPath(env.PAYU_REDIRECT_FAILURE_URL || "/checkout")}`,
+    }
+}
+
+/**
+ * Templates of the storefront pages: the session's overrides, then the provider options, then the environment
+ */
+export function getRedirectTemplates(
+    config: Partial<PayuProviderConfig>,
+    overrides: PayuRedirectUrls = {},
+    env: NodeJS.ProcessEnv = process.env
+): PayuRedirectUrls {
+    const fromEnv = getEnvRedirectTemplates(env)
+    return {
+        success: overrides.success || config.successUrl || fromEnv?.success,
+        failure: overrides.failure || config.failureUrl || fromEnv?.failure,
+        cancel: overrides.cancel || config.cancelUrl,
+    }
+}
+
+/**
+ * Check a redirect URL template: an absolute http(s) URL using known placeholders in its path or query only
+ * Returns an error message, or undefined when valid
+ */
+export function validateRedirectTemplate(template: unknown): string | undefined {
+    if (typeof template !== "string" || !URL.canParse(template)) {
+        return `"${template}" is not an absolute URL`
+    }
+
+    const { protocol } = new URL(template)
+    if (protocol !== "https:" && protocol !== "http:") {
+        return `"${template}" must be an http(s) URL`
+    }
+    // Placeholders in the host would let a value choose where the customer is sent
+    if (AUTHORITY_PATTERN.exec(template)?.[0].includes("{")) {
+        return `"${template}" can only use placeholders in its path or query`
+    }
+
+    const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+        .map((match) => match[1])
+        .filter((name) => !(REDIRECT_PLACEHOLDERS as readonly string[]).includes(name))
+    if (unknown.length) {
+        return `"${template}" uses unknown placeholders ${unknown.join(", ")}. Use: ${REDIRECT_PLACEHOLDERS.join(", ")}`
+    }
+    return undefined
+}
+
+/**
+ * Normalize configured origins ("https://shop.example.com/" -> "https://shop.example.com")
+ * Returns an error message for an entry that is not an origin
+ */
+function toOrigins(origins: string[]): { origins: string[]; error?: string } {
+    const invalid = origins.find((origin) => !URL.canParse(origin) || new URL(origin).origin === "null")
+    if (invalid !== undefined) {
+        return { origins: [], error: `"${invalid}" in allowedRedirectOrigins is not an origin` }
+    }
+    return { origins: origins.map((origin) => new URL(origin).origin) }
+}
+
+/**
+ * Check the redirect options of the provider
+ * The success and failure pages must resolve, from the options or STOREFRONT_URL, to valid templates
+ * Returns an error message, or undefined when valid
+ */
+export function validateRedirectOptions(
+    config: Partial<PayuProviderConfig>,
+    env: NodeJS.ProcessEnv = process.env
+): string | undefined {
+    for (const template of [config.successUrl, config.failureUrl, config.cancelUrl]) {
+        const error = template === undefined ? undefined : validateRedirectTemplate(template)
+        if (error) {
+            return `redirect URL ${error}`
+        }
+    }
+
+    const { success, failure } = getRedirectTemplates(config, {}, env)
+    if (!success || !failure) {
+        return "successUrl and failureUrl options, or the STOREFRONT_URL environment variable, are required"
+    }
+    for (const template of [success, failure]) {
+        const error = validateRedirectTemplate(template)
+        if (error) {
+            return `redirect URL from STOREFRONT_URL ${error}`
+        }
+    }
+
+    return toOrigins(config.allowedRedirectOrigins || []).error
+}
+
+/**
+ * Read per-session redirect overrides (success_url, failure_url, cancel_url) from the input data
+ * Each must be a valid template on one of the allowed origins
+ */
+export function toRedirectOverrides(
+    data: Record<string, unknown> | undefined,
+    allowedOrigins: string[] = []
+): { overrides?: PayuRedirectUrls; error?: string } {
+    const overrides: PayuRedirectUrls = {}
+    const { origins } = toOrigins(allowedOrigins)
+
+    for (const [key, field] of Object.entries(OVERRIDE_FIELDS) as [keyof PayuRedirectUrls, string][]) {
+        const template = data?.[field]
+        if (template === undefined || template === null || template === "") {
+            continue
+        }
+
+        const error = validateRedirectTemplate(template)
+        if (error) {
+            return { error: `${field} ${error}` }
+        }
+        if (!origins.includes(new URL(template as string).origin)) {
+            return { error: `${field} must be on one of the allowed redirect origins` }
+        }
+        overrides[key] = template as string
+    }
+
+    return Object.keys(overrides).length ? { overrides } : {}
+}
+
+/**
+ * Render a template, URL-encoding each value
+ * Empty values leave no empty path segment ("/{locale}/checkout" -> "/checkout")
+ */
+export function renderRedirectUrl(template: string, values: PayuRedirectValues): string {
+    const rendered = template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+        (REDIRECT_PLACEHOLDERS as readonly string[]).includes(name)
+            ? encodeURIComponent(values[name as keyof PayuRedirectValues] || "")
+            : placeholder
+    )
+
+    const url = new URL(rendered)
+    url.pathname = url.pathname.replace(/\/{2,}/g, "/")
+    return url.toString()
+}
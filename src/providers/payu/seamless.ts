@@ -0,0 +1,146 @@
+/**
+ * PayU seamless checkout helpers
+ * In seamless mode the storefront collects the payment method itself and the
+ * checkout is posted to PayU with `pg`/`bankcode` instead of opening the hosted page.
+ * https://docs.payu.in/docs/merchant-hosted-checkout-integration
+ */
+
+import type {
+    PayuPaymentRequestData,
+    PayuSeamlessMethodType,
+    PayuSeamlessPaymentMethod,
+    PayuUpiPayment,
+} from "./types"
+
+/**
+ * Methods the seamless checkout supports
+ */
+export const SEAMLESS_METHOD_TYPES: PayuSeamlessMethodType[] = ["card", "netbanking", "upi_collect", "upi_intent", "emi", "bnpl"]
+
+/**
+ * Card fields that must never reach Medusa; the browser adds them to the form it posts to PayU
+ */
+export const CARD_DATA_FIELDS = ["ccnum", "ccname", "ccvv", "ccexpmon", "ccexpyr", "card_number", "cvv"]
+
+/**
+ * `bankcode` of the UPI flows
+ */
+const UPI_BANKCODES: Record<"upi_collect" | "upi_intent", string> = {
+    upi_collect: "UPI",
+    upi_intent: "INTENT",
+}
+
+/**
+ * Loose check of a UPI id (handle@provider)
+ */
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9.\-_]{1,64}$/
+
+/**
+ * Whether the method is paid through a UPI app, started server-to-server
+ */
+export function isUpiMethod(method?: PayuSeamlessPaymentMethod): boolean {
+    return method?.type === "upi_collect" || method?.type === "upi_intent"
+}
+
+/**
+ * Names of card fields present in the data, if any
+ */
+export function findCardDataFields(data?: Record<string, unknown>): string[] {
+    if (!data) {
+        return []
+    }
+    const method = (data.payment_method || {}) as Record<string, unknown>
+    return CARD_DATA_FIELDS.filter((field) => data[field] !== undefined || method[field] !== undefined)
+}
+
+/**
+ * Check the payment method of a seamless checkout
+ * Returns an error message, or undefined when valid
+ */
+export function validateSeamlessPaymentMethod(method?: Partial<PayuSeamlessPaymentMethod>): string | undefined {
+    if (!method?.type) {
+        return "payment_method.type is required for the seamless checkout"
+    }
+    if (!SEAMLESS_METHOD_TYPES.includes(method.type)) {
+        return `Unsupported payment method '${method.type}'. Use one of: ${SEAMLESS_METHOD_TYPES.join(", ")}`
+    }
+
+    switch (method.type) {
+        case "card":
+            if (method.card_type && method.card_type !== "credit" && method.card_type !== "debit") {
+                return `Unsupported card type '${method.card_type}'. Use credit or debit`
+            }
+            if (method.card_token !== undefined && (typeof method.card_token !== "string" || !method.card_token.trim())) {
+                return "payment_method.card_token must be the token of a saved card"
+            }
+            if (method.card_type === "debit" && !method.bankcode) {
+                return "payment_method.bankcode (card network, e.g. VISA) is required for debit cards"
+            }
+            return undefined
+        case "netbanking":
+            return method.bankcode ? undefined : "payment_method.bankcode (PayU bank code) is required for netbanking"
+        case "upi_collect":
+            return method.vpa && VPA_PATTERN.test(method.vpa)
+                ? undefined
+                : "payment_method.vpa must be a valid UPI id for UPI collect"
+        case "upi_intent":
+            return undefined
+        case "emi":
+            return method.bankcode ? undefined : "payment_method.bankcode (EMI plan from the EMI plans route) is required for EMI"
+        case "bnpl":
+            return method.bankcode ? undefined : "payment_method.bankcode (BNPL provider, e.g. LAZYPAY) is required for BNPL"
+    }
+}
+
+/**
+ * Whether the method pays with, or saves, a card from the customer's PayU vault
+ */
+export function usesSavedCards(method?: PayuSeamlessPaymentMethod): boolean {
+    return method?.type === "card" && (!!method.card_token || !!method.save_card)
+}
+
+/**
+ * Checkout fields selecting the payment method (pg, bankcode, the saved card token
+ * and the VPA for UPI collect)
+ */
+export function getSeamlessRequestFields(
+    method: PayuSeamlessPaymentMethod
+): Pick<PayuPaymentRequestData, "pg" | "bankcode" | "vpa" | "store_card" | "store_card_token"> {
+    switch (method.type) {
+        case "card":
+            return {
+                ...(method.card_type === "debit"
+                    ? { pg: "DC", bankcode: method.bankcode }
+                    : { pg: "CC", bankcode: method.bankcode || "CC" }),
+                ...(method.card_token
+                    ? { store_card_token: method.card_token }
+                    : method.save_card && { store_card: "1" }),
+            }
+        case "netbanking":
+            return { pg: "NB", bankcode: method.bankcode }
+        case "upi_collect":
+            return { pg: "UPI", bankcode: UPI_BANKCODES.upi_collect, vpa: method.vpa }
+        case "upi_intent":
+            return { pg: "UPI", bankcode: UPI_BANKCODES.upi_intent }
+        case "emi":
+            return { pg: "EMI", bankcode: method.bankcode }
+        case "bnpl":
+            return { pg: "BNPL", bankcode: method.bankcode }
+    }
+}
+
+/**
+ * Details of a UPI payment from PayU's S2S result
+ * The intent URI doubles as the QR code payload for customers paying from another device
+ */
+export function toUpiPayment(
+    method: PayuSeamlessPaymentMethod,
+    result?: { paymentId?: string, intentURIData?: string } | null
+): PayuUpiPayment {
+    if (method.type === "upi_collect") {
+        return { flow: "collect", paymentId: result?.paymentId, vpa: method.vpa }
+    }
+
+    const intentUri = result?.intentURIData ? `upi://pay?${result.intentURIData}` : undefined
+    return { flow: "intent", paymentId: result?.paymentId, intentUri, qrPayload: intentUri }
+}
@@ -8,7 +8,9 @@
 import {
     AbstractPaymentProvider,
     BigNumber,
+    MathBN,
     MedusaError,
+    Modules,
     PaymentSessionStatus,
 } from "@medusajs/framework/utils"
 import type {
@@ -33,13 +35,126 @@ import type {
     ProviderWebhookPayload,
     WebhookActionResult,
     Logger,
+    IEventBusModuleService,
+    BigNumberInput,
+    BigNumberRawValue,
 } from "@medusajs/framework/types"
 
-import type { PayuProviderConfig, PayuSessionData, PayuWebhookPayload, PayuPaymentStatus } from "./types"
-import { PayuClient, generateTxnId } from "./client"
+import type {
+    PayuProviderConfig,
+    PayuSessionData,
+    PayuWebhookPayload,
+    PayuPaymentStatus,
+    PayuRefundRecord,
+    PayuDispute,
+    PayuMerchantProfile,
+    PayuMismatch,
+    PayuPaymentMismatchEvent,
+    PayuVerifyResponse,
+    PayuPaymentRequestData,
+    PayuSeamlessPaymentMethod,
+    PayuEmiAmountResponse,
+    PayuCheckoutMode,
+    PayuMandateInput,
+    PayuSessionMandate,
+    PayuPaymentMethodRule,
+} from "./types"
+import { PayuClient, PRIMARY_SALT_ID, PRIMARY_SALT_V2_ID, generateTxnId, getUserCredentials } from "./client"
+import { PayuEvents } from "./events"
+import { PAYU_SESSION_STATUS_MAP, resolvePayuStatus } from "./status"
+import { hasAdditionalCharges, isSamePayuAmount, isValidPayuAmount, resolvePayuAmounts } from "./amounts"
+import { findPayuMismatches } from "./mismatch"
+import { isEmiErrorResponse, toEmiPlans } from "./emi"
+import { isPaymentLinkActive } from "./payment-links"
+import { getRedirectTemplates, renderRedirectUrl, toRedirectOverrides, validateRedirectOptions } from "./redirects"
+import { getMandateRequestFields, serializeSiDetails, toSiDetails, validateMandateInput } from "./mandates"
+import {
+    getPaymentMethodRequestFields,
+    selectPaymentMethodRule,
+    toPaymentMethodPreference,
+    validatePaymentMethodPreference,
+    validatePaymentMethodRules,
+    validateSeamlessMethodAllowed,
+} from "./payment-method-rules"
+import {
+    findCardDataFields,
+    getSeamlessRequestFields,
+    isUpiMethod,
+    toUpiPayment,
+    usesSavedCards,
+    validateSeamlessPaymentMethod,
+} from "./seamless"
+import {
+    DEFAULT_ATTEMPT_EXPIRY_MINUTES,
+    getAttemptTxnids,
+    isAttemptExpired,
+    isRetryableStatus,
+    resumeAttempt,
+    startNewAttempt,
+} from "./attempts"
+import {
+    findMerchantProfile,
+    findMerchantProfileByKey,
+    getMerchantProfileConfig,
+    getMerchantProfiles,
+    selectMerchantProfile,
+    validateMerchantProfiles,
+} from "./merchants"
+import { PAYU_MODULE } from "../../modules/payu"
+import type PayuModuleService from "../../modules/payu/service"
+import {
+    getCapturedAmount,
+    getRefundedAmount,
+    getRefundedPaymentStatus,
+    getRefundLedger,
+    isPendingRefund,
+} from "./utils"
 
 export const PAYU_PROVIDER_ID = "payu"
 
+/**
+ * Checkout modes accepted in a payment session's input data
+ */
+const CHECKOUT_MODES: PayuCheckoutMode[] = ["hosted", "seamless", "payment_link", "mandate"]
+
+/**
+ * Prefix of Medusa payment session ids
+ */
+const PAYMENT_SESSION_ID_PREFIX = "payses_"
+
+/**
+ * Payment session service registered in the payment module's container
+ */
+type PaymentSessionLookup = {
+    list(
+        filters: Record<string, unknown>,
+        config?: { select?: string[]; take?: number }
+    ): Promise<{ id: string; status?: string; data?: Record<string, unknown> }[]>
+}
+
+/**
+ * Capture service registered in the payment module's container
+ */
+type CaptureLookup = {
+    retrieve(
+        id: string,
+        config?: { select?: string[] }
+    ): Promise<{ id: string; amount: BigNumberInput; raw_amount?: BigNumberRawValue }>
+}
+
+/**
+ * Webhook delivery state collected while resolving the action
+ */
+type PayuWebhookDelivery = {
+    webhook?: PayuWebhookPayload
+    hashVerified: boolean
+    /** Salt the hash matched: "primary", "primary_v2" or the previous salt's id */
+    matchedSalt?: string
+    error?: string
+    /** Logged webhook event this delivery replays */
+    replayOf?: string
+}
+
 /**
  * PayU Payment Provider Service
  * 
@@ -58,45 +173,100 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
      * Called by MedusaJS when registering the provider
      */
     static validateOptions(options: Record<string, unknown>): void {
-        if (!options.merchantKey) {
+        const merchants = (options.merchants as PayuMerchantProfile[] | undefined) || []
+
+        if (!options.merchantKey && !merchants.length) {
             throw new MedusaError(
                 MedusaError.Types.INVALID_DATA,
                 "PayU: merchantKey is required. Set PAYU_MERCHANT_KEY environment variable."
             )
         }
-        if (!options.merchantSalt) {
+        if (options.merchantKey && !options.merchantSalt) {
             throw new MedusaError(
                 MedusaError.Types.INVALID_DATA,
                 "PayU: merchantSalt is required. Set PAYU_MERCHANT_SALT environment variable."
             )
         }
+
+        const error = validateMerchantProfiles(getMerchantProfiles(options as unknown as PayuProviderConfig))
+            || validatePaymentMethodRules((options.paymentMethodRules as PayuPaymentMethodRule[] | undefined) || [])
+            || validateRedirectOptions(options as Partial<PayuProviderConfig>)
+        if (error) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${error}`)
+        }
     }
 
     protected config_: PayuProviderConfig
     protected logger_: Logger
-    protected client_: PayuClient
+    protected clients_ = new Map<string, PayuClient>()
 
     constructor(container: Record<string, unknown>, config: PayuProviderConfig) {
         super(container, config)
 
-        if (!config.merchantKey || !config.merchantSalt) {
-            throw new Error(
-                "PayU: merchantKey and merchantSalt are required. " +
-                "Set PAYU_MERCHANT_KEY and PAYU_MERCHANT_SALT environment variables."
-            )
-        }
-
         this.config_ = {
             merchantKey: config.merchantKey,
             merchantSalt: config.merchantSalt,
+            merchantSaltV2: config.merchantSaltV2,
+            saltVersion: config.saltVersion,
+            previousSalts: config.previousSalts,
+            merchants: config.merchants,
+            paymentMethodRules: config.paymentMethodRules,
             environment: config.environment || "test",
             autoCapture: config.autoCapture ?? true,
+            attemptExpiryMinutes: config.attemptExpiryMinutes ?? DEFAULT_ATTEMPT_EXPIRY_MINUTES,
+            pendingPaymentMaxAgeMinutes: config.pendingPaymentMaxAgeMinutes,
+            pendingPaymentLookbackDays: config.pendingPaymentLookbackDays,
+            backendUrl: config.backendUrl,
+            successUrl: config.successUrl,
+            failureUrl: config.failureUrl,
+            cancelUrl: config.cancelUrl,
+            allowedRedirectOrigins: config.allowedRedirectOrigins,
+            baseUrl: config.baseUrl,
+        }
+
+        const profiles = getMerchantProfiles(this.config_)
+        if (!profiles.length) {
+            throw new Error(
+                "PayU: merchantKey and merchantSalt are required. " +
+                "Set PAYU_MERCHANT_KEY and PAYU_MERCHANT_SALT environment variables."
+            )
         }
 
         this.logger_ = container.logger as Logger
-        this.client_ = new PayuClient(this.config_, this.logger_)
 
-        this.logger_?.info?.(`PayU initialized in ${this.config_.environment} mode`)
+        this.logger_?.info?.(
+            `PayU initialized in ${this.config_.environment} mode` +
+            (profiles.length > 1 ? ` with merchant profiles ${profiles.map((p) => p.id).join(", ")}` : "") +
+            (this.config_.baseUrl ? ` (base URL ${this.config_.baseUrl})` : "")
+        )
+    }
+
+    /**
+     * Get a merchant profile by id (default profile when omitted)
+     */
+    private getMerchantProfile(profileId?: string): PayuMerchantProfile {
+        const profile = findMerchantProfile(this.config_, profileId)
+        if (!profile) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `PayU: unknown merchant profile "${profileId}"`
+            )
+        }
+        return profile
+    }
+
+    /**
+     * Get the PayU client for a merchant profile (default profile when omitted)
+     */
+    private getClient(profileId?: string): PayuClient {
+        const profile = this.getMerchantProfile(profileId)
+
+        let client = this.clients_.get(profile.id)
+        if (!client) {
+            client = new PayuClient(getMerchantProfileConfig(this.config_, profile), this.logger_)
+            this.clients_.set(profile.id, client)
+        }
+        return client
     }
 
     /**
@@ -120,6 +290,262 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
         return isNaN(num) ? "NaN" : num.toFixed(2)
     }
 
+    /**
+     * Render the storefront pages of the session's current attempt
+     * Templates come from the session's overrides, then the provider options, then the environment
+     */
+    private getStorefrontUrls(
+        session: Pick<PayuSessionData, "txnid" | "udf1" | "countryCode" | "locale" | "redirectUrls">
+    ): Pick<PayuSessionData, "successUrl" | "failureUrl" | "cancelUrl"> {
+        const { success, failure, cancel } = getRedirectTemplates(this.config_, session.redirectUrls)
+        if (!success || !failure) {
+            throw new Error("PayU: successUrl and failureUrl options, or the STOREFRONT_URL environment variable, are required")
+        }
+
+        const values = {
+            country: session.countryCode,
+            cart_id: session.udf1,
+            txnid: session.txnid,
+            locale: session.locale,
+        }
+        return {
+            successUrl: renderRedirectUrl(success, values),
+            failureUrl: renderRedirectUrl(failure, values),
+            cancelUrl: cancel ? renderRedirectUrl(cancel, values) : undefined,
+        }
+    }
+
+    /**
+     * Get the surl/furl/curl sent to PayU
+     * Points at the server-side return handler when backendUrl is configured,
+     * otherwise PayU redirects straight to the storefront pages
+     */
+    private getPayuReturnUrls(
+        session: Pick<PayuSessionData, "successUrl" | "failureUrl" | "cancelUrl">
+    ): Pick<PayuPaymentRequestData, "surl" | "furl" | "curl"> {
+        if (!this.config_.backendUrl) {
+            return {
+                surl: session.successUrl!,
+                furl: session.failureUrl!,
+                ...(session.cancelUrl && { curl: session.cancelUrl }),
+            }
+        }
+
+        const returnUrl = `${this.config_.backendUrl.replace(/\/$/, "")}/payu/return`
+        return { surl: returnUrl, furl: returnUrl, ...(session.cancelUrl && { curl: returnUrl }) }
+    }
+
+    /**
+     * Read the checkout mode chosen in the session's input data
+     * Card numbers must be posted from the browser straight to PayU and are rejected here
+     */
+    private getCheckoutMode(inputData?: Record<string, unknown>): PayuCheckoutMode {
+        const cardFields = findCardDataFields(inputData)
+        if (cardFields.length) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `PayU: card details (${cardFields.join(", ")}) must be posted by the browser directly to PayU, not sent to the server`
+            )
+        }
+
+        const checkoutMode = (inputData?.checkout_mode as PayuCheckoutMode | undefined) || "hosted"
+        if (!CHECKOUT_MODES.includes(checkoutMode)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `PayU: unsupported checkout_mode '${checkoutMode}'. Use one of: ${CHECKOUT_MODES.join(", ")}`
+            )
+        }
+        return checkoutMode
+    }
+
+    /**
+     * Read the payment method the storefront chose for a seamless checkout
+     */
+    private getSeamlessPaymentMethod(inputData?: Record<string, unknown>): PayuSeamlessPaymentMethod {
+        const method = inputData?.payment_method as PayuSeamlessPaymentMethod | undefined
+        const error = validateSeamlessPaymentMethod(method)
+        if (error) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${error}`)
+        }
+        if (isUpiMethod(method) && (!inputData?.client_ip || !inputData?.user_agent)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                "PayU: client_ip and user_agent of the customer are required for UPI payments"
+            )
+        }
+
+        return {
+            type: method!.type,
+            ...(method!.card_type && { card_type: method!.card_type }),
+            ...(method!.bankcode && { bankcode: method!.bankcode }),
+            ...(method!.card_token && { card_token: method!.card_token }),
+            ...(method!.save_card && { save_card: true }),
+            ...(method!.vpa && { vpa: method!.vpa }),
+        }
+    }
+
+    /**
+     * Read the mandate the storefront requested for a mandate checkout
+     * Mandates belong to the logged-in customer; renewals are debited without them present
+     */
+    private getMandate(
+        inputData: Record<string, unknown> | undefined,
+        currencyCode: string,
+        customerId?: string
+    ): PayuSessionMandate {
+        if (!customerId) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                "PayU: mandates are only available to logged-in customers"
+            )
+        }
+        if (currencyCode?.toLowerCase() !== "inr") {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, "PayU: mandates are only available for INR payments")
+        }
+
+        const input = inputData?.mandate as Partial<PayuMandateInput> | undefined
+        const error = validateMandateInput(input)
+        if (error) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${error}`)
+        }
+
+        return { customerId, siDetails: toSiDetails(input as PayuMandateInput, currencyCode) }
+    }
+
+    /**
+     * Reject an EMI plan PayU doesn't offer for the amount (e.g. below the bank's minimum)
+     * The plan is not checked when PayU can't be reached; PayU rejects it at checkout then
+     */
+    private async assertEmiPlanAvailable(client: PayuClient, bankcode: string, amount: string): Promise<void> {
+        let response: PayuEmiAmountResponse
+        try {
+            response = await client.getEmiAmountAccordingToInterest(amount)
+        } catch (error) {
+            this.logger_?.warn?.(`PayU: could not check EMI plan ${bankcode} for ${amount}: ${error}`)
+            return
+        }
+
+        if (isEmiErrorResponse(response)) {
+            this.logger_?.warn?.(`PayU: could not check EMI plan ${bankcode} for ${amount}: ${response.msg}`)
+            return
+        }
+        if (!toEmiPlans(response).some((plan) => plan.bankcode === bankcode)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `PayU: EMI plan ${bankcode} is not available for an amount of ${amount}`
+            )
+        }
+    }
+
+    /**
+     * Storefront data for the session's current attempt
+     *
+     * Hosted and seamless card/netbanking checkouts return the form the browser posts
+     * to PayU (seamless forms carry pg/bankcode; the browser adds the card fields).
+     * Seamless UPI payments are started server-to-server and return the intent URI
+     * (also the QR code payload) or the collect request instead of a form.
+     */
+    private async buildCheckout(
+        sessionData: PayuSessionData,
+        profile: PayuMerchantProfile
+    ): Promise<PayuSessionData & { form_data?: PayuPaymentRequestData }> {
+        const client = this.getClient(profile.id)
+        const { form_data: _previous, ...session } = sessionData as PayuSessionData & { form_data?: unknown }
+        const method = session.paymentMethod
+
+        // Methods offered to the cart, from the first matching paymentMethodRules entry
+        const rule = selectPaymentMethodRule(this.config_.paymentMethodRules, {
+            region_id: session.regionId,
+            customer_group_ids: session.customerGroupIds,
+            amount: session.amount,
+        })
+        const ruleError = method
+            ? validateSeamlessMethodAllowed(rule, method)
+            : validatePaymentMethodPreference(rule, session.paymentMethodPreference)
+        if (ruleError) {
+            throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${ruleError}`)
+        }
+
+        if (method?.type === "emi") {
+            await this.assertEmiPlanAvailable(client, method.bankcode!, session.amount)
+        }
+
+        const formData: PayuPaymentRequestData = {
+            key: profile.merchantKey,
+            txnid: session.txnid,
+            amount: session.amount,
+            productinfo: session.productinfo,
+            firstname: session.firstname,
+            email: session.email,
+            phone: session.phone,
+            ...this.getPayuReturnUrls(session),
+            hash: session.hash,
+            udf1: session.udf1,
+            udf2: session.udf2,
+            udf3: session.udf3,
+            ...(session.userCredentials && { user_credentials: session.userCredentials }),
+            ...(session.saveCard && { store_card: "1" }),
+            ...(method
+                ? getSeamlessRequestFields(method)
+                : { service_provider: "payu_paisa", ...getPaymentMethodRequestFields(rule, session.paymentMethodPreference) }),
+            ...(session.mandate && getMandateRequestFields(session.mandate.siDetails)),
+            ...(session.preAuthorize ? { pre_authorize: "1" } : {}),
+        }
+
+        if (!method || !isUpiMethod(method)) {
+            return { ...session, paymentUrl: client.getPaymentUrl(), upi: undefined, form_data: formData }
+        }
+
+        const response = await client.initiateS2SPayment({
+            ...formData,
+            s2s_client_ip: session.clientIp,
+            s2s_device_info: session.userAgent,
+        })
+        const txnStatus = response.metaData?.txnStatus?.toLowerCase()
+        if (!response.result || (txnStatus && txnStatus !== "pending")) {
+            throw new MedusaError(
+                MedusaError.Types.UNEXPECTED_STATE,
+                `PayU: UPI payment ${session.txnid} was not started: ${response.metaData?.message || txnStatus || "no result"}`
+            )
+        }
+
+        this.logger_?.info?.(`PayU UPI ${method.type === "upi_intent" ? "intent" : "collect"} started for ${session.txnid}`)
+
+        return { ...session, paymentUrl: undefined, upi: toUpiPayment(method, response.result) }
+    }
+
+    /**
+     * Emit an event on the Medusa event bus
+     * Failures are logged, never thrown - webhook handling must not break on them
+     */
+    private async emitEvent(name: string, data: unknown): Promise<void> {
+        try {
+            const eventBus = this.container[Modules.EVENT_BUS] as IEventBusModuleService | undefined
+            await eventBus?.emit({ name, data })
+        } catch (error) {
+            this.logger_?.error?.(`PayU: failed to emit ${name}: ${error}`)
+        }
+    }
+
+    /**
+     * Build a dispute record from a dispute/chargeback webhook
+     */
+    private parseDispute(webhook: PayuWebhookPayload, status: "dispute" | "chargeback"): PayuDispute {
+        const deadline = webhook.dispute_due_date || webhook.due_date
+        const parsedDeadline = deadline ? new Date(deadline) : undefined
+
+        return {
+            txnid: webhook.txnid,
+            mihpayid: webhook.mihpayid,
+            dispute_id: webhook.dispute_id,
+            type: (webhook.dispute_type?.toLowerCase() === "chargeback" ? "chargeback" : status),
+            amount: this.formatAmount(webhook.amount),
+            reason: webhook.dispute_reason || webhook.reason || webhook.error_Message,
+            deadline: parsedDeadline && !isNaN(parsedDeadline.getTime()) ? parsedDeadline.toISOString() : undefined,
+            raw_payload: webhook as unknown as Record<string, unknown>,
+        }
+    }
+
     /**
      * Initiate payment session
      */
@@ -162,32 +588,74 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
             const customerId = context?.customer?.id
                 || (inputData?.customer_id as string)
                 || ""
+            // Medusa passes the id of the payment session being created; returned in
+            // udf3 so webhooks can be mapped to this session
+            const sessionId = (inputData?.session_id as string) || ""
+
+            const countryCode = (inputData?.country_code as string) || "in"
+            const locale = (inputData?.locale as string) || undefined
 
-            // Build redirect URLs from environment variables
-            // Allow NEXT_PUBLIC_BASE_URL as fallback for STOREFRONT_URL
-            const storefrontUrl = process.env.STOREFRONT_URL || process.env.NEXT_PUBLIC_BASE_URL
+            // The storefront may send its own pages, on the allowed origins only
+            const { overrides: redirectUrls, error: redirectError } = toRedirectOverrides(
+                inputData,
+                this.config_.allowedRedirectOrigins
+            )
+            if (redirectError) {
+                throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${redirectError}`)
+            }
 
-            // Provide sensible defaults if specific paths aren't provided
-            const redirectPath = process.env.PAYU_REDIRECT_URL || "/order/confirmed"
-            const redirectFailurePath = process.env.PAYU_REDIRECT_FAILURE_URL || "/checkout"
+            // Seamless checkout: the storefront already picked the payment method
+            const checkoutMode = this.getCheckoutMode(inputData)
+            const paymentMethod = checkoutMode === "seamless" ? this.getSeamlessPaymentMethod(inputData) : undefined
 
-            if (!storefrontUrl) {
-                throw new Error("STOREFRONT_URL or NEXT_PUBLIC_BASE_URL environment variable is required")
+            // Settle into the merchant account configured for the cart's sales channel, region or currency
+            const profile = selectMerchantProfile(this.config_, {
+                sales_channel_id: inputData?.sales_channel_id as string | undefined,
+                region_id: inputData?.region_id as string | undefined,
+                currency_code: input.currency_code,
+            })
+            if (!profile) {
+                throw new Error("No PayU merchant profile configured for this payment")
+            }
+            const client = this.getClient(profile.id)
+
+            // Saved cards are kept per logged-in customer; the customer_id the storefront
+            // may send in data is not trusted for them
+            const userCredentials = context?.customer?.id
+                ? getUserCredentials(profile.merchantKey, context.customer.id)
+                : undefined
+            // Hosted checkouts save the card on PayU's page, so card numbers never reach the server
+            const saveCard = checkoutMode === "hosted" && inputData?.save_card === true
+            if ((usesSavedCards(paymentMethod) || saveCard) && !userCredentials) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    "PayU: saved cards are only available to logged-in customers"
+                )
             }
 
-            const countryCode = (inputData?.country_code as string) || "in"
+            const mandate = checkoutMode === "mandate"
+                ? this.getMandate(inputData, input.currency_code, context?.customer?.id)
+                : undefined
 
-            // Constructs the URL: {base}/{country}/{path}
-            // Ensure storefrontUrl doesn't have trailing slash and path starts with slash
-            const cleanBase = storefrontUrl.replace(/\/$/, "")
-            const cleanPath = redirectPath.startsWith("/") ? redirectPath : `/${redirectPath}`
-            const cleanFailPath = redirectFailurePath.startsWith("/") ? redirectFailurePath : `/${redirectFailurePath}`
+            // Hosted checkouts may ask for fewer methods than paymentMethodRules allow
+            const { preference: paymentMethodPreference, error: preferenceError } = checkoutMode === "seamless"
+                ? {}
+                : toPaymentMethodPreference(inputData)
+            if (preferenceError) {
+                throw new MedusaError(MedusaError.Types.INVALID_DATA, `PayU: ${preferenceError}`)
+            }
+            const customerGroupIds = Array.isArray(inputData?.customer_group_ids)
+                ? (inputData!.customer_group_ids as unknown[]).filter((id): id is string => typeof id === "string")
+                : undefined
+
+            // Authorize-only when auto-capture is disabled (captured later via capturePayment)
+            // PayU registers mandates with a captured payment only
+            const preAuthorize = this.config_.autoCapture === false && !mandate
 
-            const surl = `${cleanBase}/${countryCode}${cleanPath}`
-            const furl = `${cleanBase}/${countryCode}${cleanFailPath}`
+            const storefrontUrls = this.getStorefrontUrls({ txnid, udf1: cartId, countryCode, locale, redirectUrls })
 
             // Generate hash using SDK (includes UDF fields)
-            const hash = this.client_.generatePaymentHash({
+            const hash = client.generatePaymentHash({
                 txnid,
                 amount: formattedAmount,
                 productinfo,
@@ -195,6 +663,8 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                 email,
                 udf1: cartId,
                 udf2: customerId,
+                udf3: sessionId,
+                si_details: mandate && serializeSiDetails(mandate.siDetails),
             })
 
             const sessionData: PayuSessionData = {
@@ -205,35 +675,46 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                 email,
                 phone,
                 hash,
-                paymentUrl: this.client_.getPaymentUrl(),
                 status: "pending",
+                checkoutMode,
+                ...(paymentMethod && { paymentMethod }),
+                ...(mandate && { mandate }),
+                ...(inputData?.region_id ? { regionId: inputData.region_id as string } : {}),
+                ...(customerGroupIds?.length ? { customerGroupIds } : {}),
+                ...(paymentMethodPreference && { paymentMethodPreference }),
+                ...(isUpiMethod(paymentMethod) && {
+                    clientIp: inputData!.client_ip as string,
+                    userAgent: inputData!.user_agent as string,
+                }),
+                attemptStartedAt: new Date().toISOString(),
+                merchantProfile: profile.id,
+                merchantKey: profile.merchantKey,
+                ...(userCredentials && { userCredentials }),
+                ...(saveCard && { saveCard }),
                 countryCode,
+                ...(locale && { locale }),
+                ...(redirectUrls && { redirectUrls }),
+                ...storefrontUrls,
                 udf1: cartId,
                 udf2: customerId,
+                udf3: sessionId,
+                preAuthorize,
             }
 
-            this.logger_?.debug?.(`PayU payment initiated: ${txnid}`)
+            this.logger_?.debug?.(
+                `PayU payment initiated: ${txnid}, merchant profile ${profile.id}` +
+                `${paymentMethod ? ` (seamless ${paymentMethod.type})` : ""}${preAuthorize ? " (authorize-only)" : ""}` +
+                `${mandate ? ` (mandate ${mandate.siDetails.billingCycle})` : ""}`
+            )
+
+            // The link itself is created and sent by the admin payment link route
+            if (checkoutMode === "payment_link") {
+                return { id: txnid, data: sessionData as unknown as Record<string, unknown> }
+            }
 
             return {
                 id: txnid,
-                data: {
-                    ...sessionData,
-                    form_data: {
-                        key: this.config_.merchantKey,
-                        txnid,
-                        amount: formattedAmount,
-                        productinfo,
-                        firstname,
-                        email,
-                        phone,
-                        surl,
-                        furl,
-                        hash,
-                        udf1: cartId,
-                        udf2: customerId,
-                        service_provider: "payu_paisa",
-                    },
-                } as unknown as Record<string, unknown>,
+                data: (await this.buildCheckout(sessionData, profile)) as unknown as Record<string, unknown>,
             }
         } catch (error) {
             this.logger_?.error?.(`PayU initiatePayment error: ${error}`)
@@ -241,12 +722,100 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
         }
     }
 
+    /**
+     * Keep a payment PayU reports as paid, but not for this session, out of authorization
+     * The session is flagged as requires_more and payu.payment.mismatch is emitted once
+     */
+    private async holdMismatchedPayment(
+        sessionData: PayuSessionData,
+        txn: PayuVerifyResponse["transaction_details"][string],
+        mismatches: PayuMismatch[]
+    ): Promise<AuthorizePaymentOutput> {
+        const details = mismatches
+            .map((m) => `${m.field} expected ${m.expected}, received ${m.received ?? "none"}`)
+            .join("; ")
+        this.logger_?.warn?.(
+            `PayU authorize: txnid=${sessionData.txnid} NOT authorized - PayU response does not match the session (${details}). ` +
+            `Manual review required!`
+        )
+
+        if (!sessionData.mismatches?.length) {
+            await this.emitEvent(PayuEvents.PAYMENT_MISMATCH, {
+                txnid: sessionData.txnid,
+                mihpayid: txn.mihpayid,
+                merchant_profile: sessionData.merchantProfile,
+                payu_status: txn.status,
+                mismatches,
+            } satisfies PayuPaymentMismatchEvent)
+        }
+
+        return {
+            status: PaymentSessionStatus.REQUIRES_MORE,
+            data: {
+                ...sessionData,
+                status: "requires_more",
+                mismatches,
+                payuResponse: txn,
+            } as unknown as Record<string, unknown>,
+        }
+    }
+
+    /**
+     * Store the mandate registered with an authorized payment against its customer
+     * The registration payment's mihpayid identifies the mandate for recurring debits.
+     * Without the payu module the mandate is only kept in the session data.
+     */
+    private async recordMandate(
+        sessionData: PayuSessionData,
+        mandate: PayuSessionMandate,
+        authPayuId: string
+    ): Promise<PayuSessionMandate> {
+        const registered = { ...mandate, authPayuId }
+        const payuModule = this.getPayuModule()
+        if (!payuModule) {
+            return registered
+        }
+
+        try {
+            const [existing] = await payuModule.listPayuMandates({ auth_payu_id: authPayuId }, { take: 1 })
+            if (existing) {
+                return registered
+            }
+
+            const { siDetails } = mandate
+            const created = await payuModule.createPayuMandates({
+                customer_id: mandate.customerId,
+                auth_payu_id: authPayuId,
+                txnid: sessionData.txnid,
+                payment_session_id: sessionData.udf3?.startsWith(PAYMENT_SESSION_ID_PREFIX) ? sessionData.udf3 : null,
+                merchant_profile: sessionData.merchantProfile ?? null,
+                billing_cycle: siDetails.billingCycle,
+                billing_interval: siDetails.billingInterval,
+                billing_rule: siDetails.billingRule,
+                max_amount: parseFloat(siDetails.billingAmount),
+                currency_code: siDetails.billingCurrency.toLowerCase(),
+                start_date: new Date(`${siDetails.paymentStartDate}T00:00:00Z`),
+                end_date: new Date(`${siDetails.paymentEndDate}T23:59:59Z`),
+                email: sessionData.email,
+                phone: sessionData.phone,
+                si_details: siDetails as unknown as Record<string, unknown>,
+            })
+
+            this.logger_?.info?.(`PayU mandate ${authPayuId} registered for customer ${mandate.customerId}`)
+            await this.emitEvent(PayuEvents.MANDATE_REGISTERED, { id: created.id, customer_id: mandate.customerId })
+        } catch (error) {
+            this.logger_?.error?.(`PayU: failed to record mandate ${authPayuId} of ${sessionData.txnid}: ${error}`)
+        }
+
+        return registered
+    }
+
     /**
      * Authorize payment after PayU callback
      */
     async authorizePayment(input: AuthorizePaymentInput): Promise<AuthorizePaymentOutput> {
         try {
-            const sessionData = input.data as unknown as PayuSessionData
+            let sessionData = input.data as unknown as PayuSessionData
 
             if (sessionData.status === "authorized" || sessionData.status === "captured") {
                 return {
@@ -255,27 +824,85 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                 }
             }
 
-            const response = await this.client_.verifyPayment(sessionData.txnid)
+            // Verify every attempt of the session in one call - an earlier attempt
+            // may have been paid after the customer started a retry
+            const profile = this.getMerchantProfile(sessionData.merchantProfile)
+            const txnids = getAttemptTxnids(sessionData)
+            const response = await this.getClient(profile.id).verifyPayments(txnids)
+            const details = response.status === 1 ? response.transaction_details : {}
+            const paidTxnids = txnids.filter((txnid) =>
+                details[txnid] && resolvePayuStatus(details[txnid].status, details[txnid].unmappedstatus).status === "authorized"
+            )
+
+            if (paidTxnids.length > 1) {
+                this.logger_?.warn?.(
+                    `PayU authorize: several attempts of one session were paid (${paidTxnids.join(", ")}). ` +
+                    `Authorizing ${paidTxnids[0]} - refund the others in the PayU dashboard.`
+                )
+            }
+            if (paidTxnids.length && paidTxnids[0] !== sessionData.txnid) {
+                this.logger_?.info?.(`PayU authorize: earlier attempt ${paidTxnids[0]} was paid, resuming it instead of ${sessionData.txnid}`)
+                sessionData = resumeAttempt(sessionData, paidTxnids[0])
+            }
 
-            if (response.status === 1) {
-                const txn = response.transaction_details[sessionData.txnid]
-                if (txn?.status === "success") {
-                    this.logger_?.info?.(`PayU authorized: ${sessionData.txnid}`)
-                    return {
-                        status: PaymentSessionStatus.AUTHORIZED,
-                        data: {
-                            ...sessionData,
-                            status: "authorized" as PayuPaymentStatus,
-                            payuTransactionId: txn.mihpayid,
-                            payuResponse: txn,
-                        } as unknown as Record<string, unknown>,
-                    }
+            const verified = details[sessionData.txnid]
+            const txn = verified && verified.status?.toLowerCase() !== "not found" ? verified : undefined
+            // Transactions PayU has no record of are treated as failed
+            const { status } = txn
+                ? resolvePayuStatus(txn.status, txn.unmappedstatus)
+                : { status: "failed" as PayuPaymentStatus }
+
+            if (status === "authorized") {
+                // Never authorize a payment PayU reports for another amount, merchant account or transaction.
+                // verify_payment answers for the account the call was signed with when it reports no key
+                const mismatches = findPayuMismatches(
+                    { amount: sessionData.amount, key: sessionData.merchantKey, txnid: sessionData.txnid },
+                    { amount: txn?.amt, key: txn?.key ?? profile.merchantKey, txnid: txn?.txnid }
+                )
+                if (mismatches.length) {
+                    return this.holdMismatchedPayment(sessionData, txn!, mismatches)
+                }
+
+                // Medusa keeps authorizing the session amount; convenience fees are recorded alongside
+                const { additionalCharges, amountCharged } = resolvePayuAmounts(txn?.amt, txn?.additional_charges)
+                this.logger_?.info?.(
+                    `PayU authorized: ${sessionData.txnid}` +
+                    (hasAdditionalCharges(additionalCharges)
+                        ? ` (additional charges ${additionalCharges}, customer charged ${amountCharged})`
+                        : "")
+                )
+                const mandate = sessionData.mandate && txn?.mihpayid
+                    ? await this.recordMandate(sessionData, sessionData.mandate, txn.mihpayid)
+                    : sessionData.mandate
+
+                return {
+                    status: PaymentSessionStatus.AUTHORIZED,
+                    data: {
+                        ...sessionData,
+                        status,
+                        mismatches: undefined,
+                        ...(mandate && { mandate }),
+                        ...(sessionData.paymentLink && {
+                            paymentLink: { ...sessionData.paymentLink, status: "paid", endedAt: new Date().toISOString() },
+                        }),
+                        payuTransactionId: txn?.mihpayid,
+                        payuResponse: txn,
+                        additionalCharges,
+                        amountCharged,
+                    } as unknown as Record<string, unknown>,
                 }
             }
 
+            // Auto-refunded payments never complete the cart
+            const sessionStatus = status === "refunded" ? "failed" : status
+
             return {
-                status: PaymentSessionStatus.ERROR,
-                data: { ...sessionData, status: "failed" as PayuPaymentStatus },
+                status: PAYU_SESSION_STATUS_MAP[sessionStatus],
+                data: {
+                    ...sessionData,
+                    status: sessionStatus,
+                    ...(txn && { payuResponse: txn }),
+                } as unknown as Record<string, unknown>,
             }
         } catch (error) {
             this.logger_?.error?.(`PayU authorizePayment error: ${error}`)
@@ -284,12 +911,100 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
     }
 
     /**
-     * Capture payment (PayU auto-captures)
+     * Capture payment
+     *
+     * With auto-capture PayU captures on success, so only the local status changes.
+     * Pre-authorized transactions are captured with capture_transaction; a lower
+     * amount than authorized performs a partial capture.
      */
     async capturePayment(input: CapturePaymentInput): Promise<CapturePaymentOutput> {
         const sessionData = input.data as unknown as PayuSessionData
-        return {
-            data: { ...sessionData, status: "captured" as PayuPaymentStatus } as unknown as Record<string, unknown>,
+
+        if (!sessionData.preAuthorize || sessionData.status === "captured") {
+            return {
+                data: { ...sessionData, status: "captured" as PayuPaymentStatus } as unknown as Record<string, unknown>,
+            }
+        }
+
+        try {
+            if (!sessionData.payuTransactionId) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    "No PayU transaction ID (mihpayid) found. The payment must be authorized before it can be captured."
+                )
+            }
+
+            const captureAmount = await this.getCaptureAmount(input.context?.idempotency_key) ?? sessionData.amount
+
+            if (!isValidPayuAmount(captureAmount) || MathBN.gt(MathBN.convert(captureAmount), MathBN.convert(sessionData.amount))) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Invalid capture amount: ${captureAmount}. Authorized amount is ${sessionData.amount}.`
+                )
+            }
+
+            const tokenId = `CAP_${sessionData.payuTransactionId}_${Date.now()}`
+
+            this.logger_?.info?.(
+                `PayU capture request: mihpayid=${sessionData.payuTransactionId}, ` +
+                `txnid=${sessionData.txnid}, amount=${captureAmount}, tokenId=${tokenId}`
+            )
+
+            const response = await this.getClient(sessionData.merchantProfile).capture(sessionData.payuTransactionId, tokenId, captureAmount)
+
+            this.logger_?.info?.(
+                `PayU capture response: status=${response.status}, msg=${response.msg}, ` +
+                `request_id=${response.request_id || 'N/A'}, error_code=${response.error_code || 'N/A'}`
+            )
+
+            if (response.status !== 1) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Capture failed: ${response.msg || "Unknown error"}`
+                )
+            }
+
+            return {
+                data: {
+                    ...sessionData,
+                    status: "captured" as PayuPaymentStatus,
+                    capture: {
+                        tokenId,
+                        amount: captureAmount,
+                        request_id: response.request_id,
+                        response,
+                    },
+                } as unknown as Record<string, unknown>,
+            }
+        } catch (error) {
+            this.logger_?.error?.(`PayU capturePayment error: ${error}`)
+            if (error instanceof MedusaError) {
+                throw error
+            }
+            throw new MedusaError(
+                MedusaError.Types.UNEXPECTED_STATE,
+                error instanceof Error ? error.message : String(error)
+            )
+        }
+    }
+
+    /**
+     * Amount of the capture Medusa is recording (undefined when it can't be read)
+     * The payment module passes the new capture's id as the idempotency key; partial
+     * captures from the admin only show up in that capture record
+     */
+    private async getCaptureAmount(captureId?: string): Promise<string | undefined> {
+        if (!captureId) {
+            return undefined
+        }
+
+        try {
+            const captureService = this.container.captureService as CaptureLookup | undefined
+            const capture = await captureService?.retrieve(captureId, { select: ["id", "amount", "raw_amount"] })
+            return capture ? MathBN.convert(capture.raw_amount ?? capture.amount).toFixed(2) : undefined
+        } catch (error) {
+            this.logger_?.warn?.(`PayU capture: could not read capture ${captureId}, capturing the authorized amount: ${error}`)
+            return undefined
         }
     }
 
@@ -319,12 +1034,24 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                 )
             }
 
+            // Refunds may not exceed the captured amount minus everything already refunded
+            const refunds = getRefundLedger(sessionData)
+            const refundable = MathBN.sub(getCapturedAmount(sessionData), getRefundedAmount(refunds))
+
+            if (MathBN.gt(refundAmount, refundable)) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Refund amount ${refundAmount} exceeds the refundable amount ` +
+                    `${this.formatAmount(new BigNumber(refundable))} for ${sessionData.txnid}.`
+                )
+            }
+
             this.logger_?.info?.(
                 `PayU refund request: mihpayid=${sessionData.payuTransactionId}, ` +
                 `txnid=${sessionData.txnid}, amount=${refundAmount}, tokenId=${tokenId}`
             )
 
-            const response = await this.client_.refund(
+            const response = await this.getClient(sessionData.merchantProfile).refund(
                 sessionData.payuTransactionId,
                 tokenId,
                 refundAmount
@@ -338,7 +1065,7 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
             )
 
             if (response.status === 1) {
-                // Check for same-day capture message (treated as pending success)
+                // Check for same-day capture message (refund queued until tomorrow)
                 if (response.msg?.includes?.("Capture is done today")) {
                     this.logger_?.info?.(
                         `PayU refund queued for ${sessionData.txnid}: Same-day capture, ` +
@@ -346,17 +1073,29 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                     )
                 }
 
-                this.logger_?.info?.(`PayU refund successful: ${sessionData.txnid}, request_id=${response.request_id}`)
+                // PayU only accepted the request - the refund stays pending until
+                // check_action_status reports it settled (see reconcile-payu-refunds workflow)
+                this.logger_?.info?.(`PayU refund accepted: ${sessionData.txnid}, request_id=${response.request_id}`)
+
+                const ledger: PayuRefundRecord[] = [
+                    ...refunds,
+                    {
+                        tokenId,
+                        amount: refundAmount,
+                        request_id: response.request_id,
+                        status: "pending",
+                        response,
+                        createdAt: new Date().toISOString(),
+                    },
+                ]
+
                 return {
                     data: {
                         ...sessionData,
-                        status: "refunded" as PayuPaymentStatus,
-                        refund: {
-                            tokenId,
-                            amount: refundAmount,
-                            request_id: response.request_id,
-                            response
-                        },
+                        status: getRefundedPaymentStatus(sessionData, ledger),
+                        refunds: ledger,
+                        hasPendingRefunds: ledger.some(isPendingRefund),
+                        refund: undefined,
                     } as unknown as Record<string, unknown>,
                 }
             }
@@ -404,37 +1143,109 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
 
     /**
      * Cancel payment
+     *
+     * Pre-authorized transactions that are not yet captured have their hold
+     * released with cancel_transaction. Everything else is cancelled locally.
      */
     async cancelPayment(input: CancelPaymentInput): Promise<CancelPaymentOutput> {
         const sessionData = input.data as unknown as PayuSessionData
-        return {
-            data: { ...sessionData, status: "cancelled" as PayuPaymentStatus } as unknown as Record<string, unknown>,
+
+        if (!sessionData.preAuthorize || !sessionData.payuTransactionId || sessionData.status !== "authorized") {
+            return {
+                data: { ...sessionData, status: "cancelled" as PayuPaymentStatus } as unknown as Record<string, unknown>,
+            }
+        }
+
+        try {
+            const tokenId = `CAN_${sessionData.payuTransactionId}_${Date.now()}`
+
+            this.logger_?.info?.(
+                `PayU cancel request: mihpayid=${sessionData.payuTransactionId}, ` +
+                `txnid=${sessionData.txnid}, amount=${sessionData.amount}, tokenId=${tokenId}`
+            )
+
+            const response = await this.getClient(sessionData.merchantProfile).cancelTransaction(
+                sessionData.payuTransactionId,
+                tokenId,
+                sessionData.amount
+            )
+
+            this.logger_?.info?.(
+                `PayU cancel response: status=${response.status}, msg=${response.msg}, ` +
+                `request_id=${response.request_id || 'N/A'}, error_code=${response.error_code || 'N/A'}`
+            )
+
+            if (response.status !== 1) {
+                throw new MedusaError(
+                    MedusaError.Types.INVALID_DATA,
+                    `Cancel failed: ${response.msg || "Unknown error"}`
+                )
+            }
+
+            return {
+                data: {
+                    ...sessionData,
+                    status: "cancelled" as PayuPaymentStatus,
+                    cancellation: {
+                        tokenId,
+                        amount: sessionData.amount,
+                        request_id: response.request_id,
+                        response,
+                    },
+                } as unknown as Record<string, unknown>,
+            }
+        } catch (error) {
+            this.logger_?.error?.(`PayU cancelPayment error: ${error}`)
+            if (error instanceof MedusaError) {
+                throw error
+            }
+            throw new MedusaError(
+                MedusaError.Types.UNEXPECTED_STATE,
+                error instanceof Error ? error.message : String(error)
+            )
         }
     }
 
     /**
      * Delete payment session
+     * An unpaid payment link sent for the session is expired at PayU
      */
     async deletePayment(input: DeletePaymentInput): Promise<DeletePaymentOutput> {
+        const sessionData = input.data as unknown as PayuSessionData
+        if (sessionData?.paymentLink && isPaymentLinkActive(sessionData)) {
+            return { data: (await this.expirePaymentLink(sessionData)) as unknown as Record<string, unknown> }
+        }
         return { data: input.data }
     }
 
+    /**
+     * Expire the session's payment link at PayU
+     * PayU stops accepting an invoice once it expires, so a failure here is only logged
+     */
+    private async expirePaymentLink(sessionData: PayuSessionData): Promise<PayuSessionData> {
+        try {
+            const response = await this.getClient(sessionData.merchantProfile).expireInvoice(sessionData.txnid)
+            if (response.status !== 1) {
+                this.logger_?.warn?.(`PayU: could not expire payment link ${sessionData.txnid}: ${response.msg}`)
+            }
+        } catch (error) {
+            this.logger_?.warn?.(`PayU: could not expire payment link ${sessionData.txnid}: ${error}`)
+        }
+
+        return {
+            ...sessionData,
+            status: "cancelled",
+            paymentLink: { ...sessionData.paymentLink!, status: "expired", endedAt: new Date().toISOString() },
+        }
+    }
+
     /**
      * Get payment status
      */
     async getPaymentStatus(input: GetPaymentStatusInput): Promise<GetPaymentStatusOutput> {
         const sessionData = input.data as unknown as PayuSessionData
 
-        const statusMap: Record<PayuPaymentStatus, PaymentSessionStatus> = {
-            pending: PaymentSessionStatus.PENDING,
-            authorized: PaymentSessionStatus.AUTHORIZED,
-            captured: PaymentSessionStatus.AUTHORIZED,
-            failed: PaymentSessionStatus.ERROR,
-            refunded: PaymentSessionStatus.AUTHORIZED,
-            cancelled: PaymentSessionStatus.CANCELED,
-        }
-
-        return { status: statusMap[sessionData.status] || PaymentSessionStatus.PENDING }
+        return { status: PAYU_SESSION_STATUS_MAP[sessionData.status] || PaymentSessionStatus.PENDING }
     }
 
     /**
@@ -444,35 +1255,108 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
         return { data: input.data }
     }
 
+    /**
+     * Start a new attempt when the session's txnid can no longer be paid
+     *
+     * Failed, cancelled and requires_more sessions always get a fresh txnid. Pending
+     * sessions are checked with PayU: txnids PayU reports as failed, or as still
+     * pending after attemptExpiryMinutes, are replaced. Txnids PayU has not seen yet
+     * are kept. The ended attempt is kept in the session's attempts history.
+     */
+    private async renewAttemptIfNeeded(sessionData: PayuSessionData): Promise<PayuSessionData> {
+        if (!sessionData.txnid) {
+            return sessionData
+        }
+
+        if (isRetryableStatus(sessionData.status)) {
+            return this.renewAttempt(sessionData, sessionData.status)
+        }
+        if (sessionData.status !== "pending") {
+            return sessionData
+        }
+
+        let txn: PayuVerifyResponse["transaction_details"][string] | undefined
+        try {
+            const response = await this.getClient(sessionData.merchantProfile).verifyPayment(sessionData.txnid)
+            txn = response.status === 1 ? response.transaction_details?.[sessionData.txnid] : undefined
+        } catch (error) {
+            this.logger_?.warn?.(`PayU updatePayment: could not check attempt ${sessionData.txnid}, keeping it: ${error}`)
+            return sessionData
+        }
+
+        // PayU has not seen this txnid yet - it can still be used
+        if (!txn || txn.status?.toLowerCase() === "not found") {
+            return sessionData
+        }
+
+        const { status, action } = resolvePayuStatus(txn.status, txn.unmappedstatus)
+        if (action === "failed" || action === "canceled" || action === "requires_more") {
+            return this.renewAttempt(sessionData, status)
+        }
+        if (action === "pending" && isAttemptExpired(sessionData, this.config_.attemptExpiryMinutes)) {
+            return this.renewAttempt(sessionData, "cancelled")
+        }
+
+        return sessionData
+    }
+
+    /**
+     * Replace the session's txnid with a new attempt
+     */
+    private renewAttempt(sessionData: PayuSessionData, endedAs: PayuPaymentStatus): PayuSessionData {
+        const renewed = startNewAttempt(sessionData, endedAs)
+        this.logger_?.info?.(
+            `PayU updatePayment: attempt ${sessionData.txnid} ended as ${endedAs}, ` +
+            `retrying with txnid ${renewed.txnid} (attempt ${renewed.attempts!.length + 1})`
+        )
+        return renewed
+    }
+
     /**
      * Update payment session
+     * Re-signs the checkout for a new amount, and issues a new txnid when the
+     * previous attempt can no longer be paid
      */
     async updatePayment(input: UpdatePaymentInput): Promise<UpdatePaymentOutput> {
         try {
             const { data, amount } = input
-            const sessionData = data as unknown as PayuSessionData
 
-            if (amount) {
-                const formattedAmount = this.formatAmount(amount)
-                // Build redirect URLs from environment variables
-                // Allow NEXT_PUBLIC_BASE_URL as fallback for STOREFRONT_URL
-                const storefrontUrl = process.env.STOREFRONT_URL || process.env.NEXT_PUBLIC_BASE_URL
+            // The link sent to the customer is signed for its amount: a new amount
+            // ends the link, and the admin sends a new one
+            const linkSession = data as unknown as PayuSessionData
+            if (linkSession?.checkoutMode === "payment_link") {
+                if (!amount || isSamePayuAmount(this.formatAmount(amount), linkSession.amount)) {
+                    return { data: data as Record<string, unknown> }
+                }
+                if (!linkSession.paymentLink) {
+                    return { data: { ...linkSession, amount: this.formatAmount(amount) } as unknown as Record<string, unknown> }
+                }
+                this.logger_?.info?.(`PayU updatePayment: amount of payment link ${linkSession.txnid} changed, expiring the link`)
+                return {
+                    status: PaymentSessionStatus.CANCELED,
+                    data: (await this.expirePaymentLink(linkSession)) as unknown as Record<string, unknown>,
+                }
+            }
 
-                // Provide sensible defaults if specific paths aren't provided
-                const redirectPath = process.env.PAYU_REDIRECT_URL || "/order/confirmed"
-                const redirectFailurePath = process.env.PAYU_REDIRECT_FAILURE_URL || "/checkout"
+            let sessionData = await this.renewAttemptIfNeeded(data as unknown as PayuSessionData)
+            let renewed = sessionData.txnid !== (data as unknown as PayuSessionData).txnid
 
-                if (!storefrontUrl) {
-                    throw new Error("STOREFRONT_URL or NEXT_PUBLIC_BASE_URL environment variable is required")
+            // A UPI payment is already open at PayU for this txnid: a new amount needs a new
+            // attempt, and re-sending the same one would start a duplicate payment
+            if (amount && isUpiMethod(sessionData.paymentMethod) && !renewed) {
+                if (isSamePayuAmount(this.formatAmount(amount), sessionData.amount)) {
+                    return { data: data as Record<string, unknown> }
                 }
+                sessionData = this.renewAttempt(sessionData, "cancelled")
+                renewed = true
+            }
 
-                // Constructs the URL: {base}/{country}/{path}
-                // Ensure storefrontUrl doesn't have trailing slash and path starts with slash
-                const cleanBase = storefrontUrl.replace(/\/$/, "")
-                const cleanPath = redirectPath.startsWith("/") ? redirectPath : `/${redirectPath}`
-                const cleanFailPath = redirectFailurePath.startsWith("/") ? redirectFailurePath : `/${redirectFailurePath}`
+            if (amount || renewed) {
+                const formattedAmount = this.formatAmount(amount ?? sessionData.amount)
 
-                const hash = this.client_.generatePaymentHash({
+                // Keep the merchant profile chosen when the payment was initiated
+                const profile = this.getMerchantProfile(sessionData.merchantProfile)
+                const hash = this.getClient(profile.id).generatePaymentHash({
                     txnid: sessionData.txnid,
                     amount: formattedAmount,
                     productinfo: sessionData.productinfo,
@@ -480,32 +1364,22 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                     email: sessionData.email,
                     udf1: sessionData.udf1,
                     udf2: sessionData.udf2,
+                    udf3: sessionData.udf3,
+                    si_details: sessionData.mandate && serializeSiDetails(sessionData.mandate.siDetails),
                 })
 
-                const surl = `${cleanBase}/${sessionData.countryCode || 'in'}${cleanPath}`
-                const furl = `${cleanBase}/${sessionData.countryCode || 'in'}${cleanFailPath}`
+                // Rendered again: a new attempt has a new {txnid}
+                const storefrontUrls = this.getStorefrontUrls(sessionData)
+
+                const checkout = await this.buildCheckout(
+                    { ...sessionData, amount: formattedAmount, merchantKey: profile.merchantKey, hash, ...storefrontUrls },
+                    profile
+                )
 
                 return {
-                    data: {
-                        ...sessionData,
-                        amount: formattedAmount,
-                        hash,
-                        form_data: {
-                            key: this.config_.merchantKey,
-                            txnid: sessionData.txnid,
-                            amount: formattedAmount,
-                            productinfo: sessionData.productinfo,
-                            firstname: sessionData.firstname,
-                            email: sessionData.email,
-                            phone: sessionData.phone,
-                            surl,
-                            furl,
-                            hash,
-                            udf1: sessionData.udf1,
-                            udf2: sessionData.udf2,
-                            service_provider: "payu_paisa",
-                        },
-                    } as unknown as Record<string, unknown>,
+                    // A new attempt can be paid again
+                    ...(renewed && { status: PaymentSessionStatus.PENDING }),
+                    data: checkout as unknown as Record<string, unknown>,
                 }
             }
 
@@ -524,8 +1398,172 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
      * 
      * The webhook payload is URL-encoded form data with fields matching PayuWebhookPayload.
      * Hash verification ensures the webhook is authentic and hasn't been tampered with.
+     *
+     * Every delivery is recorded in the payu module's webhook event log. PayU resends
+     * webhooks, so an action already returned for the same (txnid, mihpayid, status)
+     * is not returned again - unless processing it failed and the session is still not authorized.
      */
     async getWebhookActionAndData(data: ProviderWebhookPayload["payload"]): Promise<WebhookActionResult> {
+        const delivery: PayuWebhookDelivery = { hashVerified: false }
+        const result = await this.resolveWebhookAction(data, delivery)
+        return this.recordWebhookDelivery(data, delivery, result)
+    }
+
+    /**
+     * Replay a logged webhook event (admin webhook inspector)
+     * The stored payload is verified and mapped like a delivery, logged as a replay
+     * of the event and never deduplicated. Only called server-side, never from a webhook.
+     */
+    async replayWebhookEvent(event: { id: string; payload: Record<string, unknown> }): Promise<WebhookActionResult> {
+        const data: ProviderWebhookPayload["payload"] = { data: event.payload, rawData: "", headers: {} }
+        const delivery: PayuWebhookDelivery = { hashVerified: false, replayOf: event.id }
+
+        this.logger_?.info?.(`PayU webhook: REPLAY of ${event.id} for txnid=${event.payload.txnid}`)
+        const result = await this.resolveWebhookAction(data, delivery)
+        return this.recordWebhookDelivery(data, delivery, result)
+    }
+
+    /**
+     * Get the payu module service
+     * Only available when the payment module lists "payu" in its dependencies
+     */
+    private getPayuModule(): PayuModuleService | undefined {
+        try {
+            return this.container[PAYU_MODULE] as PayuModuleService | undefined
+        } catch {
+            return undefined
+        }
+    }
+
+    /**
+     * Find the Medusa payment session a webhook belongs to
+     *
+     * Sessions carry their id in udf3. Sessions initiated before that only have the
+     * txnid in their data, so they are looked up through the payment module's
+     * session service. Each PayU attempt of a cart has its own session and txnid.
+     */
+    private async resolveWebhookSessionId(webhook: PayuWebhookPayload): Promise<string | undefined> {
+        if (webhook.udf3?.startsWith(PAYMENT_SESSION_ID_PREFIX)) {
+            return webhook.udf3
+        }
+
+        try {
+            const paymentSessionService = this.container.paymentSessionService as PaymentSessionLookup | undefined
+            const [session] = await paymentSessionService?.list(
+                { data: { txnid: webhook.txnid } },
+                { select: ["id"], take: 1 }
+            ) ?? []
+
+            if (session) {
+                this.logger_?.debug?.(`PayU webhook: txnid=${webhook.txnid} matched to session ${session.id} by txnid`)
+            }
+            return session?.id
+        } catch (error) {
+            this.logger_?.warn?.(`PayU webhook: session lookup for txnid=${webhook.txnid} failed: ${error}`)
+            return undefined
+        }
+    }
+
+    /**
+     * Merchant key the session's checkout was signed for
+     * Undefined when the session can't be read or predates stored keys
+     */
+    private async getSessionMerchantKey(sessionId: string): Promise<string | undefined> {
+        try {
+            const paymentSessionService = this.container.paymentSessionService as PaymentSessionLookup | undefined
+            const [session] = await paymentSessionService?.list(
+                { id: sessionId },
+                { select: ["id", "data"], take: 1 }
+            ) ?? []
+            return (session?.data as PayuSessionData | undefined)?.merchantKey
+        } catch (error) {
+            this.logger_?.warn?.(`PayU webhook: session lookup for ${sessionId} failed: ${error}`)
+            return undefined
+        }
+    }
+
+    /**
+     * Whether the payment session already reached the state a webhook action moves it to
+     * Only authorizations change the session; other actions count as processed when received
+     */
+    private async isWebhookActionProcessed(result: WebhookActionResult): Promise<boolean> {
+        if (result.action !== "authorized" || !result.data?.session_id) {
+            return true
+        }
+
+        try {
+            const paymentSessionService = this.container.paymentSessionService as PaymentSessionLookup | undefined
+            const [session] = await paymentSessionService?.list(
+                { id: result.data.session_id },
+                { select: ["id", "status"], take: 1 }
+            ) ?? []
+            return !session || session.status === PaymentSessionStatus.AUTHORIZED
+        } catch (error) {
+            this.logger_?.warn?.(`PayU webhook: session lookup for ${result.data.session_id} failed: ${error}`)
+            return true
+        }
+    }
+
+    /**
+     * Store a webhook delivery in the event log and drop repeat deliveries
+     * A repeat of an authorization whose session is still not authorized (e.g. cart
+     * completion failed) is PayU's retry and is returned again, but only once the earlier
+     * delivery's lock expired - before that it may still be processing.
+     * Storage failures are logged and never block payment processing
+     */
+    private async recordWebhookDelivery(
+        data: ProviderWebhookPayload["payload"],
+        delivery: PayuWebhookDelivery,
+        result: WebhookActionResult
+    ): Promise<WebhookActionResult> {
+        const payuModule = this.getPayuModule()
+        if (!payuModule) {
+            return result
+        }
+
+        const webhook = delivery.webhook
+        const status = webhook?.status?.toLowerCase()
+        const dedupKey = webhook && result.action !== "not_supported"
+            ? `${webhook.txnid}|${webhook.mihpayid || ""}|${status}`
+            : null
+
+        try {
+            const { event, duplicate } = await payuModule.recordWebhookEvent({
+                txnid: webhook?.txnid ?? null,
+                mihpayid: webhook?.mihpayid ?? null,
+                status: webhook?.status ?? null,
+                payload: (webhook ?? { raw: JSON.stringify(data)?.substring(0, 5000) }) as Record<string, unknown>,
+                hash_verified: delivery.hashVerified,
+                matched_salt: delivery.matchedSalt ?? null,
+                action: result.action,
+                error: delivery.error ?? null,
+                dedup_key: dedupKey,
+                replay_of: delivery.replayOf ?? null,
+                retryable: !!dedupKey && !(await this.isWebhookActionProcessed(result)),
+            })
+
+            if (duplicate) {
+                this.logger_?.info?.(
+                    `PayU webhook: DUPLICATE delivery for txnid=${webhook?.txnid}, status=${status}, ` +
+                    `'${result.action}' already returned. Recorded as ${event.id}`
+                )
+                return { action: "not_supported" }
+            }
+        } catch (error) {
+            this.logger_?.error?.(`PayU webhook: failed to record webhook event: ${error}`)
+        }
+
+        return result
+    }
+
+    /**
+     * Parse and verify a webhook and decide the Medusa action
+     * Fills `delivery` with the parsed payload, verification result and any error
+     */
+    private async resolveWebhookAction(
+        data: ProviderWebhookPayload["payload"],
+        delivery: PayuWebhookDelivery
+    ): Promise<WebhookActionResult> {
         try {
             // Enhanced debug logging - log the full payload structure
             this.logger_?.info?.(
@@ -579,9 +1617,12 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                     `PayU webhook: INVALID PAYLOAD - No data received. ` +
                     `Raw payload: ${JSON.stringify(data)?.substring(0, 500) || 'undefined'}`
                 )
+                delivery.error = "Invalid payload: no data received"
                 return { action: "not_supported" }
             }
 
+            delivery.webhook = webhook
+
             // Validate required fields exist
             if (!webhook.txnid || !webhook.status || !webhook.hash) {
                 this.logger_?.error?.(
@@ -591,19 +1632,35 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                     `This may indicate PayU sent malformed data or the webhook URL received non-PayU traffic. ` +
                     `Available keys in webhook: ${Object.keys(webhook as object).join(', ')}`
                 )
+                delivery.error = "Invalid payload: missing txnid, status or hash"
                 return { action: "not_supported" }
             }
 
             // Enhanced logging for production debugging and audit trail
             this.logger_?.info?.(
                 `PayU webhook received: txnid=${webhook.txnid}, mihpayid=${webhook.mihpayid || 'N/A'}, ` +
-                `status=${webhook.status}, amount=${webhook.amount || 'N/A'}, mode=${webhook.mode || 'N/A'}, ` +
+                `status=${webhook.status}, amount=${webhook.amount || 'N/A'}, ` +
+                `additionalCharges=${webhook.additionalCharges || 'N/A'}, mode=${webhook.mode || 'N/A'}, ` +
                 `cart_id=${webhook.udf1 || 'N/A'}, customer_id=${webhook.udf2 || 'N/A'}`
             )
 
-            // Verify hash to ensure webhook authenticity
+            // Identify the merchant account from the key PayU sends back
+            const profile = webhook.key
+                ? findMerchantProfileByKey(this.config_, webhook.key)
+                : findMerchantProfile(this.config_)
+            if (!profile) {
+                this.logger_?.warn?.(
+                    `PayU webhook: Unknown merchant key '${webhook.key}' for txnid=${webhook.txnid}. ` +
+                    `Add the merchant profile to the provider's merchants option.`
+                )
+                delivery.error = `Unknown merchant key '${webhook.key}'`
+                return { action: "not_supported" }
+            }
+
+            // Verify hash to ensure webhook authenticity (primary v1/v2 salt or an unexpired previous salt)
             // Formula: sha512(SALT|status||||||udf5|udf4|udf3|udf2|udf1|email|firstname|productinfo|amount|txnid|key)
-            const isValid = this.client_.verifyResponseHash({
+            // prefixed with "additionalCharges|" when PayU charged a convenience fee
+            const matchedSalt = this.getClient(profile.id).matchResponseHash({
                 status: webhook.status,
                 email: webhook.email,
                 firstname: webhook.firstname,
@@ -616,78 +1673,146 @@ class PayuPaymentProviderService extends AbstractPaymentProvider<PayuProviderCon
                 udf3: webhook.udf3,
                 udf4: webhook.udf4,
                 udf5: webhook.udf5,
+                additionalCharges: webhook.additionalCharges,
             })
 
-            if (!isValid) {
+            if (!matchedSalt) {
                 this.logger_?.warn?.(
                     `PayU webhook: Hash verification FAILED for txnid=${webhook.txnid}. ` +
                     `This could indicate a tampered webhook or configuration mismatch.`
                 )
+                delivery.error = "Hash verification failed"
                 return { action: "not_supported" }
             }
 
-            this.logger_?.debug?.(`PayU webhook: Hash verified successfully for txnid=${webhook.txnid}`)
+            delivery.hashVerified = true
+            delivery.matchedSalt = matchedSalt
+
+            if (matchedSalt !== PRIMARY_SALT_ID && matchedSalt !== PRIMARY_SALT_V2_ID) {
+                this.logger_?.info?.(
+                    `PayU webhook: txnid=${webhook.txnid} verified with previous salt '${matchedSalt}' ` +
+                    `of merchant profile ${profile.id}`
+                )
+            }
+
+            this.logger_?.debug?.(
+                `PayU webhook: Hash verified successfully for txnid=${webhook.txnid}, merchant profile ${profile.id}, ` +
+                `salt ${matchedSalt}`
+            )
 
-            // Session ID matches the transaction ID returned from initiatePayment
-            const sessionId = webhook.udf1 || webhook.txnid
             const status = webhook.status.toLowerCase()
 
-            if (status === "success") {
-                this.logger_?.info?.(`PayU webhook: Payment SUCCESS for txnid=${webhook.txnid}, authorizing session ${sessionId}`)
-                return {
-                    action: "authorized",
-                    data: {
-                        session_id: sessionId,
-                        amount: new BigNumber(parseFloat(webhook.amount)),
-                    },
+            // Handle dispute/chargeback webhooks from PayU
+            // Recorded by the handle-payu-dispute workflow via the payu.dispute.received event
+            if (status === "dispute" || status === "chargeback") {
+                this.logger_?.warn?.(
+                    `PayU webhook: ⚠️ DISPUTE/CHARGEBACK received for txnid=${webhook.txnid}, ` +
+                    `mihpayid=${webhook.mihpayid || 'N/A'}, amount=${webhook.amount}. ` +
+                    `Manual review required!`
+                )
+                if (!isValidPayuAmount(webhook.amount)) {
+                    this.logger_?.error?.(
+                        `PayU webhook: Dispute for txnid=${webhook.txnid} has an invalid amount '${webhook.amount}', not recorded`
+                    )
+                    delivery.error = `Invalid dispute amount '${webhook.amount}'`
+                    return { action: "not_supported" }
                 }
+                await this.emitEvent(PayuEvents.DISPUTE_RECEIVED, this.parseDispute(webhook, status))
+                // Disputes don't change the Medusa payment session
+                return { action: "not_supported" }
             }
 
-            if (status === "failure" || status === "failed") {
-                this.logger_?.info?.(
-                    `PayU webhook: Payment FAILED for txnid=${webhook.txnid}, ` +
-                    `error=${webhook.error || 'N/A'}, error_Message=${webhook.error_Message || 'N/A'}`
-                )
-                return {
-                    action: "failed",
-                    data: {
-                        session_id: sessionId,
-                        amount: new BigNumber(parseFloat(webhook.amount)),
-                    },
-                }
+            const resolution = resolvePayuStatus(webhook.status, webhook.unmappedstatus)
+            const statusLabel = `status=${webhook.status}, unmappedstatus=${webhook.unmappedstatus || 'N/A'}`
+
+            switch (resolution.action) {
+                case "authorized":
+                    this.logger_?.info?.(`PayU webhook: Payment SUCCESS for txnid=${webhook.txnid} (${statusLabel})`)
+                    break
+                case "failed":
+                    this.logger_?.info?.(
+                        `PayU webhook: Payment FAILED for txnid=${webhook.txnid} (${statusLabel}), ` +
+                        `error=${webhook.error || 'N/A'}, error_Message=${webhook.error_Message || 'N/A'}`
+                    )
+                    break
+                case "canceled":
+                    this.logger_?.info?.(`PayU webhook: Payment CANCELLED for txnid=${webhook.txnid} (${statusLabel})`)
+                    break
+                case "requires_more":
+                    this.logger_?.info?.(`PayU webhook: Payment needs customer action for txnid=${webhook.txnid} (${statusLabel})`)
+                    break
+                case "pending":
+                    this.logger_?.info?.(`PayU webhook: Payment PENDING for txnid=${webhook.txnid} (${statusLabel})`)
+                    break
+                default:
+                    // Handle refund webhooks from PayU
+                    // Note: MedusaJS manages refund state internally, this is for logging/reconciliation
+                    if (resolution.status === "refunded") {
+                        this.logger_?.info?.(
+                            `PayU webhook: REFUND processed for txnid=${webhook.txnid}, ` +
+                            `mihpayid=${webhook.mihpayid || 'N/A'}, amount=${webhook.amount}`
+                        )
+                        return { action: "not_supported" }
+                    }
+
+                    this.logger_?.info?.(`PayU webhook: Unhandled status for txnid=${webhook.txnid} (${statusLabel})`)
+                    delivery.error = `Unhandled status '${webhook.status}'`
+                    return { action: "not_supported" }
             }
 
-            // Handle refund webhooks from PayU
-            // Note: MedusaJS manages refund state internally, this is for logging/reconciliation
-            if (status === "refund" || status === "refunded") {
-                this.logger_?.info?.(
-                    `PayU webhook: REFUND processed for txnid=${webhook.txnid}, ` +
-                    `mihpayid=${webhook.mihpayid || 'N/A'}, amount=${webhook.amount}`
+            // The amount is passed to Medusa as a decimal; a malformed amount is never acted on.
+            // authorizePayment cross-checks amount, key and txnid with the session before authorizing.
+            if (!isValidPayuAmount(webhook.amount)) {
+                this.logger_?.warn?.(`PayU webhook: Invalid amount '${webhook.amount}' for txnid=${webhook.txnid}, ignored`)
+                delivery.error = `Invalid amount '${webhook.amount}'`
+                return { action: "not_supported" }
+            }
+
+            // Medusa needs the payment session id - udf1 is the cart id, which may have several attempts
+            const sessionId = await this.resolveWebhookSessionId(webhook)
+            if (!sessionId) {
+                this.logger_?.warn?.(
+                    `PayU webhook: No payment session found for txnid=${webhook.txnid} (cart_id=${webhook.udf1 || 'N/A'}), ignored`
                 )
-                // Refunds are managed by MedusaJS through refundPayment method
-                // This webhook confirms PayU processed the refund
+                delivery.error = "Payment session not found"
                 return { action: "not_supported" }
             }
 
-            // Handle dispute/chargeback webhooks from PayU
-            // TODO: Implement dispute handling workflow
-            if (status === "dispute" || status === "chargeback") {
+            // A hash that is valid for one merchant account never moves a session signed for another
+            const sessionKey = await this.getSessionMerchantKey(sessionId)
+            const webhookKey = webhook.key || profile.merchantKey
+            if (sessionKey && sessionKey !== webhookKey) {
                 this.logger_?.warn?.(
-                    `PayU webhook: ⚠️ DISPUTE/CHARGEBACK received for txnid=${webhook.txnid}, ` +
-                    `mihpayid=${webhook.mihpayid || 'N/A'}, amount=${webhook.amount}. ` +
-                    `Manual review required!`
+                    `PayU webhook: merchant key '${webhookKey}' of txnid=${webhook.txnid} does not match ` +
+                    `the key '${sessionKey}' session ${sessionId} was signed for, ignored`
                 )
-                // Disputes need manual handling - log for now
+                delivery.error = `Merchant key '${webhookKey}' does not match the session's key '${sessionKey}'`
                 return { action: "not_supported" }
             }
 
-            // Handle pending or other statuses
-            this.logger_?.info?.(`PayU webhook: Unhandled status '${webhook.status}' for txnid=${webhook.txnid}`)
-            return { action: "not_supported" }
+            // Report the transaction amount; the convenience fee is not part of the Medusa payment
+            const amounts = resolvePayuAmounts(webhook.amount, webhook.additionalCharges)
+            if (hasAdditionalCharges(amounts.additionalCharges)) {
+                this.logger_?.info?.(
+                    `PayU webhook: txnid=${webhook.txnid} includes additional charges ${amounts.additionalCharges}, ` +
+                    `reporting ${amounts.amount} of ${amounts.amountCharged} charged`
+                )
+            }
+
+            this.logger_?.debug?.(`PayU webhook: txnid=${webhook.txnid} → '${resolution.action}' for session ${sessionId}`)
+
+            return {
+                action: resolution.action,
+                data: {
+                    session_id: sessionId,
+                    amount: new BigNumber(amounts.amount),
+                },
+            }
         } catch (error) {
             this.logger_?.error?.(
                 `PayU webhook processing error: ${error instanceof Error ? error.message : String(error)}`
             )
+            delivery.error = error instanceof Error ? error.message : String(error)
             return { action: "not_supported" }
         }
     }
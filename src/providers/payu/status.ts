@@ -0,0 +1,97 @@
+/**
+ * PayU Status Mapping
+ *
+ * PayU reports a coarse `status` (success / failure / pending) and a detailed
+ * `unmappedstatus`. This maps both to the plugin's PayuPaymentStatus and the
+ * Medusa webhook action, for webhooks and verify_payment responses alike.
+ *
+ * https://docs.payu.in/docs/payment-status-codes
+ */
+
+import { PaymentSessionStatus } from "@medusajs/framework/utils"
+import type { PaymentActions } from "@medusajs/framework/types"
+import type { PayuPaymentStatus } from "./types"
+
+/**
+ * Result of mapping a PayU status
+ */
+export interface PayuStatusResolution {
+    status: PayuPaymentStatus
+    action: PaymentActions
+}
+
+/**
+ * unmappedstatus values, checked before the coarse status
+ */
+const UNMAPPED_STATUS_MAP: Record<string, PayuStatusResolution> = {
+    // Captured (auto-capture) or authorized only (pre-auth)
+    captured: { status: "authorized", action: "authorized" },
+    auth: { status: "authorized", action: "authorized" },
+    // Still in flight at PayU / the bank
+    pending: { status: "pending", action: "pending" },
+    "in progress": { status: "pending", action: "pending" },
+    initiated: { status: "pending", action: "pending" },
+    // Customer returned from the bank page without completing authentication - can retry
+    bounced: { status: "requires_more", action: "requires_more" },
+    // Customer abandoned or cancelled the payment
+    dropped: { status: "cancelled", action: "canceled" },
+    usercancelled: { status: "cancelled", action: "canceled" },
+    // Declined by the bank or PayU
+    failed: { status: "failed", action: "failed" },
+    // PayU refunded automatically (e.g. success received after the transaction timed out)
+    "auto-refund": { status: "refunded", action: "canceled" },
+}
+
+/**
+ * Coarse status values, used when unmappedstatus is missing or unknown
+ */
+const STATUS_MAP: Record<string, PayuStatusResolution> = {
+    success: { status: "authorized", action: "authorized" },
+    pending: { status: "pending", action: "pending" },
+    failure: { status: "failed", action: "failed" },
+    failed: { status: "failed", action: "failed" },
+    // Refunds are managed by Medusa through refundPayment - informational only
+    refund: { status: "refunded", action: "not_supported" },
+    refunded: { status: "refunded", action: "not_supported" },
+}
+
+/**
+ * Map PayU status/unmappedstatus to a payment status and Medusa webhook action
+ * Unknown combinations resolve to "pending" / "not_supported"
+ */
+export function resolvePayuStatus(status?: string, unmappedstatus?: string): PayuStatusResolution {
+    const mapped = (status || "").trim().toLowerCase()
+    const unmapped = (unmappedstatus || "").trim().toLowerCase()
+    const fallback = STATUS_MAP[mapped] ?? { status: "pending", action: "not_supported" }
+    const resolution = UNMAPPED_STATUS_MAP[unmapped]
+
+    if (!resolution) {
+        return fallback
+    }
+
+    // Authorization requires PayU to also report success
+    if (resolution.action === "authorized" && mapped !== "success") {
+        return fallback
+    }
+
+    // A failed transaction never goes back to pending
+    if (resolution.action === "pending" && (mapped === "failure" || mapped === "failed")) {
+        return fallback
+    }
+
+    return resolution
+}
+
+/**
+ * Medusa payment session status for each PayU payment status
+ */
+export const PAYU_SESSION_STATUS_MAP: Record<PayuPaymentStatus, PaymentSessionStatus> = {
+    pending: PaymentSessionStatus.PENDING,
+    requires_more: PaymentSessionStatus.REQUIRES_MORE,
+    authorized: PaymentSessionStatus.AUTHORIZED,
+    captured: PaymentSessionStatus.AUTHORIZED,
+    failed: PaymentSessionStatus.ERROR,
+    partially_refunded: PaymentSessionStatus.AUTHORIZED,
+    refunded: PaymentSessionStatus.AUTHORIZED,
+    cancelled: PaymentSessionStatus.CANCELED,
+}
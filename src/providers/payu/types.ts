@@ -7,14 +7,164 @@
  * PayU Provider Configuration
  */
 export interface PayuProviderConfig {
-    /** PayU Merchant Key */
+    /** PayU Merchant Key (the "default" merchant profile) */
     merchantKey: string
-    /** PayU Merchant Salt */
+    /** PayU Merchant Salt (the "default" merchant profile), used for signing */
     merchantSalt: string
+    /**
+     * PayU 256-bit "salt version 2" of the default merchant profile
+     * Required when saltVersion is 2; responses signed with it are always accepted
+     */
+    merchantSaltV2?: string
+    /**
+     * Hash scheme for the default merchant profile's checkout requests (default: 1)
+     * - 1: `hash` is sha512(...|merchantSalt)
+     * - 2: `hash` is the JSON {"v1": sha512(...|merchantSalt), "v2": sha512(...|merchantSaltV2)}
+     */
+    saltVersion?: PayuSaltVersion
+    /**
+     * Salts replaced during a salt rotation
+     * Still accepted when verifying PayU responses until they expire
+     */
+    previousSalts?: PayuPreviousSalt[]
+    /**
+     * Additional PayU merchant accounts (MIDs)
+     * Each payment uses the first profile matching its sales channel, region or
+     * currency; payments matching none use the default merchantKey/merchantSalt
+     */
+    merchants?: PayuMerchantProfile[]
+    /**
+     * Payment methods offered on PayU's checkout page per region, cart amount and customer group
+     * The first matching rule sets enforce_paymethod and drop_category; carts matching none get all methods
+     */
+    paymentMethodRules?: PayuPaymentMethodRule[]
     /** Environment: "test" for sandbox, "production" for live */
     environment: "test" | "production"
-    /** Enable auto-capture (default: true) */
+    /**
+     * Enable auto-capture (default: true)
+     * When false, transactions are initiated as authorize-only (pre-auth)
+     * and must be captured or cancelled explicitly
+     */
     autoCapture?: boolean
+    /**
+     * Minutes after which an attempt PayU still reports as pending is treated as
+     * expired, so updating the session starts a new attempt (default: 30)
+     */
+    attemptExpiryMinutes?: number
+    /**
+     * Minutes a session must be pending before the reconciliation job verifies it with PayU
+     * (default: PAYU_PENDING_PAYMENT_MAX_AGE_MINUTES, or 30)
+     */
+    pendingPaymentMaxAgeMinutes?: number
+    /** Days after which a pending session is no longer reconciled (default: 7) */
+    pendingPaymentLookbackDays?: number
+    /**
+     * Public URL of the Medusa backend (e.g. "https://api.example.com")
+     * When set, PayU returns the customer to {backendUrl}/payu/return, which
+     * verifies the response and completes the cart before redirecting to the storefront
+     */
+    backendUrl?: string
+    /**
+     * Storefront page after a successful payment, a URL template with the placeholders
+     * {country}, {cart_id}, {txnid} and {locale}
+     * (default: {STOREFRONT_URL}/{country}{PAYU_REDIRECT_URL}, e.g. "https://shop.example.com/{country}/order/confirmed")
+     */
+    successUrl?: string
+    /** Storefront page after a failed payment (default: {STOREFRONT_URL}/{country}{PAYU_REDIRECT_FAILURE_URL}) */
+    failureUrl?: string
+    /** Storefront page when the customer cancels on PayU (default: the failure page) */
+    cancelUrl?: string
+    /**
+     * Origins payment sessions may redirect to with their own success_url, failure_url
+     * and cancel_url (e.g. "https://shop-b.example.com"); overrides are rejected without them
+     */
+    allowedRedirectOrigins?: string[]
+    /**
+     * Override the PayU host for the checkout page and merchant API
+     * (e.g. "http://localhost:4010" for the bundled PayU emulator)
+     * Defaults to the PayU test or production hosts for the environment
+     */
+    baseUrl?: string
+}
+
+/**
+ * PayU hash scheme: 1 (single salt) or 2 (v1 + v2 salts)
+ */
+export type PayuSaltVersion = 1 | 2
+
+/**
+ * Salt kept valid for verification after a salt rotation
+ */
+export interface PayuPreviousSalt {
+    /** Identifier logged and recorded when this salt matches (default: previous_<n>) */
+    id?: string
+    salt: string
+    /** ISO date after which responses signed with this salt are rejected */
+    expiresAt?: string
+}
+
+/**
+ * PayU merchant account used for a subset of payments
+ */
+export interface PayuMerchantProfile {
+    /** Unique profile id, stored on the payment session */
+    id: string
+    merchantKey: string
+    merchantSalt: string
+    /** 256-bit "salt version 2" of this account */
+    merchantSaltV2?: string
+    /** Hash scheme for this account's checkout requests (default: 1) */
+    saltVersion?: PayuSaltVersion
+    /** Salts replaced during a salt rotation of this account */
+    previousSalts?: PayuPreviousSalt[]
+    /** Sales channels settled into this account */
+    salesChannelIds?: string[]
+    /** Regions settled into this account */
+    regionIds?: string[]
+    /** Currencies settled into this account (lowercase ISO codes) */
+    currencyCodes?: string[]
+}
+
+/**
+ * Payment methods offered to the carts a rule matches
+ * Conditions left out match every cart
+ */
+export interface PayuPaymentMethodRule {
+    /** Rule id, used in logs */
+    id?: string
+    /** Regions the rule applies to */
+    regionIds?: string[]
+    /** Customer groups the rule applies to (any of them) */
+    customerGroupIds?: string[]
+    /** Lowest cart amount the rule applies to, inclusive */
+    minAmount?: number
+    /** Highest cart amount the rule applies to, inclusive */
+    maxAmount?: number
+    /**
+     * Only offer these methods, in this order (enforce_paymethod values:
+     * creditcard, debitcard, netbanking, upi, emi, cashcard, bnpl or PayU bank codes)
+     */
+    enforcePaymethods?: string[]
+    /** Hide these categories (drop_category values: CC, DC, NB, UPI, EMI, CASH, BNPL) */
+    dropCategories?: string[]
+}
+
+/**
+ * Payment methods the storefront asked for (`enforce_paymethod` / `drop_category` of the input data)
+ * Only narrows what the matching rule allows
+ */
+export interface PayuPaymentMethodPreference {
+    enforcePaymethods?: string[]
+    dropCategories?: string[]
+}
+
+/**
+ * Storefront redirect URL templates of a session (success_url, failure_url and cancel_url of the input data)
+ */
+export interface PayuRedirectUrls {
+    success?: string
+    failure?: string
+    cancel?: string
 }
 
 /**
@@ -30,6 +180,8 @@ export interface PayuPaymentRequestData {
     phone: string
     surl: string
     furl: string
+    /** Where PayU returns a customer who cancels (furl when absent) */
+    curl?: string
     hash: string
     udf1?: string
     udf2?: string
@@ -37,6 +189,165 @@ export interface PayuPaymentRequestData {
     udf4?: string
     udf5?: string
     service_provider?: string
+    /** "1" to authorize only; funds are held until captured or cancelled */
+    pre_authorize?: string
+    /** Seamless checkout: payment category (CC, DC, NB, UPI) */
+    pg?: string
+    /** Seamless checkout: card network, bank or UPI flow (e.g. CC, VISA, HDFB, UPI, INTENT) */
+    bankcode?: string
+    /** Seamless UPI collect: customer's UPI id */
+    vpa?: string
+    /** Seamless card fields - added by the browser when it posts the form, never sent to Medusa */
+    ccnum?: string
+    ccname?: string
+    ccvv?: string
+    ccexpmon?: string
+    ccexpyr?: string
+    /** "4" for the server-to-server UPI flow that answers with JSON instead of a redirect */
+    txn_s2s_flow?: string
+    /** Customer IP address, required by the S2S flow */
+    s2s_client_ip?: string
+    /** Customer browser user agent, required by the S2S flow */
+    s2s_device_info?: string
+    /** Stored cards: "<merchant key>:<Medusa customer id>" - the customer's saved card vault */
+    user_credentials?: string
+    /** Stored cards: "1" to save the card used for this payment */
+    store_card?: string
+    /** Stored cards: token of the saved card to pay with */
+    store_card_token?: string
+    /** Standing instructions: "7" when registering a mandate */
+    api_version?: string
+    /** Standing instructions: "1" to register a mandate with this payment */
+    si?: string
+    /** Standing instructions: PayuSiDetails as JSON, also covered by the request hash */
+    si_details?: string
+    /** Hosted checkout: only offer these methods (pipe-separated, e.g. "upi|netbanking") */
+    enforce_paymethod?: string
+    /** Hosted checkout: hide these categories (pipe-separated, e.g. "EMI|CASH") */
+    drop_category?: string
+}
+
+/**
+ * Checkout flow of a payment session
+ * - hosted: the customer is redirected to PayU's payment page
+ * - seamless: the storefront collects the payment method and PayU is called with it directly
+ * - payment_link: an admin sends the customer a PayU invoice link (draft and phone orders)
+ * - mandate: hosted checkout that also registers a standing instruction for recurring debits
+ */
+export type PayuCheckoutMode = "hosted" | "seamless" | "payment_link" | "mandate"
+
+/**
+ * Payment methods supported by the seamless checkout
+ */
+export type PayuSeamlessMethodType = "card" | "netbanking" | "upi_collect" | "upi_intent" | "emi" | "bnpl"
+
+/**
+ * Payment method selected by the storefront for a seamless checkout
+ * (`payment_method` of the payment session's input data)
+ */
+export interface PayuSeamlessPaymentMethod {
+    type: PayuSeamlessMethodType
+    /** Cards: "credit" (default) or "debit" */
+    card_type?: "credit" | "debit"
+    /**
+     * Cards: network code (credit cards default to CC, required for debit cards); netbanking: PayU bank code;
+     * EMI: plan bankcode from the EMI plans route (e.g. EMI6); BNPL: provider code (e.g. LAZYPAY)
+     */
+    bankcode?: string
+    /** Cards: token of a saved card (logged-in customers only) */
+    card_token?: string
+    /** Cards: save the card for future orders (logged-in customers only) */
+    save_card?: boolean
+    /** UPI collect: customer's UPI id (e.g. name@bank) */
+    vpa?: string
+}
+
+/**
+ * How often a mandate may be debited
+ */
+export type PayuSiBillingCycle = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY" | "ADHOC"
+
+/**
+ * Mandate requested by the storefront for a mandate checkout
+ * (`mandate` of the payment session's input data)
+ */
+export interface PayuMandateInput {
+    billing_cycle: PayuSiBillingCycle
+    /** Number of billing cycles between debits (default 1) */
+    billing_interval?: number
+    /** Largest amount a single renewal may debit */
+    max_amount: string | number
+    /** First and last day debits are allowed (YYYY-MM-DD) */
+    start_date: string
+    end_date: string
+    /** MAX: each debit up to max_amount (default); EXACT: each debit equals max_amount */
+    billing_rule?: "MAX" | "EXACT"
+}
+
+/**
+ * PayU si_details sent when registering a mandate
+ * https://docs.payu.in/docs/recurring-payments-integration
+ */
+export interface PayuSiDetails {
+    billingAmount: string
+    billingCurrency: string
+    billingCycle: PayuSiBillingCycle
+    billingInterval: number
+    paymentStartDate: string
+    paymentEndDate: string
+    billingRule: "MAX" | "EXACT"
+    /** ON: debits on the billing date; BEFORE / AFTER allow debits around it */
+    billingLimit?: "ON" | "BEFORE" | "AFTER"
+    remarks?: string
+}
+
+/**
+ * Mandate registered with a mandate checkout, stored in session data
+ */
+export interface PayuSessionMandate {
+    /** Logged-in customer the mandate belongs to */
+    customerId: string
+    siDetails: PayuSiDetails
+    /** mihpayid of the registration payment; identifies the mandate for recurring debits (set once authorized) */
+    authPayuId?: string
+}
+
+/**
+ * UPI payment started server-to-server, stored in session data
+ */
+export interface PayuUpiPayment {
+    flow: "collect" | "intent"
+    /** PayU payment reference */
+    paymentId?: string
+    /** Intent: upi://pay URI that opens the customer's UPI app */
+    intentUri?: string
+    /** Intent: payload to render as a QR code for customers on another device */
+    qrPayload?: string
+    /** Collect: UPI id the collect request was sent to */
+    vpa?: string
+}
+
+/**
+ * PayU S2S payment response (txn_s2s_flow=4)
+ */
+export interface PayuS2SPaymentResponse {
+    metaData: {
+        message?: string | null
+        referenceId?: string | null
+        statusCode?: string | null
+        txnId?: string | null
+        /** pending while the customer approves the payment in their UPI app; failure otherwise */
+        txnStatus?: string | null
+        unmappedStatus?: string | null
+    }
+    result?: {
+        paymentId?: string
+        merchantName?: string
+        merchantVpa?: string
+        amount?: string
+        /** Query string of the upi://pay intent URI (UPI intent only) */
+        intentURIData?: string
+    } | null
 }
 
 /**
@@ -50,14 +361,55 @@ export interface PayuSessionData {
     email: string
     phone: string
     hash: string
-    paymentUrl: string
+    /** PayU checkout URL the form is posted to (absent for UPI payments started server-to-server) */
+    paymentUrl?: string
     status: PayuPaymentStatus
+    /** Checkout flow selected when the session was created (absent: hosted) */
+    checkoutMode?: PayuCheckoutMode
+    /** Seamless checkout: payment method picked by the storefront */
+    paymentMethod?: PayuSeamlessPaymentMethod
+    /** Seamless UPI: payment started server-to-server for the current attempt */
+    upi?: PayuUpiPayment
+    /** Payment link sent to the customer (payment_link checkout) */
+    paymentLink?: PayuPaymentLink
+    /** Standing instruction registered with this payment (mandate checkout) */
+    mandate?: PayuSessionMandate
+    /** Region and customer groups of the cart, matched against paymentMethodRules */
+    regionId?: string
+    customerGroupIds?: string[]
+    /** Payment methods the storefront asked for */
+    paymentMethodPreference?: PayuPaymentMethodPreference
+    /** PayU user_credentials of the logged-in customer ("<merchant key>:<customer id>") */
+    userCredentials?: string
+    /** Hosted checkout: PayU's page saves the card the customer pays with (store_card) */
+    saveCard?: boolean
+    /** Seamless UPI: customer IP and user agent sent with S2S requests */
+    clientIp?: string
+    userAgent?: string
+    /** ISO timestamp when the current txnid was issued */
+    attemptStartedAt?: string
+    /** Earlier attempts of this session, oldest first - PayU rejects reused txnids */
+    attempts?: PayuPaymentAttempt[]
+    /** Merchant profile the payment was created with (absent: default profile) */
+    merchantProfile?: string
+    /** Merchant key the checkout was signed for */
+    merchantKey?: string
     countryCode?: string
+    /** Storefront locale, for the {locale} placeholder of redirect URLs */
+    locale?: string
+    /** Redirect URL templates this session overrides */
+    redirectUrls?: PayuRedirectUrls
+    /** Storefront page the customer lands on after a successful payment */
+    successUrl?: string
+    /** Storefront page the customer lands on after a failed payment */
+    failureUrl?: string
+    /** Storefront page the customer lands on after cancelling on PayU */
+    cancelUrl?: string
     /** User Defined Field 1 - Used for cart_id */
     udf1?: string
     /** User Defined Field 2 - Used for customer_id */
     udf2?: string
-    /** User Defined Field 3 - Reserved for future use */
+    /** User Defined Field 3 - Used for the Medusa payment session id (matches webhooks to the session) */
     udf3?: string
     /** User Defined Field 4 - Reserved for future use */
     udf4?: string
@@ -65,16 +417,128 @@ export interface PayuSessionData {
     udf5?: string
     payuTransactionId?: string
     payuResponse?: Record<string, unknown>
+    /** Differences between PayU's response and this session; the payment is not authorized while set */
+    mismatches?: PayuMismatch[]
+    /** Convenience fee PayU charged on top of `amount` (set once authorized) */
+    additionalCharges?: string
+    /** Total debited from the customer: amount + additionalCharges (set once authorized) */
+    amountCharged?: string
+    /** Transaction was initiated as authorize-only (autoCapture disabled) */
+    preAuthorize?: boolean
+    /** Result of capture_transaction for pre-authorized payments */
+    capture?: PayuTransactionAction
+    /** Result of cancel_transaction for pre-authorized payments */
+    cancellation?: PayuTransactionAction
+    /** Append-only ledger of refund requests sent to PayU */
+    refunds?: PayuRefundRecord[]
+    /** Set while a refund in the ledger awaits PayU's settlement; the reconciliation workflow filters on it */
+    hasPendingRefunds?: boolean
+    /** @deprecated Single refund stored by earlier versions, read as the first ledger entry */
+    refund?: PayuRefundRecord
+}
+
+/**
+ * Status of a payment link
+ */
+export type PayuPaymentLinkStatus = "active" | "paid" | "expired"
+
+/**
+ * PayU invoice link created for a payment session
+ */
+export interface PayuPaymentLink {
+    url: string
+    status: PayuPaymentLinkStatus
+    /** ISO timestamp when the link was created */
+    createdAt: string
+    /** ISO timestamp after which PayU no longer accepts payment */
+    expiresAt: string
+    /** Email address PayU sent the link to */
+    emailedTo?: string
+    /** Phone number PayU texted the link to */
+    smsTo?: string
+    /** ISO timestamp when the link was paid or expired */
+    endedAt?: string
 }
 
+/**
+ * Earlier PayU attempt of a payment session
+ */
+export interface PayuPaymentAttempt {
+    txnid: string
+    amount: string
+    /** Status the attempt ended with */
+    status: PayuPaymentStatus
+    startedAt?: string
+    endedAt: string
+}
+
+/**
+ * Field where PayU's response differs from the payment session
+ */
+export interface PayuMismatch {
+    field: "amount" | "key" | "txnid"
+    /** Value stored by initiatePayment */
+    expected: string
+    /** Value reported by PayU */
+    received: string | null
+}
+
+/**
+ * Payload of the payu.payment.mismatch event
+ */
+export interface PayuPaymentMismatchEvent {
+    txnid: string
+    mihpayid?: string
+    merchant_profile?: string
+    /** PayU status that would otherwise have authorized the payment */
+    payu_status?: string
+    mismatches: PayuMismatch[]
+}
+
+/**
+ * Capture or cancellation request sent to PayU, stored in session data
+ */
+export interface PayuTransactionAction {
+    tokenId: string
+    amount: string
+    request_id?: string
+    response: PayuCaptureResponse
+}
+
+/**
+ * Refund ledger entry tracked in session data
+ * PayU accepting a refund only queues it; the final outcome is
+ * fetched later with check_action_status
+ */
+export interface PayuRefundRecord {
+    tokenId: string
+    amount: string
+    request_id?: string
+    status: PayuRefundStatus
+    response: PayuRefundResponse
+    /** ISO timestamp when the refund was sent to PayU */
+    createdAt?: string
+    /** ISO timestamp of the last check_action_status call */
+    lastCheckedAt?: string
+    /** ISO timestamp when PayU reported a final status */
+    settledAt?: string
+}
+
+/**
+ * PayU Refund Status
+ */
+export type PayuRefundStatus = "pending" | "success" | "failure"
+
 /**
  * PayU Payment Status
  */
 export type PayuPaymentStatus =
     | "pending"
+    | "requires_more"
     | "authorized"
     | "captured"
     | "failed"
+    | "partially_refunded"
     | "refunded"
     | "cancelled"
 
@@ -88,7 +552,12 @@ export interface PayuWebhookPayload {
     unmappedstatus: string
     key: string
     txnid: string
+    /** Transaction amount, excluding additional charges */
     amount: string
+    /** Convenience fee charged on top of the amount; part of the response hash when present */
+    additionalCharges?: string
+    /** Total debited from the customer */
+    net_amount_debit?: string
     addedon: string
     productinfo: string
     firstname: string
@@ -104,6 +573,28 @@ export interface PayuWebhookPayload {
     error_Message?: string
     bank_ref_num?: string
     bankcode?: string
+    /** Dispute/chargeback webhooks only */
+    dispute_id?: string
+    dispute_type?: string
+    reason?: string
+    dispute_reason?: string
+    due_date?: string
+    dispute_due_date?: string
+}
+
+/**
+ * PayU Dispute / Chargeback parsed from a webhook
+ */
+export interface PayuDispute {
+    txnid: string
+    mihpayid?: string
+    dispute_id?: string
+    type: "dispute" | "chargeback"
+    amount: string
+    reason?: string
+    /** ISO date by which evidence must be submitted */
+    deadline?: string
+    raw_payload: Record<string, unknown>
 }
 
 /**
@@ -116,7 +607,15 @@ export interface PayuVerifyResponse {
         [txnid: string]: {
             mihpayid: string
             status: string
+            /** Detailed status, e.g. captured, auth, bounced, dropped, userCancelled */
+            unmappedstatus?: string
             amt: string
+            /** Merchant key of the transaction, when PayU reports it */
+            key?: string
+            /** Convenience fee charged on top of amt */
+            additional_charges?: string
+            /** Total debited from the customer */
+            net_amount_debit?: string
             txnid: string
             mode: string
             bank_ref_num?: string
@@ -136,3 +635,261 @@ export interface PayuRefundResponse {
     mihpayid?: string
     error_code?: string
 }
+
+/**
+ * PayU Capture / Cancel Transaction Response
+ * Returned by capture_transaction and cancel_transaction
+ */
+export interface PayuCaptureResponse {
+    status: number
+    msg: string
+    request_id?: string
+    bank_ref_num?: string
+    mihpayid?: string
+    error_code?: string
+}
+
+/**
+ * PayU Check Action Status Response
+ * Returned by check_action_status, keyed by request_id then mihpayid
+ */
+export interface PayuActionStatusResponse {
+    status: number
+    msg: string
+    transaction_details?: {
+        [requestId: string]: {
+            [mihpayid: string]: {
+                mihpayid: string
+                request_id?: string
+                txnid?: string
+                action: string
+                amount: string
+                status: string
+                token?: string
+                bank_ref_num?: string
+                bank_arn?: string
+                error_code?: string
+            }
+        }
+    }
+}
+
+/**
+ * Card saved in PayU's card vault, as returned by get_user_cards
+ */
+export interface PayuUserCard {
+    card_token: string
+    /** Label given when the card was saved */
+    card_name?: string
+    name_on_card?: string
+    /** Masked card number, e.g. 512345XXXXXX2346 */
+    card_no: string
+    /** CC or DC */
+    card_mode?: string
+    /** Network, e.g. VISA, MAST */
+    card_type?: string
+    card_brand?: string
+    card_bin?: string
+    expiry_month?: string
+    expiry_year?: string
+    /** 1 when the card has expired */
+    is_expired?: number | string
+    issuingBank?: string
+}
+
+/**
+ * PayU get_user_cards Response
+ * `user_cards` is keyed by card token; status 0 with "Card not found" when the vault is empty
+ */
+export interface PayuUserCardsResponse {
+    status: number
+    msg: string
+    user_cards?: Record<string, PayuUserCard>
+}
+
+/**
+ * PayU delete_user_card Response
+ */
+export interface PayuUserCardActionResponse {
+    status: number
+    msg: string
+}
+
+/**
+ * EMI plan of getEmiAmountAccordingToInterest
+ */
+export interface PayuEmiAmountPlan {
+    /** Annual interest rate charged by the bank, in percent */
+    emiBankInterest?: string | number
+    bankRate?: string | number
+    bankCharge?: string | number
+    /** Monthly installment */
+    amount?: string | number
+    /** CC or DC for card EMI; absent for cardless EMI */
+    card_type?: string
+    emi_value?: string | number
+    emi_interest_paid?: string | number
+    transactionAmount?: string | number
+    loanAmount?: string | number
+    /** e.g. "6 months" */
+    tenure?: string
+    paybackAmount?: string | number
+    processingFee?: string | number
+}
+
+/**
+ * PayU getEmiAmountAccordingToInterest Response
+ * Plans keyed by bank, then by plan bankcode; `{ status: 0, msg }` on errors
+ */
+export type PayuEmiAmountResponse = Record<string, Record<string, PayuEmiAmountPlan>> & {
+    status?: number
+    msg?: string
+}
+
+/**
+ * PayU eligibleBinsForEMI Response
+ */
+export interface PayuEmiBinEligibilityResponse {
+    status: number
+    msg: string
+    details?: {
+        /** true / 1 when cards of this BIN can be paid in EMI */
+        isEligible?: boolean | number | string
+        /** Bank short name, matching the banks of getEmiAmountAccordingToInterest */
+        bank?: string
+        /** CC or DC */
+        cardType?: string
+        /** Smallest amount the bank converts to EMI */
+        minAmount?: string | number
+    }
+}
+
+/**
+ * Invoice sent with create_invoice (JSON in var1)
+ */
+export interface PayuInvoiceRequest {
+    txnid: string
+    amount: string
+    productinfo: string
+    firstname: string
+    email: string
+    phone: string
+    /** Link lifetime, in `time_unit` */
+    validation_period: number
+    /** H (hours) or D (days) */
+    time_unit: "H" | "D"
+    /** "1" to have PayU email the link to `email` */
+    send_email_now: "0" | "1"
+    /** "1" to have PayU text the link to `phone` */
+    send_sms: "0" | "1"
+}
+
+/**
+ * PayU create_invoice Response
+ * `{ status: 0, msg }` on errors
+ */
+export interface PayuInvoiceResponse {
+    "Transaction Id"?: string
+    "Email Id"?: string
+    Phone?: string
+    Status?: string
+    URL?: string
+    status?: number
+    msg?: string
+}
+
+/**
+ * PayU expire_invoice Response
+ */
+export interface PayuExpireInvoiceResponse {
+    status: number
+    msg: string
+}
+
+/**
+ * Recurring debit sent with si_transaction (JSON in var1)
+ */
+export interface PayuSiTransactionRequest {
+    /** mihpayid of the mandate registration payment */
+    authpayuid: string
+    amount: string
+    /** New txnid for this debit */
+    txnid: string
+    phone: string
+    email: string
+    udf1?: string
+    udf2?: string
+    udf3?: string
+    udf4?: string
+    udf5?: string
+    /** Invoice number the pre-debit notification was sent with */
+    invoiceDisplayNumber?: string
+}
+
+/**
+ * PayU si_transaction Response
+ * `details` is keyed by the debit's txnid
+ */
+export interface PayuSiTransactionResponse {
+    status: number
+    message?: string
+    details?: Record<string, {
+        transactionId?: string
+        /** mihpayid of the debit */
+        payuId?: string
+        /** captured, pending or failed */
+        status?: string
+        amount?: string
+        field9?: string
+        error_code?: string
+    }>
+}
+
+/**
+ * Pre-debit notification sent with pre_debit_SI (JSON in var1)
+ * Must reach the customer at least 24 hours before the debit
+ */
+export interface PayuPreDebitRequest {
+    authPayuId: string
+    /** Unique id of this notification */
+    requestId: string
+    /** Day the debit will be made (YYYY-MM-DD) */
+    debitDate: string
+    invoiceDisplayNumber: string
+    amount: number
+}
+
+/**
+ * PayU pre_debit_SI Response
+ */
+export interface PayuPreDebitResponse {
+    status: number
+    message?: string
+    invoiceId?: string
+    invoiceStatus?: string
+}
+
+/**
+ * PayU check_mandate_status Response
+ */
+export interface PayuMandateStatusResponse {
+    status: number
+    message?: string
+    details?: {
+        authPayuId?: string
+        /** ACTIVE, PAUSED, REVOKED or EXPIRED */
+        status?: string
+        amount?: string
+        billingCycle?: string
+        mandateStartDate?: string
+        mandateEndDate?: string
+    }
+}
+
+/**
+ * PayU mandate_revoke Response
+ */
+export interface PayuMandateRevokeResponse {
+    status: number
+    message?: string
+}
@@ -0,0 +1,55 @@
+/**
+ * PayU session data helpers
+ */
+
+import { BigNumber, MathBN } from "@medusajs/framework/utils"
+import type { PayuPaymentStatus, PayuRefundRecord, PayuSessionData } from "./types"
+
+/**
+ * Get the refund ledger for a session
+ * Sessions refunded by earlier versions only have a single `refund` entry
+ */
+export function getRefundLedger(sessionData: PayuSessionData): PayuRefundRecord[] {
+    if (sessionData.refunds) {
+        return sessionData.refunds
+    }
+    return sessionData.refund ? [sessionData.refund] : []
+}
+
+/**
+ * Refund that PayU accepted but has not settled yet
+ */
+export function isPendingRefund(refund: PayuRefundRecord): boolean {
+    return refund.status === "pending" && !!refund.request_id
+}
+
+/**
+ * Amount actually captured at PayU (partial capture for pre-authorized payments)
+ */
+export function getCapturedAmount(sessionData: PayuSessionData): BigNumber {
+    return new BigNumber(sessionData.capture?.amount ?? sessionData.amount)
+}
+
+/**
+ * Total refunded amount, excluding refunds PayU reported as failed
+ */
+export function getRefundedAmount(refunds: PayuRefundRecord[]): BigNumber {
+    return refunds
+        .filter((refund) => refund.status !== "failure")
+        .reduce((total, refund) => new BigNumber(MathBN.add(total, refund.amount)), new BigNumber(0))
+}
+
+/**
+ * Payment status derived from the refund ledger
+ */
+export function getRefundedPaymentStatus(
+    sessionData: PayuSessionData,
+    refunds: PayuRefundRecord[]
+): PayuPaymentStatus {
+    const refunded = getRefundedAmount(refunds)
+
+    if (MathBN.lte(refunded, 0)) {
+        return "captured"
+    }
+    return MathBN.gte(refunded, getCapturedAmount(sessionData)) ? "refunded" : "partially_refunded"
+}
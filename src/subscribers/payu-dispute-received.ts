@@ -0,0 +1,26 @@
+/**
+ * PayU Dispute Received Subscriber
+ *
+ * Records disputes/chargebacks reported by PayU webhooks
+ */
+
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import { handlePayuDisputeWorkflow } from "../workflows/handle-payu-dispute"
+import { PayuEvents } from "../providers/payu/events"
+import type { PayuDispute } from "../providers/payu/types"
+
+export default async function payuDisputeReceivedHandler({
+    event,
+    container,
+}: SubscriberArgs<PayuDispute>) {
+    await handlePayuDisputeWorkflow(container).run({
+        input: event.data,
+    })
+}
+
+export const config: SubscriberConfig = {
+    event: PayuEvents.DISPUTE_RECEIVED,
+    context: {
+        subscriberId: "payu-dispute-received-handler",
+    },
+}
@@ -0,0 +1,78 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { resolvePayuConfig, resolvePayuProviderConfig } from "../utils"
+
+/**
+ * Container holding only the config module with the given payment providers
+ */
+function containerWith(providers: Record<string, unknown>[]): MedusaContainer {
+    const configModule = { modules: { [Modules.PAYMENT]: { options: { providers } } } }
+    return {
+        resolve: (key: string) => {
+            if (key !== ContainerRegistrationKeys.CONFIG_MODULE) {
+                throw new Error(`${key} is not registered`)
+            }
+            return configModule
+        },
+    } as unknown as MedusaContainer
+}
+
+const providers = [
+    { resolve: "@medusajs/payment-stripe", id: "payu", options: { apiKey: "sk_test" } },
+    { resolve: "medusa-payu-payment-plugin/providers/payu", id: "payu", options: { merchantKey: "key_a", merchantSalt: "salt_a" } },
+    {
+        resolve: "medusa-payu-payment-plugin/providers/payu",
+        id: "brands",
+        options: {
+            merchantKey: "key_b",
+            merchantSalt: "salt_b",
+            environment: "production",
+            merchants: [{ id: "brand_c", merchantKey: "key_c", merchantSalt: "salt_c" }],
+        },
+    },
+]
+
+describe("resolvePayuProviderConfig", () => {
+    it.each([
+        ["the default provider", undefined, "key_a"],
+        ["a provider by id", "pp_payu_brands", "key_b"],
+        ["an unknown provider", "pp_payu_other", undefined],
+    ])("reads %s", (_, providerId, merchantKey) => {
+        expect(resolvePayuProviderConfig(containerWith(providers), providerId)?.merchantKey).toBe(merchantKey)
+    })
+
+    it("defaults the environment to test", () => {
+        expect(resolvePayuProviderConfig(containerWith(providers))?.environment).toBe("test")
+    })
+})
+
+describe("resolvePayuConfig", () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env, PAYU_MERCHANT_KEY: "env_key", PAYU_MERCHANT_SALT: "env_salt" }
+    })
+
+    afterAll(() => {
+        process.env = env
+    })
+
+    it.each([
+        ["the registered provider", {}, {}, { merchantKey: "key_a", merchantSalt: "salt_a" }],
+        ["a merchant profile by id", {}, { id: "brand_c", providerId: "pp_payu_brands" }, { merchantKey: "key_c", environment: "production" }],
+        ["a merchant profile by key", {}, { key: "key_c", providerId: "pp_payu_brands" }, { merchantSalt: "salt_c" }],
+        ["the workflow input", { merchantSalt: "input_salt" }, {}, { merchantKey: "key_a", merchantSalt: "input_salt" }],
+        ["the environment without a registered provider", {}, { providerId: "pp_payu_other" }, { merchantKey: "env_key", merchantSalt: "env_salt" }],
+    ])("uses %s", (_, input, merchant, expected) => {
+        expect(resolvePayuConfig(containerWith(providers), input, merchant)).toMatchObject(expected)
+    })
+
+    it("returns null without a provider or PAYU_MERCHANT_KEY", () => {
+        delete process.env.PAYU_MERCHANT_KEY
+        expect(resolvePayuConfig(containerWith([]))).toBeNull()
+    })
+
+    it("returns null for an unknown merchant profile", () => {
+        expect(resolvePayuConfig(containerWith(providers), {}, { id: "brand_x" })).toBeNull()
+    })
+})
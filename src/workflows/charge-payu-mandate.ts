@@ -0,0 +1,207 @@
+/**
+ * Charge PayU Mandate Workflow
+ *
+ * Debits a customer's registered mandate (standing instruction) for a renewal
+ * with si_transaction and records the result as a mandate charge of the customer.
+ * RBI rules require a pre-debit notification (PayuClient.sendPreDebitNotification)
+ * at least 24 hours before the debit; pass its invoice number as invoice_number.
+ */
+
+import {
+    createStep,
+    createWorkflow,
+    StepResponse,
+    transform,
+    WorkflowResponse,
+} from "@medusajs/framework/workflows-sdk"
+import { ContainerRegistrationKeys, MathBN, MedusaError } from "@medusajs/framework/utils"
+import { emitEventStep } from "@medusajs/medusa/core-flows"
+import { PAYU_MODULE } from "../modules/payu"
+import type PayuModuleService from "../modules/payu/service"
+import { generateTxnId } from "../providers/payu/client"
+import { PayuEvents } from "../providers/payu/events"
+import {
+    toMandateChargeResult,
+    toMandateStatus,
+    validateMandateCharge,
+    type PayuMandateChargeStatus,
+    type PayuMandateTerms,
+} from "../providers/payu/mandates"
+import type { PayuSiTransactionResponse } from "../providers/payu/types"
+import { createPayuClientResolver, type PayuCredentialsInput } from "./utils"
+
+/**
+ * Input for charge mandate workflow
+ */
+export interface ChargePayuMandateInput extends PayuCredentialsInput {
+    mandate_id: string
+    /** Renewal amount, within the mandate's limit */
+    amount: string | number
+    /** What the renewal pays for, e.g. a subscription or order id */
+    reference?: string
+    /** Invoice number of the pre-debit notification sent for this renewal */
+    invoice_number?: string
+}
+
+/**
+ * Output of charge mandate workflow
+ */
+export interface ChargePayuMandateOutput {
+    /** Mandate charge record */
+    id: string
+    mandate_id: string
+    customer_id: string
+    txnid: string
+    amount: string
+    status: PayuMandateChargeStatus
+    mihpayid: string | null
+    error: string | null
+}
+
+type ChargeableMandate = PayuMandateTerms & {
+    id: string
+    customer_id: string
+    auth_payu_id: string
+    merchant_profile: string | null
+    currency_code: string
+    email: string
+    phone: string
+}
+
+/**
+ * Step: Check the mandate can be debited for the amount
+ * A mandate PayU reports as revoked, paused or expired is updated and not charged
+ */
+const validatePayuMandateStep = createStep(
+    "validate-payu-mandate-step",
+    async (input: ChargePayuMandateInput, { container }): Promise<StepResponse<ChargeableMandate>> => {
+        const payuModule = container.resolve<PayuModuleService>(PAYU_MODULE)
+        const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+        const mandate = await payuModule.retrievePayuMandate(input.mandate_id) as unknown as ChargeableMandate
+
+        const client = createPayuClientResolver(container, input, logger)(mandate.merchant_profile ?? undefined)
+        if (!client) {
+            throw new MedusaError(
+                MedusaError.Types.NOT_FOUND,
+                `PayU merchant profile ${mandate.merchant_profile || "default"} is not configured`
+            )
+        }
+
+        // PayU's status wins over the stored one; an unreachable PayU rejects the debit itself
+        try {
+            const response = await client.checkMandateStatus(mandate.auth_payu_id, `MST_${mandate.id}_${Date.now()}`)
+            const status = toMandateStatus(response)
+            if (status && status !== mandate.status) {
+                await payuModule.updatePayuMandates({ id: mandate.id, status })
+                mandate.status = status
+            }
+        } catch (error) {
+            logger.warn(`PayU: could not check mandate ${mandate.id} before charging it: ${error}`)
+        }
+
+        const error = validateMandateCharge(mandate, MathBN.convert(input.amount).toFixed(2))
+        if (error) {
+            throw new MedusaError(MedusaError.Types.NOT_ALLOWED, `PayU mandate ${mandate.id} can't be charged: ${error}`)
+        }
+
+        return new StepResponse(mandate)
+    }
+)
+
+/**
+ * Step: Debit the mandate and record the charge against the customer
+ * The charge is recorded as pending before PayU is called, so a lost response
+ * still leaves its txnid for verify_payment. Debits can't be undone, so there
+ * is no compensation.
+ */
+const debitPayuMandateStep = createStep(
+    "debit-payu-mandate-step",
+    async (
+        input: { mandate: ChargeableMandate; charge: ChargePayuMandateInput },
+        { container }
+    ): Promise<StepResponse<ChargePayuMandateOutput>> => {
+        const payuModule = container.resolve<PayuModuleService>(PAYU_MODULE)
+        const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+        const { mandate, charge } = input
+        const client = createPayuClientResolver(container, charge, logger)(mandate.merchant_profile ?? undefined)!
+
+        const txnid = generateTxnId()
+        const amount = MathBN.convert(charge.amount).toFixed(2)
+        const record = await payuModule.createPayuMandateCharges({
+            mandate_id: mandate.id,
+            customer_id: mandate.customer_id,
+            txnid,
+            amount: parseFloat(amount),
+            currency_code: mandate.currency_code,
+            reference: charge.reference ?? null,
+        })
+
+        let response: PayuSiTransactionResponse | undefined
+        let result: ReturnType<typeof toMandateChargeResult>
+        try {
+            response = await client.recurringDebit({
+                authpayuid: mandate.auth_payu_id,
+                amount,
+                txnid,
+                phone: mandate.phone,
+                email: mandate.email,
+                udf2: mandate.customer_id,
+                ...(charge.invoice_number && { invoiceDisplayNumber: charge.invoice_number }),
+            })
+            result = toMandateChargeResult(response, txnid)
+        } catch (error) {
+            // PayU may still have debited; verify the txnid before retrying
+            logger.error(`PayU mandate ${mandate.id} debit ${txnid} error: ${error}`)
+            result = { status: "pending", error: (error as Error).message }
+        }
+
+        await payuModule.updatePayuMandateCharges({
+            id: record.id,
+            status: result.status,
+            mihpayid: result.mihpayid ?? null,
+            error: result.error ?? null,
+            raw_response: (response ?? null) as Record<string, unknown> | null,
+        })
+        if (result.status === "success") {
+            await payuModule.updatePayuMandates({ id: mandate.id, last_charged_at: new Date() })
+        }
+        logger.info(`PayU mandate ${mandate.id} debited ${amount} as ${txnid}: ${result.status}`)
+
+        return new StepResponse({
+            id: record.id,
+            mandate_id: mandate.id,
+            customer_id: mandate.customer_id,
+            txnid,
+            amount,
+            status: result.status,
+            mihpayid: result.mihpayid ?? null,
+            error: result.error ?? null,
+        })
+    }
+)
+
+/**
+ * Charge PayU Mandate Workflow
+ */
+export const chargePayuMandateWorkflow = createWorkflow(
+    "charge-payu-mandate",
+    (input: ChargePayuMandateInput) => {
+        const mandate = validatePayuMandateStep(input)
+        const result = debitPayuMandateStep({ mandate, charge: input })
+
+        const event = transform({ result }, ({ result }) => ({
+            eventName: PayuEvents.MANDATE_CHARGED,
+            data: {
+                id: result.id,
+                mandate_id: result.mandate_id,
+                customer_id: result.customer_id,
+                status: result.status,
+            },
+        }))
+        emitEventStep(event)
+
+        return new WorkflowResponse(result)
+    }
+)
+
+export default chargePayuMandateWorkflow
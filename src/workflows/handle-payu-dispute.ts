@@ -0,0 +1,151 @@
+/**
+ * Handle PayU Dispute Workflow
+ *
+ * Stores a dispute/chargeback received from PayU against the Medusa payment
+ * and emits payu.dispute.created (or payu.dispute.updated for repeat webhooks)
+ */
+
+import {
+    createStep,
+    createWorkflow,
+    StepResponse,
+    transform,
+    WorkflowResponse,
+} from "@medusajs/framework/workflows-sdk"
+import { BigNumber, ContainerRegistrationKeys, MedusaError } from "@medusajs/framework/utils"
+import { emitEventStep } from "@medusajs/medusa/core-flows"
+import { PAYU_MODULE } from "../modules/payu"
+import type PayuModuleService from "../modules/payu/service"
+import { isValidPayuAmount } from "../providers/payu/amounts"
+import { PayuEvents } from "../providers/payu/events"
+import type { PayuDispute } from "../providers/payu/types"
+
+/**
+ * Input for handle dispute workflow
+ */
+export type HandlePayuDisputeInput = PayuDispute
+
+/**
+ * Output of handle dispute workflow
+ */
+export interface HandlePayuDisputeOutput {
+    id: string
+    payment_id: string | null
+    created: boolean
+}
+
+/**
+ * Step: Find the Medusa payment for the disputed transaction
+ */
+const findPayuPaymentStep = createStep(
+    "find-payu-dispute-payment-step",
+    async (input: { txnid: string }, { container }) => {
+        const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+        const { data: payments } = await query.graph({
+            entity: "payment",
+            fields: ["id", "currency_code"],
+            filters: {
+                provider_id: { $like: "pp_payu_%" },
+                data: { txnid: input.txnid },
+            } as Record<string, unknown>,
+        })
+
+        const payment = payments[0] as { id: string; currency_code: string } | undefined
+        return new StepResponse(payment ?? null)
+    }
+)
+
+type UpsertDisputeCompensation = {
+    id: string
+    previous?: Record<string, unknown>
+}
+
+/**
+ * Step: Create the dispute, or update it when PayU resends the same dispute
+ */
+const upsertPayuDisputeStep = createStep(
+    "upsert-payu-dispute-step",
+    async (
+        input: { dispute: PayuDispute; payment: { id: string; currency_code: string } | null },
+        { container }
+    ) => {
+        const payuModule = container.resolve<PayuModuleService>(PAYU_MODULE)
+        const { dispute, payment } = input
+
+        // A malformed payload is rejected rather than stored with a NaN amount
+        if (!isValidPayuAmount(dispute.amount)) {
+            throw new MedusaError(
+                MedusaError.Types.INVALID_DATA,
+                `Invalid PayU dispute amount '${dispute.amount}' for txnid=${dispute.txnid}`
+            )
+        }
+
+        const [existing] = await payuModule.listPayuDisputes({
+            txnid: dispute.txnid,
+            ...(dispute.dispute_id ? { dispute_id: dispute.dispute_id } : {}),
+        })
+
+        const data = {
+            payment_id: payment?.id ?? existing?.payment_id ?? null,
+            txnid: dispute.txnid,
+            mihpayid: dispute.mihpayid ?? null,
+            dispute_id: dispute.dispute_id ?? null,
+            type: dispute.type,
+            // bigNumber columns take a BigNumber, keeping PayU's decimal string exact;
+            // the generated input type only declares number
+            amount: new BigNumber(dispute.amount) as unknown as number,
+            currency_code: payment?.currency_code ?? "inr",
+            reason: dispute.reason ?? null,
+            deadline: dispute.deadline ? new Date(dispute.deadline) : null,
+            raw_payload: dispute.raw_payload,
+        }
+
+        if (existing) {
+            const updated = await payuModule.updatePayuDisputes({ id: existing.id, ...data })
+            return new StepResponse<HandlePayuDisputeOutput, UpsertDisputeCompensation>(
+                { id: updated.id, payment_id: updated.payment_id, created: false },
+                { id: existing.id, previous: existing as unknown as Record<string, unknown> }
+            )
+        }
+
+        const created = await payuModule.createPayuDisputes(data)
+        return new StepResponse<HandlePayuDisputeOutput, UpsertDisputeCompensation>(
+            { id: created.id, payment_id: created.payment_id, created: true },
+            { id: created.id }
+        )
+    },
+    async (compensation, { container }) => {
+        if (!compensation) {
+            return
+        }
+
+        const payuModule = container.resolve<PayuModuleService>(PAYU_MODULE)
+        if (compensation.previous) {
+            await payuModule.updatePayuDisputes(compensation.previous as { id: string })
+        } else {
+            await payuModule.deletePayuDisputes(compensation.id)
+        }
+    }
+)
+
+/**
+ * Handle PayU Dispute Workflow
+ */
+export const handlePayuDisputeWorkflow = createWorkflow(
+    "handle-payu-dispute",
+    (input: HandlePayuDisputeInput) => {
+        const payment = findPayuPaymentStep({ txnid: input.txnid })
+        const result = upsertPayuDisputeStep({ dispute: input, payment })
+
+        const event = transform({ result }, ({ result }) => ({
+            eventName: result.created ? PayuEvents.DISPUTE_CREATED : PayuEvents.DISPUTE_UPDATED,
+            data: { id: result.id },
+        }))
+        emitEventStep(event)
+
+        return new WorkflowResponse(result)
+    }
+)
+
+export default handlePayuDisputeWorkflow
@@ -9,3 +9,29 @@ export {
     type VerifyPayuPaymentInput,
     type VerifyPayuPaymentOutput,
 } from "./verify-payu-payment"
+
+export {
+    reconcilePayuRefundsWorkflow,
+    type ReconcilePayuRefundsInput,
+    type ReconcilePayuRefundsOutput,
+    type ReconciledPayuRefund,
+} from "./reconcile-payu-refunds"
+
+export {
+    handlePayuDisputeWorkflow,
+    type HandlePayuDisputeInput,
+    type HandlePayuDisputeOutput,
+} from "./handle-payu-dispute"
+
+export {
+    reconcilePayuPendingPaymentsWorkflow,
+    type ReconcilePayuPendingPaymentsInput,
+    type ReconcilePayuPendingPaymentsOutput,
+    type PayuPaidSession,
+} from "./reconcile-payu-pending-payments"
+
+export {
+    chargePayuMandateWorkflow,
+    type ChargePayuMandateInput,
+    type ChargePayuMandateOutput,
+} from "./charge-payu-mandate"
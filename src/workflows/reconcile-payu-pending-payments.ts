@@ -0,0 +1,304 @@
+/**
+ * Reconcile PayU Pending Payments Workflow
+ *
+ * Finds PayU payment sessions stuck in "pending" (e.g. the customer closed the
+ * browser after paying and the webhook was lost) and batch-verifies them with
+ * PayU. Sessions PayU reports as failed or cancelled are marked failed; sessions
+ * PayU reports as successful are returned so they can be authorized. Sessions
+ * PayU doesn't know (yet) or still reports as pending stay pending until their
+ * attempt is older than attemptExpiryMinutes, then they are marked failed as expired.
+ */
+
+import {
+    createStep,
+    createWorkflow,
+    StepResponse,
+    transform,
+    WorkflowResponse,
+} from "@medusajs/framework/workflows-sdk"
+import { ContainerRegistrationKeys, Modules, PaymentSessionStatus } from "@medusajs/framework/utils"
+import { DEFAULT_ATTEMPT_EXPIRY_MINUTES, getAttemptTxnids, isAttemptExpired } from "../providers/payu/attempts"
+import { resolvePayuStatus } from "../providers/payu/status"
+import type { PayuPaymentStatus, PayuSessionData } from "../providers/payu/types"
+import { createPayuClientResolver, resolvePayuProviderConfig, type PayuCredentialsInput } from "./utils"
+
+/**
+ * PayU accepts a limited number of txnids per verify_payment call
+ */
+const VERIFY_BATCH_SIZE = 25
+
+/**
+ * Split sessions into verify_payment batches of at most VERIFY_BATCH_SIZE txnids,
+ * counting every attempt of a session
+ */
+function batchByTxnids(sessions: PendingSession[]): PendingSession[][] {
+    const batches: PendingSession[][] = []
+    let batch: PendingSession[] = []
+    let size = 0
+
+    for (const session of sessions) {
+        const count = getAttemptTxnids(session.data).length
+        if (batch.length && size + count > VERIFY_BATCH_SIZE) {
+            batches.push(batch)
+            batch = []
+            size = 0
+        }
+        batch.push(session)
+        size += count
+    }
+
+    return batch.length ? [...batches, batch] : batches
+}
+
+/**
+ * Webhook actions of a PayU status that closes the attempt for good
+ */
+const CLOSED_ACTIONS = ["failed", "canceled"]
+
+/**
+ * Input for reconcile pending payments workflow
+ */
+export interface ReconcilePayuPendingPaymentsInput extends PayuCredentialsInput {
+    /** Only sessions pending for longer than this are checked (default: 30) */
+    olderThanMinutes?: number
+    /** Sessions created longer ago than this are no longer checked (default: 7) */
+    lookbackDays?: number
+    /** Age after which a pending attempt is expired (default: the provider's attemptExpiryMinutes, or 30) */
+    attemptExpiryMinutes?: number
+}
+
+/**
+ * Pending session that PayU reports as paid
+ */
+export interface PayuPaidSession {
+    session_id: string
+    txnid: string
+    amount: number
+}
+
+/**
+ * Output of reconcile pending payments workflow
+ */
+export interface ReconcilePayuPendingPaymentsOutput {
+    checked: number
+    /** Paid at PayU - to be authorized and have their cart completed */
+    paid: PayuPaidSession[]
+    /** Marked failed */
+    failed: string[]
+    /** Of the failed sessions, those whose attempt expired without a final status from PayU */
+    expired: string[]
+    /** Still pending at PayU */
+    pending: string[]
+}
+
+type PendingSession = {
+    id: string
+    provider_id: string
+    amount: number
+    currency_code: string
+    data: PayuSessionData
+}
+
+type FailedSession = PendingSession & {
+    /** failed: PayU reported the attempt failed or cancelled; expired: no final status in time */
+    reason: "failed" | "expired"
+}
+
+type VerifiedSessions = {
+    checked: number
+    paid: PayuPaidSession[]
+    failed: FailedSession[]
+    pending: string[]
+}
+
+/**
+ * Step: Find PayU sessions pending for longer than the configured age, created within the lookback window
+ */
+const listStalePayuSessionsStep = createStep(
+    "list-stale-payu-sessions-step",
+    async (input: ReconcilePayuPendingPaymentsInput, { container }) => {
+        const query = container.resolve(ContainerRegistrationKeys.QUERY)
+        const olderThanMinutes = input.olderThanMinutes ?? 30
+        const lookbackDays = input.lookbackDays ?? 7
+        const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000)
+        const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000)
+
+        const { data: sessions } = await query.graph({
+            entity: "payment_session",
+            fields: ["id", "provider_id", "amount", "currency_code", "data", "created_at"],
+            filters: {
+                provider_id: { $like: "pp_payu_%" },
+                status: PaymentSessionStatus.PENDING,
+                created_at: { $lt: cutoff, $gte: since },
+            },
+        })
+
+        const stale = (sessions as unknown as PendingSession[]).filter(
+            (session) => session.data?.txnid && session.data.status === "pending"
+        )
+
+        return new StepResponse(stale)
+    }
+)
+
+/**
+ * Step: Batch-verify the sessions with PayU
+ */
+const verifyPayuSessionsStep = createStep(
+    "verify-payu-sessions-step",
+    async (
+        input: { sessions: PendingSession[]; credentials: PayuCredentialsInput; attemptExpiryMinutes?: number },
+        { container }
+    ): Promise<StepResponse<VerifiedSessions>> => {
+        const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+        const getClient = createPayuClientResolver(container, input.credentials, logger)
+        const result: VerifiedSessions = { checked: 0, paid: [], failed: [], pending: [] }
+
+        // Each merchant account only knows its own transactions
+        const sessionsByProfile = new Map<string, PendingSession[]>()
+        for (const session of input.sessions) {
+            const key = `${session.provider_id}|${session.data.merchantProfile || ""}`
+            sessionsByProfile.set(key, [...(sessionsByProfile.get(key) || []), session])
+        }
+
+        for (const sessions of sessionsByProfile.values()) {
+            const { provider_id: providerId, data: { merchantProfile } } = sessions[0]
+            const client = getClient(merchantProfile, providerId)
+            const expiryMinutes = input.attemptExpiryMinutes
+                ?? resolvePayuProviderConfig(container, providerId)?.attemptExpiryMinutes
+                ?? DEFAULT_ATTEMPT_EXPIRY_MINUTES
+            if (!client) {
+                logger.warn(
+                    `PayU pending payment reconciliation skipped for ${sessions.length} session(s): ` +
+                    `PayU configuration missing for merchant profile ${merchantProfile || "default"} of ${providerId}`
+                )
+                result.pending.push(...sessions.map((session) => session.id))
+                continue
+            }
+
+            for (const batch of batchByTxnids(sessions)) {
+                try {
+                    // Earlier attempts of a session are checked too - any of them may have been paid
+                    const response = await client.verifyPayments(batch.flatMap((session) => getAttemptTxnids(session.data)))
+
+                    for (const session of batch) {
+                        const txn = response.transaction_details?.[session.data.txnid]
+                        const resolution = resolvePayuStatus(txn?.status, txn?.unmappedstatus)
+                        const paidAttempt = getAttemptTxnids(session.data).some((txnid) => {
+                            const attempt = response.transaction_details?.[txnid]
+                            return resolvePayuStatus(attempt?.status, attempt?.unmappedstatus).status === "authorized"
+                        })
+                        result.checked++
+
+                        if (paidAttempt) {
+                            result.paid.push({
+                                session_id: session.id,
+                                txnid: session.data.txnid,
+                                amount: session.amount,
+                            })
+                        } else if (txn && CLOSED_ACTIONS.includes(resolution.action)) {
+                            result.failed.push({
+                                ...session,
+                                data: { ...session.data, payuResponse: txn as unknown as Record<string, unknown> },
+                                reason: "failed",
+                            })
+                        } else if (resolution.status === "pending" && isAttemptExpired(session.data, expiryMinutes)) {
+                            // "Not Found" may be a payment PayU hasn't recorded yet, so it is only
+                            // given up on - like a payment PayU keeps reporting as pending - once expired
+                            result.failed.push({
+                                ...session,
+                                data: txn ? { ...session.data, payuResponse: txn as unknown as Record<string, unknown> } : session.data,
+                                reason: "expired",
+                            })
+                        } else {
+                            result.pending.push(session.id)
+                        }
+                    }
+                } catch (error) {
+                    logger.error(`PayU pending payment verification error: ${error}`)
+                    result.pending.push(...batch.map((session) => session.id))
+                }
+            }
+        }
+
+        return new StepResponse(result)
+    }
+)
+
+/**
+ * Step: Mark sessions PayU reported as failed or expired
+ */
+const failPayuSessionsStep = createStep(
+    "fail-payu-sessions-step",
+    async (sessions: FailedSession[], { container }) => {
+        const paymentModule = container.resolve(Modules.PAYMENT)
+        const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+
+        for (const { reason, ...session } of sessions) {
+            await paymentModule.updatePaymentSession({
+                id: session.id,
+                amount: session.amount,
+                currency_code: session.currency_code,
+                data: {
+                    ...session.data,
+                    status: "failed" as PayuPaymentStatus,
+                } as unknown as Record<string, unknown>,
+                status: PaymentSessionStatus.ERROR,
+            })
+            logger.info(
+                `PayU pending session ${session.id} (txnid=${session.data.txnid}) marked failed` +
+                (reason === "expired" ? ": attempt expired without a final status from PayU" : "")
+            )
+        }
+
+        return new StepResponse(
+            sessions.map((session) => session.id),
+            sessions
+        )
+    },
+    async (sessions, { container }) => {
+        if (!sessions?.length) {
+            return
+        }
+
+        const paymentModule = container.resolve(Modules.PAYMENT)
+        for (const session of sessions) {
+            await paymentModule.updatePaymentSession({
+                id: session.id,
+                amount: session.amount,
+                currency_code: session.currency_code,
+                data: session.data as unknown as Record<string, unknown>,
+                status: PaymentSessionStatus.PENDING,
+            })
+        }
+    }
+)
+
+/**
+ * Reconcile PayU Pending Payments Workflow
+ */
+export const reconcilePayuPendingPaymentsWorkflow = createWorkflow(
+    "reconcile-payu-pending-payments",
+    (input: ReconcilePayuPendingPaymentsInput) => {
+        const sessions = listStalePayuSessionsStep(input)
+        const verified = verifyPayuSessionsStep({
+            sessions,
+            credentials: input,
+            attemptExpiryMinutes: input.attemptExpiryMinutes,
+        })
+        const failed = failPayuSessionsStep(verified.failed)
+        const expired = transform({ verified }, ({ verified }) =>
+            verified.failed.filter((session) => session.reason === "expired").map((session) => session.id)
+        )
+
+        return new WorkflowResponse({
+            checked: verified.checked,
+            paid: verified.paid,
+            failed,
+            expired,
+            pending: verified.pending,
+        })
+    }
+)
+
+export default reconcilePayuPendingPaymentsWorkflow
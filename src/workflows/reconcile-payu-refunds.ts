@@ -0,0 +1,256 @@
+/**
+ * Reconcile PayU Refunds Workflow
+ *
+ * PayU accepts refund requests asynchronously (e.g. "Capture is done today"
+ * queues the refund until the next day). This workflow polls
+ * check_action_status for every pending refund and records whether it
+ * finally succeeded or failed.
+ */
+
+import {
+    createStep,
+    createWorkflow,
+    StepResponse,
+    WorkflowResponse,
+} from "@medusajs/framework/workflows-sdk"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import type { IPaymentModuleService, UpdatePaymentDTO } from "@medusajs/framework/types"
+import type { PayuRefundRecord, PayuRefundStatus, PayuSessionData } from "../providers/payu/types"
+import { getRefundedPaymentStatus, getRefundLedger, isPendingRefund } from "../providers/payu/utils"
+import { createPayuClientResolver, type PayuCredentialsInput } from "./utils"
+
+/**
+ * Input for reconcile refunds workflow
+ */
+export interface ReconcilePayuRefundsInput extends PayuCredentialsInput {
+    /** Only reconcile these payments (default: all PayU payments with pending refunds) */
+    payment_ids?: string[]
+}
+
+/**
+ * Reconciliation result for a single refund
+ */
+export interface ReconciledPayuRefund {
+    payment_id: string
+    request_id: string
+    status: PayuRefundStatus
+    error?: string
+}
+
+/**
+ * Output of reconcile refunds workflow
+ */
+export interface ReconcilePayuRefundsOutput {
+    checked: number
+    refunds: ReconciledPayuRefund[]
+}
+
+type PendingRefundPayment = {
+    id: string
+    provider_id: string
+    data: PayuSessionData
+}
+
+/**
+ * Refund records changed on one payment, matched to the ledger by request_id
+ */
+type RefundLedgerChanges = {
+    id: string
+    refunds: PayuRefundRecord[]
+}
+
+/**
+ * Payment update carrying provider data (UpdatePaymentDTO doesn't declare it)
+ */
+type PaymentDataUpdate = UpdatePaymentDTO & {
+    data: PayuSessionData
+}
+
+/**
+ * Map PayU action status to refund status
+ */
+function toRefundStatus(payuStatus: string | undefined): PayuRefundStatus {
+    const status = (payuStatus || "").toLowerCase()
+    if (status === "success") {
+        return "success"
+    }
+    if (status === "failure" || status === "failed" || status === "cancelled") {
+        return "failure"
+    }
+    return "pending"
+}
+
+/**
+ * Payments listed per query
+ */
+const PAGE_SIZE = 100
+
+/**
+ * Merge changed refund records into the payment's current ledger
+ * The payment is re-read so refunds recorded since it was listed are kept
+ */
+async function mergeRefundLedger(paymentModule: IPaymentModuleService, changes: RefundLedgerChanges): Promise<void> {
+    const payment = await paymentModule.retrievePayment(changes.id, { select: ["id", "data"] })
+    const data = (payment.data || {}) as unknown as PayuSessionData
+    const ledger = getRefundLedger(data).map((refund) =>
+        changes.refunds.find((changed) => changed.request_id === refund.request_id) || refund
+    )
+
+    // Failed refunds no longer count towards the refunded total
+    const update: PaymentDataUpdate = {
+        id: changes.id,
+        data: {
+            ...data,
+            status: getRefundedPaymentStatus(data, ledger),
+            refunds: ledger,
+            hasPendingRefunds: ledger.some(isPendingRefund),
+            refund: undefined,
+        },
+    }
+    await paymentModule.updatePayment(update)
+}
+
+/**
+ * Step: Find PayU payments with at least one pending refund
+ * Only payments flagged with hasPendingRefunds are read, a page at a time
+ */
+const listPendingPayuRefundsStep = createStep(
+    "list-pending-payu-refunds-step",
+    async (input: ReconcilePayuRefundsInput, { container }): Promise<StepResponse<PendingRefundPayment[]>> => {
+        const query = container.resolve(ContainerRegistrationKeys.QUERY)
+        const pending: PendingRefundPayment[] = []
+
+        for (let skip = 0; ; skip += PAGE_SIZE) {
+            const { data: payments } = await query.graph({
+                entity: "payment",
+                fields: ["id", "provider_id", "data"],
+                filters: {
+                    provider_id: { $like: "pp_payu_%" },
+                    data: { hasPendingRefunds: true },
+                    ...(input.payment_ids?.length ? { id: input.payment_ids } : {}),
+                } as Record<string, unknown>,
+                pagination: { skip, take: PAGE_SIZE, order: { created_at: "ASC" } },
+            })
+
+            for (const payment of payments as { id: string; provider_id: string; data: Record<string, unknown> | null }[]) {
+                const data = (payment.data || {}) as unknown as PayuSessionData
+                if (getRefundLedger(data).some(isPendingRefund)) {
+                    pending.push({ id: payment.id, provider_id: payment.provider_id, data })
+                }
+            }
+
+            if (payments.length < PAGE_SIZE) {
+                break
+            }
+        }
+
+        return new StepResponse(pending)
+    }
+)
+
+/**
+ * Step: Check each pending refund with PayU and store the result on the payment
+ */
+const checkPayuRefundsStep = createStep(
+    "check-payu-refunds-step",
+    async (
+        input: { payments: PendingRefundPayment[]; credentials: PayuCredentialsInput },
+        { container }
+    ) => {
+        const paymentModule = container.resolve(Modules.PAYMENT)
+        const logger = container.resolve(ContainerRegistrationKeys.LOGGER)
+        const getClient = createPayuClientResolver(container, input.credentials, logger)
+
+        const refunds: ReconciledPayuRefund[] = []
+        const previous: RefundLedgerChanges[] = []
+        let checked = 0
+
+        for (const payment of input.payments) {
+            // Refunds are checked with the merchant account the payment was made with
+            const client = getClient(payment.data.merchantProfile, payment.provider_id)
+            if (!client) {
+                logger.warn(
+                    `PayU refund reconciliation skipped for payment ${payment.id}: ` +
+                    `PayU configuration missing for merchant profile ${payment.data.merchantProfile || "default"}`
+                )
+                continue
+            }
+
+            checked++
+            const pending = getRefundLedger(payment.data).filter(isPendingRefund)
+            const changed: PayuRefundRecord[] = []
+
+            for (const refund of pending) {
+                const requestId = refund.request_id!
+
+                try {
+                    const response = await client.checkRefundStatus(requestId)
+                    const details = response.transaction_details?.[requestId] || {}
+                    const action = details[payment.data.payuTransactionId || ""] || Object.values(details)[0]
+
+                    const status = response.status === 1 ? toRefundStatus(action?.status) : "pending"
+                    const now = new Date().toISOString()
+
+                    changed.push({
+                        ...refund,
+                        status,
+                        lastCheckedAt: now,
+                        ...(status !== "pending" ? { settledAt: now } : {}),
+                    })
+
+                    logger.info(
+                        `PayU refund reconciled: payment=${payment.id}, request_id=${requestId}, ` +
+                        `payu_status=${action?.status || 'N/A'}, status=${status}`
+                    )
+                    refunds.push({ payment_id: payment.id, request_id: requestId, status })
+                } catch (error) {
+                    logger.error(`PayU refund reconciliation error for request_id=${requestId}: ${error}`)
+                    refunds.push({
+                        payment_id: payment.id,
+                        request_id: requestId,
+                        status: "pending",
+                        error: (error as Error).message,
+                    })
+                }
+            }
+
+            if (!changed.length) {
+                continue
+            }
+            await mergeRefundLedger(paymentModule, { id: payment.id, refunds: changed })
+            previous.push({
+                id: payment.id,
+                refunds: pending.filter((refund) => changed.some((c) => c.request_id === refund.request_id)),
+            })
+        }
+
+        return new StepResponse<ReconcilePayuRefundsOutput, RefundLedgerChanges[]>(
+            { checked, refunds },
+            previous
+        )
+    },
+    async (previous, { container }) => {
+        if (!previous?.length) {
+            return
+        }
+
+        const paymentModule = container.resolve(Modules.PAYMENT)
+        for (const changes of previous) {
+            await mergeRefundLedger(paymentModule, changes)
+        }
+    }
+)
+
+/**
+ * Reconcile PayU Refunds Workflow
+ */
+export const reconcilePayuRefundsWorkflow = createWorkflow(
+    "reconcile-payu-refunds",
+    (input: ReconcilePayuRefundsInput) => {
+        const payments = listPendingPayuRefundsStep(input)
+        const result = checkPayuRefundsStep({ payments, credentials: input })
+        return new WorkflowResponse(result)
+    }
+)
+
+export default reconcilePayuRefundsWorkflow
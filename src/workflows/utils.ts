@@ -0,0 +1,203 @@
+/**
+ * Shared helpers for PayU workflows
+ */
+
+import type { ConfigModule, Logger, MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { PAYU_MODULE } from "../modules/payu"
+import { PayuClient } from "../providers/payu/client"
+import {
+    findMerchantProfile,
+    findMerchantProfileByKey,
+    getMerchantProfileConfig,
+} from "../providers/payu/merchants"
+import PayuPaymentProviderService, { PAYU_PROVIDER_ID } from "../providers/payu/service"
+import type {
+    PayuMerchantProfile,
+    PayuPreviousSalt,
+    PayuProviderConfig,
+    PayuSaltVersion,
+} from "../providers/payu/types"
+
+/**
+ * Id of the PayU provider registered with `id: "payu"`
+ */
+export const DEFAULT_PAYU_PROVIDER_ID = `pp_${PAYU_PROVIDER_ID}_payu`
+
+/**
+ * Optional PayU credentials accepted by workflow inputs
+ * Each one overrides the registered PayU provider's option of the same name
+ */
+export interface PayuCredentialsInput {
+    merchantKey?: string
+    merchantSalt?: string
+    /** Salt version 2 */
+    merchantSaltV2?: string
+    /** Hash scheme, 1 or 2 */
+    saltVersion?: PayuSaltVersion
+    environment?: "test" | "production"
+    baseUrl?: string
+    /** Salts replaced during a salt rotation */
+    previousSalts?: PayuPreviousSalt[]
+    /** Additional merchant profiles */
+    merchants?: PayuMerchantProfile[]
+}
+
+/**
+ * PayU entry of the payment module's `providers` option
+ */
+type PayuProviderRegistration = {
+    id?: string
+    options?: Partial<PayuProviderConfig>
+}
+
+/**
+ * Merchant profile to resolve credentials for
+ * `id` comes from the session data, `key` from a PayU response,
+ * `providerId` from the payment (default: DEFAULT_PAYU_PROVIDER_ID)
+ */
+export interface PayuMerchantSelector {
+    id?: string
+    key?: string
+    providerId?: string
+}
+
+/**
+ * Parse a JSON array from an environment variable
+ */
+function getEnvArray<T>(name: string): T[] | undefined {
+    const value = process.env[name]
+    if (!value) {
+        return undefined
+    }
+
+    try {
+        const parsed = JSON.parse(value)
+        return Array.isArray(parsed) ? parsed : undefined
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * PayU options from the PAYU_* environment variables
+ * Undefined when PAYU_MERCHANT_KEY is not set
+ */
+function getEnvPayuConfig(): PayuProviderConfig | undefined {
+    if (!process.env.PAYU_MERCHANT_KEY) {
+        return undefined
+    }
+
+    return {
+        merchantKey: process.env.PAYU_MERCHANT_KEY,
+        merchantSalt: process.env.PAYU_MERCHANT_SALT || "",
+        merchantSaltV2: process.env.PAYU_MERCHANT_SALT_V2 || undefined,
+        saltVersion: process.env.PAYU_SALT_VERSION === "2" ? 2 : undefined,
+        environment: (process.env.PAYU_ENVIRONMENT as "test" | "production") || "test",
+        baseUrl: process.env.PAYU_BASE_URL || undefined,
+        previousSalts: getEnvArray<PayuPreviousSalt>("PAYU_PREVIOUS_SALTS"),
+        merchants: getEnvArray<PayuMerchantProfile>("PAYU_MERCHANT_PROFILES"),
+    }
+}
+
+/**
+ * Options of a PayU provider registered in medusa-config.ts
+ * Read from the payment module's `providers` option in the config module, where the
+ * entry with `id: "payu"` is registered as pp_payu_payu. Returns null when no PayU
+ * provider is registered under the id
+ */
+export function resolvePayuProviderConfig(
+    container: MedusaContainer,
+    providerId: string = DEFAULT_PAYU_PROVIDER_ID
+): PayuProviderConfig | null {
+    const { modules } = container.resolve<ConfigModule>(ContainerRegistrationKeys.CONFIG_MODULE)
+    const payment = modules?.[Modules.PAYMENT]
+    const providers = (typeof payment === "object" && (payment.options?.providers as PayuProviderRegistration[])) || []
+
+    // Other providers registered with the same id have no PayU credentials
+    const registration = providers.find((provider) =>
+        `pp_${PAYU_PROVIDER_ID}${provider.id ? `_${provider.id}` : ""}` === providerId
+        && (!!provider.options?.merchantKey || !!provider.options?.merchants?.length))
+
+    return registration ? { merchantKey: "", merchantSalt: "", environment: "test", ...registration.options } : null
+}
+
+/**
+ * Build a PayU provider instance from its registered options for server-side calls
+ * (e.g. webhook replays), backed by the public payment and payu module services
+ * Returns null when no PayU provider is registered under the id
+ */
+export function createPayuProvider(
+    container: MedusaContainer,
+    providerId: string = DEFAULT_PAYU_PROVIDER_ID
+): PayuPaymentProviderService | null {
+    const config = resolvePayuProviderConfig(container, providerId)
+    if (!config) {
+        return null
+    }
+
+    const paymentModule = container.resolve(Modules.PAYMENT)
+    return new PayuPaymentProviderService({
+        logger: container.resolve(ContainerRegistrationKeys.LOGGER),
+        [Modules.EVENT_BUS]: container.resolve(Modules.EVENT_BUS),
+        [PAYU_MODULE]: container.resolve(PAYU_MODULE, { allowUnregistered: true }),
+        paymentSessionService: {
+            list: (filters: Record<string, unknown>, config?: { select?: string[]; take?: number }) =>
+                paymentModule.listPaymentSessions(filters, config),
+        },
+    }, config)
+}
+
+/**
+ * Resolve PayU client config from the registered provider's options and the workflow input
+ * Without a PayU provider registered under the id, the PAYU_* environment variables are used.
+ * Uses the default merchant profile unless `merchant` selects another one.
+ * Returns null when no credentials or no matching merchant profile are configured
+ */
+export function resolvePayuConfig(
+    container: MedusaContainer,
+    input: PayuCredentialsInput = {},
+    merchant: PayuMerchantSelector = {}
+): PayuProviderConfig | null {
+    const registered = resolvePayuProviderConfig(container, merchant.providerId) ?? getEnvPayuConfig()
+    const overrides = Object.fromEntries(
+        Object.entries(input).filter(([, value]) => value !== undefined)
+    ) as PayuCredentialsInput
+    if (!registered && !overrides.merchantKey) {
+        return null
+    }
+
+    const config: PayuProviderConfig = {
+        merchantKey: "",
+        merchantSalt: "",
+        environment: "test",
+        ...registered,
+        ...overrides,
+    }
+    const profile = merchant.key
+        ? findMerchantProfileByKey(config, merchant.key)
+        : findMerchantProfile(config, merchant.id)
+
+    return profile ? getMerchantProfileConfig(config, profile) : null
+}
+
+/**
+ * Create PayU clients per provider and merchant profile id, cached for the caller's lifetime
+ * The returned function gives null for profiles without configured credentials
+ */
+export function createPayuClientResolver(
+    container: MedusaContainer,
+    input: PayuCredentialsInput,
+    logger?: Logger
+): (profileId?: string, providerId?: string) => PayuClient | null {
+    const clients = new Map<string, PayuClient | null>()
+
+    return (profileId?: string, providerId?: string) => {
+        const cacheKey = `${providerId || DEFAULT_PAYU_PROVIDER_ID}|${profileId || ""}`
+        if (!clients.has(cacheKey)) {
+            const config = resolvePayuConfig(container, input, { id: profileId, providerId })
+            clients.set(cacheKey, config ? new PayuClient(config, logger) : null)
+        }
+        return clients.get(cacheKey)!
+    }
+}
@@ -11,16 +11,17 @@ import {
     WorkflowResponse,
 } from "@medusajs/framework/workflows-sdk"
 import { PayuClient } from "../providers/payu/client"
-import type { PayuProviderConfig } from "../providers/payu/types"
+import { resolvePayuConfig, type PayuCredentialsInput } from "./utils"
 
 /**
  * Input for verify payment workflow
  */
-export interface VerifyPayuPaymentInput {
+export interface VerifyPayuPaymentInput extends PayuCredentialsInput {
     txnid: string
-    merchantKey?: string
-    merchantSalt?: string
-    environment?: "test" | "production"
+    /** Merchant profile the payment was made with (default profile when omitted) */
+    merchantProfile?: string
+    /** PayU provider the payment was made with (default: pp_payu_payu) */
+    providerId?: string
 }
 
 /**
@@ -38,15 +39,11 @@ export interface VerifyPayuPaymentOutput {
  */
 const verifyPaymentStep = createStep(
     "verify-payu-payment-step",
-    async (input: VerifyPayuPaymentInput): Promise<StepResponse<VerifyPayuPaymentOutput>> => {
-        const {
-            txnid,
-            merchantKey = process.env.PAYU_MERCHANT_KEY || "",
-            merchantSalt = process.env.PAYU_MERCHANT_SALT || "",
-            environment = (process.env.PAYU_ENVIRONMENT as "test" | "production") || "test",
-        } = input
+    async (input: VerifyPayuPaymentInput, { container }): Promise<StepResponse<VerifyPayuPaymentOutput>> => {
+        const { txnid, merchantProfile, providerId, ...credentials } = input
+        const config = resolvePayuConfig(container, credentials, { id: merchantProfile, providerId })
 
-        if (!merchantKey || !merchantSalt) {
+        if (!config) {
             return new StepResponse({
                 success: false,
                 status: "error",
@@ -55,7 +52,6 @@ const verifyPaymentStep = createStep(
         }
 
         try {
-            const config: PayuProviderConfig = { merchantKey, merchantSalt, environment }
             const client = new PayuClient(config)
             const response = await client.verifyPayment(txnid)
 